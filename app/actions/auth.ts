@@ -0,0 +1,67 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { redirect } from "next/navigation";
+import { db } from "@/db";
+import { users } from "@/db/schema";
+import { verifyPassword } from "@/lib/auth/password";
+import { createSession, destroySession } from "@/lib/auth/session";
+
+export type SignInState = {
+  error: string | null;
+};
+
+// Placeholder origin for resolving "next"; only its path is ever used
+const REDIRECT_BASE = "http://localhost";
+
+/**
+ * Only follow same-site paths after signing in, never another origin.
+ * Browsers read "//host", "/\host" and paths with stray tabs or newlines as
+ * other sites, so "next" is resolved the way a browser would.
+ */
+function getRedirectPath(next: FormDataEntryValue | null) {
+  if (typeof next !== "string" || !next.startsWith("/")) {
+    return "/";
+  }
+  try {
+    const url = new URL(next, REDIRECT_BASE);
+    return url.origin === REDIRECT_BASE
+      ? `${url.pathname}${url.search}${url.hash}`
+      : "/";
+  } catch {
+    return "/";
+  }
+}
+
+export async function signIn(
+  _state: SignInState,
+  formData: FormData,
+): Promise<SignInState> {
+  const email = String(formData.get("email") ?? "")
+    .trim()
+    .toLowerCase();
+  const password = String(formData.get("password") ?? "");
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.email, email),
+    columns: { id: true, passwordHash: true },
+  });
+
+  // Same message either way, so the form can't be used to discover accounts
+  if (
+    !user?.passwordHash ||
+    !(await verifyPassword(password, user.passwordHash))
+  ) {
+    return { error: "Incorrect email or password" };
+  }
+
+  await createSession(user.id);
+  console.log(`[Server Action] User ${user.id} signed in`);
+
+  redirect(getRedirectPath(formData.get("next")));
+}
+
+export async function signOut() {
+  await destroySession();
+  redirect("/login");
+}
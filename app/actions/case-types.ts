@@ -0,0 +1,61 @@
+"use server";
+
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import { caseTypes, intakeFormData } from "@/db/schema";
+import type { CaseTypeDefinition } from "@/db/types";
+import { CaseTypeDefinitionSchema } from "@/db/validation";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { listCaseTypes } from "@/lib/case-types/registry";
+
+export async function getCaseTypes() {
+  await requireUser();
+  return await listCaseTypes();
+}
+
+/**
+ * Add a case type to the registry, or update the one with the same ID.
+ * Later extractions pick it up straight away.
+ */
+export async function saveCaseType(input: CaseTypeDefinition) {
+  await requirePermission("caseTypes:manage");
+  const parsed = CaseTypeDefinitionSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new Error(
+      parsed.error.issues.map((issue) => issue.message).join("; "),
+    );
+  }
+
+  const { id, ...values } = parsed.data;
+  await db
+    .insert(caseTypes)
+    .values({ id, ...values })
+    .onConflictDoUpdate({ target: caseTypes.id, set: values });
+
+  console.log(
+    `[Server Action] Saved case type ${id} (${values.fields.length} field(s))`,
+  );
+
+  revalidatePath("/");
+  revalidatePath("/case-types");
+  revalidatePath("/matters/[id]", "page");
+}
+
+/**
+ * Remove a case type no matter uses
+ */
+export async function deleteCaseType(id: string) {
+  await requirePermission("caseTypes:manage");
+  const inUse = await db.query.intakeFormData.findFirst({
+    where: eq(intakeFormData.caseType, id),
+    columns: { id: true },
+  });
+  if (inUse) {
+    throw new Error(`Case type "${id}" is used by existing matters`);
+  }
+
+  await db.delete(caseTypes).where(eq(caseTypes.id, id));
+
+  revalidatePath("/case-types");
+}
@@ -0,0 +1,231 @@
+"use server";
+
+import { and, desc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import { matterDecisions, matters } from "@/db/schema";
+import type { DecisionOutcome, LetterMethod, MatterStatus } from "@/db/types";
+import { requireMatterAccess } from "@/lib/auth/access";
+import {
+  DECISION_OUTCOMES,
+  isDecided,
+  isLetterMethod,
+  MATTER_STATUS_LABELS,
+  needsDeclinationLetter,
+} from "@/lib/matters/status";
+
+type UserName = { firstName: string; lastName: string } | null;
+
+function fullName(user: UserName) {
+  return user ? `${user.firstName} ${user.lastName}` : null;
+}
+
+/**
+ * Every retention decision made on a matter, newest first. Only the newest
+ * can be current; earlier ones were undone by reopening the matter.
+ */
+export async function getMatterDecisions(matterId: number) {
+  await requireMatterAccess(matterId);
+
+  const nameColumns = { columns: { firstName: true, lastName: true } } as const;
+  const decisions = await db.query.matterDecisions.findMany({
+    where: eq(matterDecisions.matterId, matterId),
+    orderBy: [desc(matterDecisions.decidedAt), desc(matterDecisions.id)],
+    with: {
+      decidedBy: nameColumns,
+      letterSentBy: nameColumns,
+      reopenedBy: nameColumns,
+    },
+  });
+
+  return decisions.map((decision) => ({
+    id: decision.id,
+    outcome: decision.outcome as DecisionOutcome,
+    reason: decision.reason,
+    referredTo: decision.referredTo,
+    decidedAt: decision.decidedAt,
+    decidedBy: fullName(decision.decidedBy),
+    letterSentAt: decision.letterSentAt,
+    letterMethod: decision.letterMethod as LetterMethod | null,
+    letterSentBy: fullName(decision.letterSentBy),
+    reopenedAt: decision.reopenedAt,
+    reopenedBy: fullName(decision.reopenedBy),
+  }));
+}
+
+/**
+ * Record the firm's retention decision. Accepting a matter requires its
+ * intake to have been reviewed first.
+ */
+export async function decideMatter(
+  matterId: number,
+  input: { outcome: DecisionOutcome; reason: string; referredTo?: string },
+) {
+  const user = await requireMatterAccess(matterId, "matter:decide");
+
+  if (!DECISION_OUTCOMES.includes(input.outcome)) {
+    throw new Error(`Unknown decision "${input.outcome}"`);
+  }
+  const reason = input.reason.trim();
+  if (!reason) {
+    throw new Error("Give a reason for the decision");
+  }
+  const referredTo = input.referredTo?.trim() || null;
+  if (input.outcome === "referred_out" && !referredTo) {
+    throw new Error("Say who the client was referred to");
+  }
+
+  // Checked and recorded in one transaction, and the status update only
+  // applies to the status that was checked, so two people deciding at once
+  // can't both succeed
+  const decision = db.transaction((tx) => {
+    const matter = tx
+      .select({ status: matters.status, reviewedAt: matters.reviewedAt })
+      .from(matters)
+      .where(eq(matters.id, matterId))
+      .get();
+    if (!matter) {
+      throw new Error(`Matter ${matterId} not found`);
+    }
+
+    const status = matter.status as MatterStatus;
+    if (isDecided(status)) {
+      throw new Error(
+        `This matter is already ${MATTER_STATUS_LABELS[status].toLowerCase()}; reopen it first`,
+      );
+    }
+    if (status === "processing") {
+      throw new Error("Wait for the transcript to finish processing");
+    }
+    if (input.outcome === "accepted" && !matter.reviewedAt) {
+      throw new Error(
+        "Mark the intake as reviewed before accepting the matter",
+      );
+    }
+
+    const inserted = tx
+      .insert(matterDecisions)
+      .values({
+        matterId,
+        outcome: input.outcome,
+        reason,
+        referredTo: input.outcome === "referred_out" ? referredTo : null,
+        decidedById: user.id,
+      })
+      .returning({ id: matterDecisions.id })
+      .get();
+
+    const updated = tx
+      .update(matters)
+      .set({
+        status: input.outcome,
+        currentDecisionId: inserted.id,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(matters.id, matterId), eq(matters.status, status)))
+      .returning({ id: matters.id })
+      .get();
+    if (!updated) {
+      throw new Error("This matter changed while you were deciding; reload it");
+    }
+
+    return inserted;
+  });
+
+  console.log(
+    `[Server Action] Matter ${matterId} ${input.outcome} by user ${user.id} (decision ${decision.id})`,
+  );
+
+  revalidatePath("/");
+  revalidatePath(`/matters/${matterId}`);
+}
+
+/**
+ * Undo a decision and put the matter back in review. The decision stays in
+ * the matter's history.
+ */
+export async function reopenMatter(matterId: number) {
+  const user = await requireMatterAccess(matterId, "matter:decide");
+
+  const matter = await db.query.matters.findFirst({
+    where: eq(matters.id, matterId),
+    columns: { status: true, currentDecisionId: true },
+  });
+  if (!matter || !isDecided(matter.status as MatterStatus)) {
+    throw new Error("Only decided matters can be reopened");
+  }
+
+  if (matter.currentDecisionId !== null) {
+    await db
+      .update(matterDecisions)
+      .set({ reopenedAt: new Date(), reopenedById: user.id })
+      .where(eq(matterDecisions.id, matter.currentDecisionId));
+  }
+  await db
+    .update(matters)
+    .set({
+      status: "in_review",
+      currentDecisionId: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(matters.id, matterId));
+
+  console.log(`[Server Action] Matter ${matterId} reopened by user ${user.id}`);
+
+  revalidatePath("/");
+  revalidatePath(`/matters/${matterId}`);
+}
+
+/**
+ * Note that the declination letter for the matter's current decision went out
+ */
+export async function recordDeclinationLetter(
+  matterId: number,
+  method: LetterMethod,
+) {
+  const user = await requireMatterAccess(matterId, "matter:edit");
+
+  if (!isLetterMethod(method)) {
+    throw new Error(`Unknown letter method "${method}"`);
+  }
+
+  const matter = await db.query.matters.findFirst({
+    where: eq(matters.id, matterId),
+    columns: { currentDecisionId: true },
+  });
+  const decision =
+    matter?.currentDecisionId != null
+      ? await db.query.matterDecisions.findFirst({
+          where: and(
+            eq(matterDecisions.id, matter.currentDecisionId),
+            eq(matterDecisions.matterId, matterId),
+          ),
+        })
+      : undefined;
+
+  if (
+    !decision ||
+    !needsDeclinationLetter(decision.outcome as DecisionOutcome)
+  ) {
+    throw new Error("This matter doesn't need a declination letter");
+  }
+  if (decision.letterSentAt) {
+    throw new Error("The declination letter was already recorded as sent");
+  }
+
+  await db
+    .update(matterDecisions)
+    .set({
+      letterSentAt: new Date(),
+      letterSentById: user.id,
+      letterMethod: method,
+    })
+    .where(eq(matterDecisions.id, decision.id));
+
+  console.log(
+    `[Server Action] Matter ${matterId}: declination letter sent by ${method}`,
+  );
+
+  revalidatePath("/");
+  revalidatePath(`/matters/${matterId}`);
+}
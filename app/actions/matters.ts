@@ -1,24 +1,139 @@
 "use server";
 
 import { db } from "@/db";
-import { matters, intakeFormData, transcripts, turns } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import {
+  matters,
+  intakeFormData,
+  matterAssignments,
+  matterDecisions,
+  matterRevisions,
+  processingJobs,
+  turns,
+  users,
+} from "@/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
-import type { Liability, Damages, Coverage } from "@/db/types";
+import type {
+  CaseDetails,
+  Liability,
+  Damages,
+  Coverage,
+  MvaDetails,
+  DogBiteDetails,
+  PremisesDetails,
+  MatterRevisionKind,
+  MatterStatus,
+} from "@/db/types";
+import {
+  accessibleMatters,
+  assignNewMatter,
+  canAccessMatter,
+  canManageMatterTeam,
+  requireMatterAccess,
+  requireMatterOwner,
+} from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { findCaseType } from "@/lib/case-types/defaults";
+import { listCaseTypes } from "@/lib/case-types/registry";
+import {
+  diffSnapshots,
+  markFieldSources,
+  type MatterSnapshot,
+} from "@/lib/intake/fields";
+import { generateBrief } from "@/lib/ai/brief";
+import type { BriefStyle } from "@/lib/intake/brief";
+import { scoreMatter } from "@/lib/intake/scoring";
+import {
+  getFieldConflicts,
+  getReviewChecklist,
+  pickConflictCandidate,
+} from "@/lib/intake/review";
+import {
+  diffRevision,
+  listMatterRevisions,
+  type RevisionState,
+  saveMatterRecordChange,
+  saveMatterRevision,
+} from "@/lib/matters/revisions";
+import {
+  loadMatterSnapshot,
+  snapshotToExtraction,
+} from "@/lib/matters/snapshot";
+import {
+  advanceMatterStatus,
+  isDecided,
+  needsDeclinationLetter,
+} from "@/lib/matters/status";
 
+/**
+ * Matters the signed-in user owns, is assigned to, or that nobody owns yet,
+ * with whether each still owes the client a declination letter and its
+ * viability score
+ */
 export async function getMatters() {
-  return await db
+  const user = await requireUser();
+  const caseTypes = await listCaseTypes();
+  const rows = await db
     .select({
       id: matters.id,
       name: matters.name,
       clientName: matters.clientName,
+      processingStatus: matters.processingStatus,
+      status: matters.status,
+      ownerId: matters.ownerId,
       createdAt: matters.createdAt,
       updatedAt: matters.updatedAt,
+      letterSentAt: matterDecisions.letterSentAt,
+      incidentDate: matters.incidentDate,
+      caseType: intakeFormData.caseType,
+      liability: intakeFormData.liability,
+      damages: intakeFormData.damages,
+      coverage: intakeFormData.coverage,
     })
-    .from(matters);
+    .from(matters)
+    .innerJoin(intakeFormData, eq(matters.intakeFormDataId, intakeFormData.id))
+    .leftJoin(matterDecisions, eq(matters.currentDecisionId, matterDecisions.id))
+    .where(accessibleMatters(user.id));
+
+  return rows.map(
+    ({
+      letterSentAt,
+      incidentDate,
+      caseType,
+      liability,
+      damages,
+      coverage,
+      ...row
+    }) => {
+      const status = row.status as MatterStatus;
+      const score = scoreMatter(
+        {
+          caseType,
+          incidentDate,
+          liability: liability as Liability,
+          damages: damages as Damages,
+          coverage: coverage as Coverage,
+        },
+        caseTypes
+      );
+      return {
+        ...row,
+        status,
+        letterPending:
+          isDecided(status) && needsDeclinationLetter(status) && !letterSentAt,
+        score: score.total,
+        recommendation: score.recommendation,
+      };
+    }
+  );
 }
 
 export async function getMatter(id: number) {
+  const user = await requireUser();
+  if (!(await canAccessMatter(user.id, id))) {
+    return null;
+  }
+
   const result = await db
     .select({
       id: matters.id,
@@ -32,14 +147,23 @@ export async function getMatter(id: number) {
       incidentLocation: matters.incidentLocation,
       brief: matters.brief,
       citations: matters.citations,
+      fieldSources: matters.fieldSources,
+      processingStatus: matters.processingStatus,
+      status: matters.status,
+      reviewedAt: matters.reviewedAt,
+      ownerId: matters.ownerId,
       createdAt: matters.createdAt,
       updatedAt: matters.updatedAt,
       intakeFormData: {
         id: intakeFormData.id,
         caseType: intakeFormData.caseType,
+        caseDetails: intakeFormData.caseDetails,
         liability: intakeFormData.liability,
         damages: intakeFormData.damages,
         coverage: intakeFormData.coverage,
+        mvaDetails: intakeFormData.mvaDetails,
+        dogBiteDetails: intakeFormData.dogBiteDetails,
+        premisesDetails: intakeFormData.premisesDetails,
       },
     })
     .from(matters)
@@ -51,6 +175,8 @@ export async function getMatter(id: number) {
 }
 
 export async function createMatter(name: string) {
+  const user = await requirePermission("matter:create");
+
   // Create default intake form data
   const defaultLiability: Liability = {
     atFault: "unclear",
@@ -88,63 +214,113 @@ export async function createMatter(name: string) {
       intakeFormDataId: newIntakeForm.id,
     })
     .returning();
+  await assignNewMatter(newMatter.id, user);
 
   revalidatePath("/");
   return newMatter.id;
 }
 
+/**
+ * Delete a matter for everyone. It's only hidden: its transcripts, decisions
+ * and revision history stay on record, and extractions still waiting to run
+ * are called off.
+ */
 export async function deleteMatter(id: number) {
-  // Get the matter to find the intake form data ID and transcript ID
-  const matter = await db.query.matters.findFirst({
-    where: eq(matters.id, id),
-    with: {
-      transcript: true,
-    },
+  const user = await requireMatterAccess(id, "matter:delete");
+
+  db.transaction((tx) => {
+    tx.update(matters)
+      .set({ deletedAt: new Date(), updatedAt: new Date() })
+      .where(eq(matters.id, id))
+      .run();
+    tx.update(processingJobs)
+      .set({ status: "failed", error: "The matter was deleted" })
+      .where(
+        and(
+          eq(processingJobs.matterId, id),
+          eq(processingJobs.status, "queued")
+        )
+      )
+      .run();
   });
 
-  if (matter) {
-    // Step 1: Delete turns if transcript exists
-    if (matter.transcript) {
-      await db
-        .delete(turns)
-        .where(eq(turns.transcriptId, matter.transcript.id));
-
-      // Step 2: Delete transcript
-      await db
-        .delete(transcripts)
-        .where(eq(transcripts.id, matter.transcript.id));
-    }
+  console.log(`[Server Action] Matter ${id} deleted by user ${user.id}`);
 
-    // Step 3: Delete matter
-    await db.delete(matters).where(eq(matters.id, id));
+  revalidatePath("/");
+}
 
-    // Step 4: Delete intake form data
-    await db
-      .delete(intakeFormData)
-      .where(eq(intakeFormData.id, matter.intakeFormDataId));
+/**
+ * Save a manual edit, marking every field whose value actually changed as user-owned
+ * so later extraction runs won't overwrite it
+ */
+async function saveUserEdits(
+  matterId: number,
+  userId: number,
+  edit: (snapshot: MatterSnapshot) => MatterSnapshot
+) {
+  const current = await loadMatterSnapshot(matterId);
+  if (!current) {
+    throw new Error(`Matter ${matterId} not found`);
   }
 
-  revalidatePath("/");
+  const updated = edit(current.snapshot);
+  const changedKeys = diffSnapshots(current.snapshot, updated).map(
+    (change) => change.key
+  );
+
+  await saveMatterRevision(
+    matterId,
+    current,
+    {
+      snapshot: updated,
+      fieldSources: markFieldSources(current.fieldSources, changedKeys, {
+        origin: "user",
+        updatedAt: new Date().toISOString(),
+      }),
+    },
+    { kind: "edit", userId }
+  );
+  await advanceMatterStatus(matterId, "edited");
 }
 
 export async function updateIntakeFormData(
   id: number,
   data: {
     caseType: string;
+    caseDetails?: CaseDetails | null;
     liability: Liability;
     damages: Damages;
     coverage: Coverage;
+    mvaDetails?: MvaDetails | null;
+    dogBiteDetails?: DogBiteDetails | null;
+    premisesDetails?: PremisesDetails | null;
   }
 ) {
-  await db
-    .update(intakeFormData)
-    .set({
-      caseType: data.caseType,
-      liability: data.liability,
-      damages: data.damages,
-      coverage: data.coverage,
-    })
-    .where(eq(intakeFormData.id, id));
+  if (!findCaseType(await listCaseTypes(), data.caseType)) {
+    throw new Error(`Unknown case type "${data.caseType}"`);
+  }
+
+  const matter = await db.query.matters.findFirst({
+    where: eq(matters.intakeFormDataId, id),
+    columns: { id: true },
+  });
+
+  if (!matter) {
+    throw new Error(`No matter found for intake form ${id}`);
+  }
+
+  const user = await requireMatterAccess(matter.id, "matter:edit");
+  await saveUserEdits(matter.id, user.id, (snapshot) => ({
+    ...snapshot,
+    caseType: data.caseType,
+    ...(data.caseDetails !== undefined && { caseDetails: data.caseDetails }),
+    liability: data.liability,
+    damages: data.damages,
+    coverage: data.coverage,
+    ...(data.mvaDetails !== undefined && { mvaDetails: data.mvaDetails }),
+    ...(data.dogBiteDetails !== undefined && { dogBiteDetails: data.dogBiteDetails }),
+    ...(data.premisesDetails !== undefined && { premisesDetails: data.premisesDetails }),
+  }));
 
   revalidatePath("/matters/[id]");
 }
@@ -163,7 +339,381 @@ export async function updateMatter(
     brief?: string;
   }
 ) {
-  await db.update(matters).set(data).where(eq(matters.id, id));
+  const user = await requireMatterAccess(id, "matter:edit");
+  const { name, ...fields } = data;
+
+  if (name !== undefined) {
+    saveMatterRecordChange(id, { kind: "rename", userId: user.id }, (tx) =>
+      tx
+        .update(matters)
+        .set({ name, updatedAt: new Date() })
+        .where(eq(matters.id, id))
+        .run()
+    );
+  }
+
+  await saveUserEdits(id, user.id, (snapshot) => ({ ...snapshot, ...fields }));
 
   revalidatePath("/matters/[id]");
 }
+
+/**
+ * Revision history for a matter, newest first, with a field-level diff per
+ * revision and whether it can be restored (only intake field states can)
+ */
+export async function getMatterRevisions(matterId: number) {
+  await requireMatterAccess(matterId);
+  const revisions = await listMatterRevisions(matterId);
+
+  return revisions.map((revision) => {
+    const before = revision.before as RevisionState;
+    const after = revision.after as RevisionState;
+    return {
+      id: revision.id,
+      kind: revision.kind as MatterRevisionKind,
+      userId: revision.userId,
+      userName: revision.user
+        ? `${revision.user.firstName} ${revision.user.lastName}`
+        : null,
+      jobId: revision.jobId,
+      restoredFromId: revision.restoredFromId,
+      createdAt: revision.createdAt,
+      changes: diffRevision(before, after),
+      restorable: Boolean(after.snapshot),
+    };
+  });
+}
+
+/**
+ * Put a matter back into the state it was in right after the given revision.
+ * The restore itself is logged as a new revision, so it can be undone too.
+ */
+export async function restoreMatterRevision(revisionId: number) {
+  const revision = await db.query.matterRevisions.findFirst({
+    where: eq(matterRevisions.id, revisionId),
+  });
+
+  if (!revision) {
+    throw new Error(`Revision ${revisionId} not found`);
+  }
+
+  const user = await requireMatterAccess(revision.matterId, "matter:edit");
+  const after = revision.after as RevisionState;
+  if (!after.snapshot || !after.fieldSources) {
+    throw new Error("Only changes to the intake fields can be restored");
+  }
+
+  const current = await loadMatterSnapshot(revision.matterId);
+  if (!current) {
+    throw new Error(`Matter ${revision.matterId} not found`);
+  }
+
+  await saveMatterRevision(
+    revision.matterId,
+    current,
+    { snapshot: after.snapshot, fieldSources: after.fieldSources },
+    { kind: "restore", userId: user.id, restoredFromId: revision.id }
+  );
+
+  revalidatePath(`/matters/${revision.matterId}`);
+  return { success: true };
+}
+
+/**
+ * Low-confidence and conflicting AI values still waiting for a lawyer, the
+ * candidate values for each conflict, and when the matter was last marked reviewed
+ */
+export async function getMatterReviewChecklist(matterId: number) {
+  await requireMatterAccess(matterId);
+  const current = await loadMatterSnapshot(matterId);
+  if (!current) {
+    throw new Error(`Matter ${matterId} not found`);
+  }
+
+  const matter = await db.query.matters.findFirst({
+    where: eq(matters.id, matterId),
+    columns: { reviewedAt: true },
+  });
+
+  return {
+    items: getReviewChecklist(current.snapshot, current.fieldSources),
+    conflicts: getFieldConflicts(current.snapshot, current.fieldSources),
+    reviewedAt: matter?.reviewedAt ?? null,
+  };
+}
+
+/**
+ * Confirm an AI value from the review checklist without changing it
+ */
+export async function confirmFieldReview(matterId: number, key: string) {
+  const user = await requireMatterAccess(matterId, "matter:edit");
+  const current = await loadMatterSnapshot(matterId);
+  if (!current) {
+    throw new Error(`Matter ${matterId} not found`);
+  }
+
+  const source = current.fieldSources[key];
+  if (source?.origin !== "ai") {
+    throw new Error(`Field ${key} has no AI value to confirm`);
+  }
+
+  await saveMatterRevision(
+    matterId,
+    current,
+    {
+      snapshot: current.snapshot,
+      fieldSources: {
+        ...current.fieldSources,
+        [key]: { ...source, reviewedAt: new Date().toISOString() },
+      },
+    },
+    { kind: "review", userId: user.id }
+  );
+
+  revalidatePath(`/matters/${matterId}`);
+}
+
+/**
+ * Settle a conflicting AI field by picking one of the values the transcript
+ * chunks disagreed on (see pickConflictCandidate)
+ */
+export async function resolveFieldConflict(
+  matterId: number,
+  key: string,
+  candidateIndex: number
+) {
+  const user = await requireMatterAccess(matterId, "matter:edit");
+  const current = await loadMatterSnapshot(matterId);
+  if (!current) {
+    throw new Error(`Matter ${matterId} not found`);
+  }
+
+  const resolved = pickConflictCandidate(
+    current.snapshot,
+    current.fieldSources,
+    key,
+    candidateIndex
+  );
+  if (!resolved) {
+    throw new Error(`Field ${key} has no conflicting value #${candidateIndex}`);
+  }
+
+  await saveMatterRevision(matterId, current, resolved, {
+    kind: "edit",
+    userId: user.id,
+  });
+
+  console.log(
+    `[Server Action] Matter ${matterId}: resolved ${key} conflict with candidate ${candidateIndex}${resolved.changed ? "" : " (kept value)"}`
+  );
+
+  revalidatePath(`/matters/${matterId}`);
+}
+
+/**
+ * Rewrite the case brief from the matter's current values and the turns they
+ * cite. A brief the lawyer edited is only replaced when they say so.
+ */
+export async function regenerateBrief(
+  matterId: number,
+  style: BriefStyle,
+  options: { overwriteEdited?: boolean } = {}
+) {
+  const user = await requireMatterAccess(matterId, "matter:edit");
+  const current = await loadMatterSnapshot(matterId);
+  if (!current) {
+    throw new Error(`Matter ${matterId} not found`);
+  }
+
+  if (
+    current.fieldSources.brief?.origin === "user" &&
+    !options.overwriteEdited
+  ) {
+    throw new Error("The brief was edited manually; confirm to replace it");
+  }
+
+  const record = snapshotToExtraction(current.snapshot);
+  const citedTurnIds = Array.from(
+    new Set(
+      Object.values(current.snapshot.citations ?? {}).flatMap((citations) =>
+        citations.flatMap((c) => c.turnIds)
+      )
+    )
+  );
+  const citedTurns =
+    citedTurnIds.length > 0
+      ? await db
+          .select({
+            turnId: turns.id,
+            speaker: turns.speaker,
+            content: turns.content,
+          })
+          .from(turns)
+          .where(inArray(turns.id, citedTurnIds))
+      : [];
+
+  const brief = await generateBrief(record, citedTurns, style);
+
+  await saveMatterRevision(
+    matterId,
+    current,
+    {
+      snapshot: { ...current.snapshot, brief },
+      fieldSources: {
+        ...current.fieldSources,
+        brief: { origin: "ai", updatedAt: new Date().toISOString() },
+      },
+    },
+    { kind: "brief", userId: user.id }
+  );
+
+  console.log(
+    `[Server Action] Matter ${matterId}: regenerated ${style} brief (${brief.length} chars)`
+  );
+
+  revalidatePath(`/matters/${matterId}`);
+  return { success: true };
+}
+
+/**
+ * Mark a matter reviewed. Every field on the review checklist must have been
+ * confirmed or corrected first.
+ */
+export async function markMatterReviewed(matterId: number) {
+  const user = await requireMatterAccess(matterId, "matter:edit");
+  const { items } = await getMatterReviewChecklist(matterId);
+  if (items.length > 0) {
+    throw new Error(
+      `${items.length} field(s) still need review: ${items.map((item) => item.label).join(", ")}`
+    );
+  }
+
+  saveMatterRecordChange(matterId, { kind: "review", userId: user.id }, (tx) =>
+    tx
+      .update(matters)
+      .set({ reviewedAt: new Date() })
+      .where(eq(matters.id, matterId))
+      .run()
+  );
+
+  console.log(`[Server Action] Matter ${matterId} marked reviewed`);
+
+  revalidatePath(`/matters/${matterId}`);
+}
+
+/**
+ * The matter's owning attorney and the staff assigned to it, and whether the
+ * signed-in user may change them
+ */
+export async function getMatterTeam(matterId: number) {
+  const user = await requireMatterAccess(matterId);
+
+  const matter = await db.query.matters.findFirst({
+    where: eq(matters.id, matterId),
+    columns: { ownerId: true, createdById: true },
+    with: {
+      owner: { columns: { id: true, firstName: true, lastName: true } },
+      assignments: {
+        orderBy: (assignments, { asc }) => [asc(assignments.assignedAt)],
+        with: {
+          user: { columns: { id: true, firstName: true, lastName: true } },
+        },
+      },
+    },
+  });
+
+  return {
+    owner: matter?.owner ?? null,
+    assignees: matter?.assignments.map((assignment) => assignment.user) ?? [],
+    canManage: matter ? canManageMatterTeam(matter, user.id) : false,
+  };
+}
+
+async function getTeamMember(userId: number) {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, role: true },
+  });
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+  return user;
+}
+
+/**
+ * Hand a matter to another attorney (or claim an unowned one). The new owner
+ * no longer needs a separate assignment.
+ */
+export async function setMatterOwner(matterId: number, userId: number) {
+  const user = await requireMatterOwner(matterId);
+  const newOwner = await getTeamMember(userId);
+  if (newOwner.role !== "attorney") {
+    throw new Error("Only attorneys can own matters");
+  }
+
+  saveMatterRecordChange(matterId, { kind: "team", userId: user.id }, (tx) => {
+    tx.update(matters)
+      .set({ ownerId: userId, updatedAt: new Date() })
+      .where(eq(matters.id, matterId))
+      .run();
+    tx.delete(matterAssignments)
+      .where(
+        and(
+          eq(matterAssignments.matterId, matterId),
+          eq(matterAssignments.userId, userId)
+        )
+      )
+      .run();
+  });
+
+  console.log(`[Server Action] Matter ${matterId} now owned by user ${userId}`);
+
+  revalidatePath("/");
+  revalidatePath(`/matters/${matterId}`);
+}
+
+/**
+ * Give a paralegal (or anyone else on staff) access to work on the matter
+ */
+export async function assignUserToMatter(matterId: number, userId: number) {
+  const user = await requireMatterOwner(matterId);
+  await getTeamMember(userId);
+
+  saveMatterRecordChange(matterId, { kind: "team", userId: user.id }, (tx) =>
+    tx
+      .insert(matterAssignments)
+      .values({ matterId, userId })
+      .onConflictDoNothing()
+      .run()
+  );
+
+  revalidatePath(`/matters/${matterId}`);
+}
+
+export async function unassignUserFromMatter(matterId: number, userId: number) {
+  const user = await requireMatterOwner(matterId);
+  const matter = await db.query.matters.findFirst({
+    where: eq(matters.id, matterId),
+    columns: { ownerId: true, createdById: true },
+  });
+  // The creator's assignment is the only way into a matter nobody owns yet
+  if (matter?.ownerId === null && matter.createdById === userId) {
+    throw new Error(
+      "The matter's creator stays on it until an attorney owns it"
+    );
+  }
+
+  saveMatterRecordChange(matterId, { kind: "team", userId: user.id }, (tx) =>
+    tx
+      .delete(matterAssignments)
+      .where(
+        and(
+          eq(matterAssignments.matterId, matterId),
+          eq(matterAssignments.userId, userId)
+        )
+      )
+      .run()
+  );
+
+  revalidatePath(`/matters/${matterId}`);
+}
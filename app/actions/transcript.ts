@@ -1,30 +1,56 @@
 "use server";
 
-import { processTranscript } from "@/lib/ai/processor";
-import { db } from "@/db";
-import { intakeFormData, matters, transcripts, turns } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import {
+  intakeFormData,
+  matters,
+  processingJobs,
+  transcripts,
+} from "@/db/schema";
+import type { ProcessingJobMode } from "@/db/types";
+import type { ChunkExtraction } from "@/lib/ai/specialized-extractor";
 import type { Transcript } from "@/lib/ai/types";
+import {
+  accessibleMatters,
+  assignNewMatter,
+  requireMatterAccess,
+} from "@/lib/auth/access";
+import { requirePermission } from "@/lib/auth/session";
+import {
+  applyFields,
+  diffSnapshots,
+  markExtractedFields,
+} from "@/lib/intake/fields";
+import { enqueueTranscriptJob } from "@/lib/jobs/queue";
+import { saveMatterRevision } from "@/lib/matters/revisions";
+import {
+  extractionToSnapshot,
+  loadMatterSnapshot,
+} from "@/lib/matters/snapshot";
+import { advanceMatterStatus } from "@/lib/matters/status";
+import { storeTranscript } from "@/lib/transcripts/store";
 
 /**
- * Process a transcript and create a new matter with extracted data
+ * Create a new matter from a transcript and queue it for background extraction.
+ * Returns as soon as the transcript is stored; the worker fills in the matter.
  */
-export async function processTranscriptAndCreateMatter(
+export async function queueTranscriptAndCreateMatter(
   matterName: string,
-  transcript: Transcript
+  transcript: Transcript,
 ) {
+  const user = await requirePermission("matter:create");
   console.log(
-    `\n[Server Action] Processing transcript for matter: "${matterName}"`
+    `\n[Server Action] Queueing transcript for matter: "${matterName}"`,
   );
 
   try {
-    // STEP 1: Create a temporary matter to get an ID (we'll update it later)
-    console.log(`\n[Server Action] Creating temporary matter...`);
-    const [tempIntakeForm] = await db
+    // STEP 1: Create the matter with an empty intake form (the worker fills it in)
+    const [newIntakeForm] = await db
       .insert(intakeFormData)
       .values({
-        caseType: "mva", // temporary default
+        caseType: "mva", // temporary default until extraction completes
         liability: {
           atFault: "unclear",
           rationale: "",
@@ -40,115 +66,250 @@ export async function processTranscriptAndCreateMatter(
       })
       .returning();
 
-    const [tempMatter] = await db
+    const [newMatter] = await db
       .insert(matters)
       .values({
         name: matterName,
-        intakeFormDataId: tempIntakeForm.id,
+        intakeFormDataId: newIntakeForm.id,
         citations: null,
       })
       .returning();
+    await assignNewMatter(newMatter.id, user);
 
-    console.log(`[Server Action] Created temporary matter with ID: ${tempMatter.id}`);
+    console.log(`[Server Action] Created matter with ID: ${newMatter.id}`);
 
-    // STEP 2: Store transcript and create turns (NOW we have matter.id)
-    console.log(`[Server Action] Storing transcript...`);
-    const [newTranscript] = await db
-      .insert(transcripts)
-      .values({
-        matterId: tempMatter.id,
-        content: transcript,
-      })
-      .returning();
+    // STEP 2: Store transcript and create turns so citations can reference turn IDs
+    const newTranscript = await storeTranscript(newMatter.id, transcript);
 
-    console.log(
-      `[Server Action] Created transcript with ID: ${newTranscript.id}`
-    );
+    // STEP 3: Hand off to the background worker
+    const job = await enqueueTranscriptJob(newMatter.id, newTranscript.id);
 
-    // Create turn records for each segment
-    console.log(
-      `[Server Action] Creating ${transcript.segments.length} turn records...`
-    );
-    const turnRecords = transcript.segments.map((segment, index) => ({
-      transcriptId: newTranscript.id,
-      turnIndex: index,
-      speaker: segment.speaker,
-      content: segment.content,
-    }));
+    revalidatePath("/");
+    return { success: true, matterId: newMatter.id, jobId: job.id };
+  } catch (error) {
+    console.error(`[Server Action] ✗ Failed to queue transcript:`, error);
+    throw error;
+  }
+}
 
-    const createdTurns = await db.insert(turns).values(turnRecords).returning();
+/**
+ * Get the latest processing job for a matter (polled by the matter page)
+ */
+export async function getMatterProcessingStatus(matterId: number) {
+  await requireMatterAccess(matterId);
+  const job = await db.query.processingJobs.findFirst({
+    where: eq(processingJobs.matterId, matterId),
+    orderBy: [desc(processingJobs.createdAt), desc(processingJobs.id)],
+    columns: {
+      id: true,
+      status: true,
+      totalChunks: true,
+      completedChunks: true,
+      error: true,
+      createdAt: true,
+      finishedAt: true,
+    },
+  });
 
-    console.log(
-      `[Server Action] ✓ Created ${createdTurns.length} turn records`
-    );
+  return job ?? null;
+}
 
-    // STEP 3: NOW process transcript with AI (turns exist, so we can track citations)
-    console.log(`\n[Server Action] Processing transcript with turn citation tracking...`);
-
-    // Map created turns to segments with turn IDs
-    const segmentsWithTurnIds = createdTurns.map((turn) => ({
-      turnId: turn.id,
-      turnIndex: turn.turnIndex,
-      speaker: turn.speaker,
-      content: turn.content,
-    }));
-
-    const extracted = await processTranscript(transcript, segmentsWithTurnIds);
-
-    console.log(`\n[Server Action] Updating matter with extracted data...`);
-
-    // Update intake form data with extracted information
-    await db
-      .update(intakeFormData)
-      .set({
-        caseType: extracted.clientInfo.caseType,
-        liability: extracted.liability,
-        damages: extracted.damages,
-        coverage: extracted.coverage,
-      })
-      .where(eq(intakeFormData.id, tempIntakeForm.id));
-
-    // Collect all citations from all sections
-    const allCitations = {
-      clientInfo: extracted.clientInfo.citations || [],
-      liability: extracted.liability.citations || [],
-      damages: extracted.damages.citations || [],
-      coverage: extracted.coverage.citations || [],
-    };
-
-    console.log(`[Server Action] Citations collected:`);
-    console.log(`  - Client Info: ${allCitations.clientInfo.length}`);
-    console.log(`  - Liability: ${allCitations.liability.length}`);
-    console.log(`  - Damages: ${allCitations.damages.length}`);
-    console.log(`  - Coverage: ${allCitations.coverage.length}`);
-
-    const payload = {
-      clientName: extracted.clientInfo.clientName,
-      clientDob: extracted.clientInfo.clientDob,
-      clientPhone: extracted.clientInfo.clientPhone,
-      clientEmail: extracted.clientInfo.clientEmail,
-      clientAddress: extracted.clientInfo.clientAddress,
-      incidentDate: extracted.clientInfo.incidentDate,
-      incidentLocation: extracted.clientInfo.incidentLocation,
-      brief: extracted.clientInfo.brief,
-      citations: allCitations,
-    }
-    console.log("payload", payload)
-    // Update matter with extracted client info
-    await db
-      .update(matters)
-      .set(payload)
-      .where(eq(matters.id, tempMatter.id));
-
-    console.log(`[Server Action] ✓ Updated matter with extracted data`);
-    console.log(
-      `[Server Action] ✓ Successfully created matter from transcript\n`
-    );
+/**
+ * Queue a failed matter's transcript for another extraction attempt
+ * (in the same mode as the job that failed)
+ */
+export async function retryMatterProcessing(matterId: number) {
+  await requireMatterAccess(matterId, "transcript:upload");
+  const lastJob = await db.query.processingJobs.findFirst({
+    where: eq(processingJobs.matterId, matterId),
+    orderBy: [desc(processingJobs.createdAt), desc(processingJobs.id)],
+    columns: { transcriptId: true, mode: true },
+  });
 
-    revalidatePath("/");
-    return { success: true, matterId: tempMatter.id };
-  } catch (error) {
-    console.error(`[Server Action] ✗ Failed to process transcript:`, error);
-    throw error;
+  if (!lastJob) {
+    throw new Error(`Matter ${matterId} has no transcript to process`);
+  }
+
+  const job = await enqueueTranscriptJob(
+    matterId,
+    lastJob.transcriptId,
+    lastJob.mode as ProcessingJobMode,
+  );
+
+  revalidatePath(`/matters/${matterId}`);
+  return { success: true, jobId: job.id };
+}
+
+/**
+ * Add a transcript (a first call, follow-up, family member...) to an existing
+ * matter and queue a preview extraction across all of its transcripts so the
+ * lawyer can choose which AI values to accept.
+ */
+export async function uploadTranscriptForMatter(
+  matterId: number,
+  transcript: Transcript,
+  label?: string,
+) {
+  await requireMatterAccess(matterId, "transcript:upload");
+  const newTranscript = await storeTranscript(matterId, transcript, label);
+  const job = await enqueueTranscriptJob(matterId, newTranscript.id, "preview");
+
+  revalidatePath(`/matters/${matterId}`);
+  return { success: true, jobId: job.id };
+}
+
+/**
+ * Re-run extraction across a matter's transcripts without touching its data.
+ * The result is held for field-level review (see getExtractionPreview).
+ */
+export async function rerunExtraction(matterId: number) {
+  await requireMatterAccess(matterId, "transcript:upload");
+  const transcript = await db.query.transcripts.findFirst({
+    where: eq(transcripts.matterId, matterId),
+    orderBy: [desc(transcripts.uploadedAt), desc(transcripts.id)],
+    columns: { id: true },
+  });
+
+  if (!transcript) {
+    throw new Error(`Matter ${matterId} has no transcript to process`);
+  }
+
+  const job = await enqueueTranscriptJob(matterId, transcript.id, "preview");
+
+  revalidatePath(`/matters/${matterId}`);
+  return { success: true, jobId: job.id };
+}
+
+/**
+ * A preview job waiting to be applied or discarded, on a matter the signed-in
+ * user may edit. Jobs on other matters are reported the same as missing ones,
+ * so job IDs can't be probed.
+ */
+async function getUnresolvedPreviewJob(jobId: number) {
+  const user = await requirePermission("matter:edit");
+  const job = await db.query.processingJobs.findFirst({
+    where: and(
+      eq(processingJobs.id, jobId),
+      eq(processingJobs.mode, "preview"),
+      eq(processingJobs.status, "succeeded"),
+      isNull(processingJobs.resolvedAt),
+      inArray(
+        processingJobs.matterId,
+        db
+          .select({ id: matters.id })
+          .from(matters)
+          .where(accessibleMatters(user.id)),
+      ),
+    ),
+  });
+
+  if (!job || !job.result) {
+    throw new Error(`No pending extraction preview for job ${jobId}`);
+  }
+
+  return { job, user };
+}
+
+/**
+ * Get the latest unreviewed preview extraction for a matter, as a field-level
+ * diff of AI values versus the matter's current values.
+ */
+export async function getExtractionPreview(matterId: number) {
+  await requireMatterAccess(matterId);
+  const job = await db.query.processingJobs.findFirst({
+    where: and(
+      eq(processingJobs.matterId, matterId),
+      eq(processingJobs.mode, "preview"),
+      eq(processingJobs.status, "succeeded"),
+      isNull(processingJobs.resolvedAt),
+    ),
+    orderBy: [desc(processingJobs.createdAt), desc(processingJobs.id)],
+  });
+
+  if (!job || !job.result) {
+    return null;
+  }
+
+  const current = await loadMatterSnapshot(matterId);
+  if (!current) {
+    return null;
+  }
+
+  const proposed = extractionToSnapshot(job.result as ChunkExtraction);
+  return {
+    jobId: job.id,
+    finishedAt: job.finishedAt,
+    changes: diffSnapshots(current.snapshot, proposed),
+    fieldSources: current.fieldSources,
+  };
+}
+
+/**
+ * Apply the accepted fields of a preview extraction; everything else is left
+ * as-is. Only fields the preview actually changes can be accepted.
+ */
+export async function applyExtractionPreview(
+  jobId: number,
+  acceptedFields: string[],
+) {
+  const { job, user } = await getUnresolvedPreviewJob(jobId);
+
+  const current = await loadMatterSnapshot(job.matterId);
+  if (!current) {
+    throw new Error(`Matter ${job.matterId} no longer exists`);
+  }
+
+  const extracted = job.result as ChunkExtraction;
+  const proposed = extractionToSnapshot(extracted);
+  const changedKeys = new Set(
+    diffSnapshots(current.snapshot, proposed).map((change) => change.key),
+  );
+  const fields = Array.from(new Set(acceptedFields)).filter((key) =>
+    changedKeys.has(key),
+  );
+
+  if (fields.length > 0) {
+    await saveMatterRevision(
+      job.matterId,
+      current,
+      {
+        snapshot: applyFields(current.snapshot, proposed, fields),
+        fieldSources: markExtractedFields(
+          current.fieldSources,
+          fields,
+          job.id,
+          extracted.confidence,
+        ),
+      },
+      { kind: "extraction", userId: user.id, jobId: job.id },
+    );
+    await advanceMatterStatus(job.matterId, "extraction_applied");
   }
+
+  await db
+    .update(processingJobs)
+    .set({ resolvedAt: new Date() })
+    .where(eq(processingJobs.id, job.id));
+
+  console.log(
+    `[Server Action] Applied ${fields.length} field(s) from extraction preview ${job.id}`,
+  );
+
+  revalidatePath(`/matters/${job.matterId}`);
+  return { success: true };
+}
+
+/**
+ * Reject an entire preview extraction
+ */
+export async function discardExtractionPreview(jobId: number) {
+  const { job } = await getUnresolvedPreviewJob(jobId);
+
+  await db
+    .update(processingJobs)
+    .set({ resolvedAt: new Date() })
+    .where(eq(processingJobs.id, job.id));
+
+  revalidatePath(`/matters/${job.matterId}`);
+  return { success: true };
 }
@@ -3,30 +3,53 @@
 import { db } from "@/db";
 import { transcripts, turns } from "@/db/schema";
 import { eq } from "drizzle-orm";
-import type { Transcript } from "@/lib/ai/types";
+import { revalidatePath } from "next/cache";
+import type { Transcript, TranscriptSpeaker } from "@/lib/ai/types";
+import { requireMatterAccess } from "@/lib/auth/access";
+import { listSpeakers, SPEAKER_ROLES } from "@/lib/transcripts/speakers";
 
 /**
- * Get transcript for a matter
+ * Get every transcript for a matter (oldest first) with its turns
  */
-export async function getTranscriptByMatterId(
-  matterId: number
-): Promise<Transcript | null> {
-  const transcript = await db.query.transcripts.findFirst({
+export async function getTranscriptsByMatterId(matterId: number) {
+  await requireMatterAccess(matterId);
+  const matterTranscripts = await db.query.transcripts.findMany({
     where: eq(transcripts.matterId, matterId),
+    orderBy: (transcripts, { asc }) => [
+      asc(transcripts.uploadedAt),
+      asc(transcripts.id),
+    ],
+    with: {
+      turns: {
+        orderBy: (turns, { asc }) => [asc(turns.turnIndex)],
+      },
+    },
   });
 
-  if (!transcript) {
-    return null;
-  }
-
-  // Return the stored JSON transcript
-  return transcript.content as Transcript;
+  return matterTranscripts.map((transcript) => ({
+    id: transcript.id,
+    label: transcript.label,
+    uploadedAt: transcript.uploadedAt,
+    // Return the stored JSON transcript
+    content: transcript.content as Transcript,
+    turns: transcript.turns,
+  }));
 }
 
 /**
  * Get turns for a transcript (with turn IDs)
  */
 export async function getTurnsByTranscriptId(transcriptId: number) {
+  const transcript = await db.query.transcripts.findFirst({
+    where: eq(transcripts.id, transcriptId),
+    columns: { matterId: true },
+  });
+
+  if (!transcript) {
+    throw new Error(`Transcript ${transcriptId} not found`);
+  }
+
+  await requireMatterAccess(transcript.matterId);
   return await db.query.turns.findMany({
     where: eq(turns.transcriptId, transcriptId),
     orderBy: (turns, { asc }) => [asc(turns.turnIndex)],
@@ -34,14 +57,47 @@ export async function getTurnsByTranscriptId(transcriptId: number) {
 }
 
 /**
- * Get transcript metadata
+ * Save lawyer corrections to a transcript's speaker names and roles.
+ * Takes effect the next time extraction runs.
  */
-export async function getTranscriptMetadata(matterId: number) {
-  return await db.query.transcripts.findFirst({
-    where: eq(transcripts.matterId, matterId),
-    columns: {
-      id: true,
-      uploadedAt: true,
-    },
+export async function updateTranscriptSpeakers(
+  transcriptId: number,
+  speakers: TranscriptSpeaker[]
+) {
+  const transcript = await db.query.transcripts.findFirst({
+    where: eq(transcripts.id, transcriptId),
   });
+
+  if (!transcript) {
+    throw new Error(`Transcript ${transcriptId} not found`);
+  }
+
+  await requireMatterAccess(transcript.matterId, "matter:edit");
+  const content = transcript.content as Transcript;
+  const known = new Set(listSpeakers(content));
+
+  const cleaned = speakers
+    .filter((s) => known.has(s.speaker))
+    .map((s) => {
+      if (s.role && !SPEAKER_ROLES.includes(s.role)) {
+        throw new Error(`Unknown speaker role: ${s.role}`);
+      }
+      const name = s.name?.trim();
+      return {
+        speaker: s.speaker,
+        ...(name && { name }),
+        ...(s.role && { role: s.role }),
+      };
+    });
+
+  await db
+    .update(transcripts)
+    .set({ content: { ...content, speakers: cleaned } })
+    .where(eq(transcripts.id, transcriptId));
+
+  console.log(
+    `[Server Action] Updated ${cleaned.length} speaker(s) on transcript ${transcriptId}`
+  );
+
+  revalidatePath("/matters/[id]");
 }
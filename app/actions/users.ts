@@ -1,29 +1,128 @@
 "use server";
 
-import { db } from "@/db";
-import { users } from "@/db/schema";
 import { eq } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
+import { db } from "@/db";
+import {
+  matterAssignments,
+  matterRevisions,
+  matters,
+  sessions,
+  users,
+} from "@/db/schema";
+import type { UserRole } from "@/db/types";
+import { checkPasswordStrength, hashPassword } from "@/lib/auth/password";
+import { isUserRole } from "@/lib/auth/permissions";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 
 export async function getUsers() {
-  return await db.select().from(users);
+  await requireUser();
+  const rows = await db
+    .select({
+      id: users.id,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      email: users.email,
+      role: users.role,
+    })
+    .from(users)
+    .orderBy(users.lastName, users.firstName);
+
+  return rows.map((row) => ({ ...row, role: row.role as UserRole }));
 }
 
 export async function createUser(formData: FormData) {
-  const firstName = formData.get("firstName") as string;
-  const lastName = formData.get("lastName") as string;
-  const email = formData.get("email") as string;
+  await requirePermission("users:manage");
+
+  const firstName = (formData.get("firstName") as string).trim();
+  const lastName = (formData.get("lastName") as string).trim();
+  const email = (formData.get("email") as string).trim().toLowerCase();
+  const password = formData.get("password") as string;
+  const role = formData.get("role");
+
+  if (!isUserRole(role)) {
+    throw new Error(`Unknown role "${role}"`);
+  }
+
+  const problem = checkPasswordStrength(password);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const existing = await db.query.users.findFirst({
+    where: eq(users.email, email),
+    columns: { id: true },
+  });
+  if (existing) {
+    throw new Error(`A user with email ${email} already exists`);
+  }
 
   await db.insert(users).values({
     firstName,
     lastName,
     email,
+    role,
+    passwordHash: await hashPassword(password),
   });
 
-  revalidatePath("/");
+  revalidatePath("/users");
+}
+
+/**
+ * Change what a user may do. Takes effect on their next request.
+ */
+export async function updateUserRole(id: number, role: UserRole) {
+  const currentUser = await requirePermission("users:manage");
+  if (!isUserRole(role)) {
+    throw new Error(`Unknown role "${role}"`);
+  }
+  if (currentUser.id === id && role !== "admin") {
+    throw new Error("You can't remove your own admin role");
+  }
+
+  if (role !== "attorney") {
+    const ownsMatter = await db.query.matters.findFirst({
+      where: eq(matters.ownerId, id),
+      columns: { id: true },
+    });
+    if (ownsMatter) {
+      throw new Error(
+        "This user owns matters; hand them to another attorney first",
+      );
+    }
+  }
+
+  await db.update(users).set({ role }).where(eq(users.id, id));
+
+  console.log(`[Server Action] User ${id} is now ${role}`);
+
+  revalidatePath("/users");
 }
 
+/**
+ * Remove a user who has no matters or history. Users who own matters or made
+ * edits are kept so the record of who did what stays intact.
+ */
 export async function deleteUser(id: number) {
+  const currentUser = await requirePermission("users:manage");
+  if (currentUser.id === id) {
+    throw new Error("You can't delete your own account");
+  }
+
+  const ownsMatter = await db.query.matters.findFirst({
+    where: eq(matters.ownerId, id),
+    columns: { id: true },
+  });
+  const hasRevisions = await db.query.matterRevisions.findFirst({
+    where: eq(matterRevisions.userId, id),
+    columns: { id: true },
+  });
+  if (ownsMatter || hasRevisions) {
+    throw new Error("Users who own or have edited matters can't be deleted");
+  }
+
+  await db.delete(matterAssignments).where(eq(matterAssignments.userId, id));
+  await db.delete(sessions).where(eq(sessions.userId, id));
   await db.delete(users).where(eq(users.id, id));
-  revalidatePath("/");
+  revalidatePath("/users");
 }
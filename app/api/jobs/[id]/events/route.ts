@@ -0,0 +1,109 @@
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { processingJobs } from "@/db/schema";
+import { canAccessMatter } from "@/lib/auth/access";
+import { getCurrentUser } from "@/lib/auth/session";
+import {
+  getJobEvents,
+  isTerminalJobEvent,
+  type JobEvent,
+  subscribeToJobEvents,
+} from "@/lib/jobs/events";
+
+export const dynamic = "force-dynamic";
+
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream of a processing job's progress.
+ * Replays recorded events first, then forwards live ones until the job finishes.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const jobId = Number(id);
+
+  const user = await getCurrentUser();
+  if (!user) {
+    return new Response("Not signed in", { status: 401 });
+  }
+
+  const job = await db.query.processingJobs.findFirst({
+    where: eq(processingJobs.id, jobId),
+    columns: { id: true, matterId: true },
+  });
+
+  if (!job || !(await canAccessMatter(user.id, job.matterId))) {
+    return new Response("Job not found", { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  let closed = false; // Set once the stream is closed or the client cancels it
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastSeq = -1;
+      let replaying = true;
+      const pending: JobEvent[] = [];
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      const send = (event: JobEvent) => {
+        if (closed || event.seq <= lastSeq) return;
+        lastSeq = event.seq;
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(event)}\n\n`),
+        );
+        if (isTerminalJobEvent(event)) {
+          close();
+        }
+      };
+
+      // Subscribe before replaying so nothing published in between is lost
+      const unsubscribe = subscribeToJobEvents(jobId, (event) => {
+        if (replaying) {
+          pending.push(event);
+        } else {
+          send(event);
+        }
+      });
+      const keepalive = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": keepalive\n\n"));
+      }, KEEPALIVE_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(keepalive);
+      };
+      request.signal.addEventListener("abort", close);
+
+      for (const event of await getJobEvents(jobId)) {
+        send(event);
+      }
+      replaying = false;
+      for (const event of pending.sort((a, b) => a.seq - b.seq)) {
+        send(event);
+      }
+    },
+    cancel() {
+      closed = true;
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,98 @@
+import { getCurrentUser, requirePermission } from "@/lib/auth/session";
+import {
+  audioTooLargeMessage,
+  getTranscriptionProvider,
+  type TranscriptionProvider,
+  transcribeAudio,
+} from "@/lib/transcription";
+import { TRANSCRIPTION_CONFIG } from "@/lib/transcription/config";
+import { isAudioFile } from "@/lib/transcripts/files";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 1800; // Long calls can take a while to transcribe
+
+/**
+ * Transcribe and diarize an uploaded call recording.
+ * Accepts multipart form data with a `file` field; responds with `{ transcript }`
+ * in the same shape as an uploaded JSON transcript.
+ */
+export async function POST(request: Request) {
+  try {
+    await requirePermission("transcript:upload");
+  } catch (error) {
+    const signedIn = Boolean(await getCurrentUser());
+    return Response.json(
+      { error: error instanceof Error ? error.message : "Not allowed" },
+      { status: signedIn ? 403 : 401 },
+    );
+  }
+
+  // The limit depends on the provider: the OpenAI API takes far less than a local model
+  let provider: TranscriptionProvider;
+  try {
+    provider = getTranscriptionProvider();
+  } catch (error) {
+    console.error(`[Transcription] ✗ No transcription provider:`, error);
+    return Response.json(
+      {
+        error: error instanceof Error ? error.message : "Transcription failed",
+      },
+      { status: 500 },
+    );
+  }
+
+  // Turn oversized uploads away before the whole body is read into memory
+  const contentLength = Number(request.headers.get("content-length"));
+  if (
+    contentLength >
+    provider.maxAudioBytes + TRANSCRIPTION_CONFIG.UPLOAD_OVERHEAD_BYTES
+  ) {
+    return Response.json(
+      { error: audioTooLargeMessage(provider) },
+      { status: 413 },
+    );
+  }
+
+  const formData = await request.formData();
+  const file = formData.get("file");
+
+  if (!(file instanceof File)) {
+    return Response.json({ error: "No audio file provided" }, { status: 400 });
+  }
+
+  if (!isAudioFile(file)) {
+    return Response.json(
+      { error: `Unsupported file type: ${file.type || file.name}` },
+      { status: 415 },
+    );
+  }
+
+  // Uploads sent without a length are only checked once read
+  if (file.size > provider.maxAudioBytes) {
+    return Response.json(
+      { error: audioTooLargeMessage(provider) },
+      { status: 413 },
+    );
+  }
+
+  try {
+    const transcript = await transcribeAudio(
+      {
+        data: new Uint8Array(await file.arrayBuffer()),
+        fileName: file.name,
+        mediaType: file.type,
+      },
+      provider,
+    );
+
+    return Response.json({ transcript });
+  } catch (error) {
+    console.error(`[Transcription] ✗ Failed to transcribe audio:`, error);
+    return Response.json(
+      {
+        error: error instanceof Error ? error.message : "Transcription failed",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import Link from "next/link";
+import { getCaseTypes } from "@/app/actions/case-types";
+import { CaseTypeList } from "@/components/case-type-list";
+import { hasPermission } from "@/lib/auth/permissions";
+import { requirePageUser } from "@/lib/auth/session";
+
+export default async function CaseTypesPage() {
+  const user = await requirePageUser();
+  const caseTypes = await getCaseTypes();
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      <div className="mb-6">
+        <Link
+          href="/"
+          className="text-xs text-muted-foreground hover:text-gray-900"
+        >
+          ← Matters
+        </Link>
+        <h1 className="text-2xl font-semibold mt-1">Case Types</h1>
+        <p className="text-sm text-muted-foreground">
+          The case types extraction chooses from, the extra fields it pulls out
+          for each and how their matters are scored. Field changes apply to the
+          next extraction run; scoring changes apply straight away.
+        </p>
+      </div>
+      <CaseTypeList
+        caseTypes={caseTypes}
+        canManage={hasPermission(user.role, "caseTypes:manage")}
+      />
+    </div>
+  );
+}
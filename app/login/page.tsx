@@ -0,0 +1,25 @@
+import { redirect } from "next/navigation";
+import { LoginForm } from "@/components/login-form";
+import { getCurrentUser } from "@/lib/auth/session";
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  const { next } = await searchParams;
+
+  if (await getCurrentUser()) {
+    redirect("/");
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-sm mt-24">
+      <h1 className="text-2xl font-semibold mb-1">Sign in</h1>
+      <p className="text-sm text-muted-foreground mb-6">
+        Use the email and password your firm set up for you.
+      </p>
+      <LoginForm next={next} />
+    </div>
+  );
+}
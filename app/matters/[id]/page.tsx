@@ -1,8 +1,35 @@
-import { getMatter } from "@/app/actions/matters";
-import { getTranscriptByMatterId, getTranscriptMetadata, getTurnsByTranscriptId } from "@/app/actions/transcripts";
+import { notFound } from "next/navigation";
+import { getCaseTypes } from "@/app/actions/case-types";
+import { getMatterDecisions } from "@/app/actions/decisions";
+import {
+  getMatter,
+  getMatterReviewChecklist,
+  getMatterRevisions,
+  getMatterTeam,
+} from "@/app/actions/matters";
+import { getExtractionPreview } from "@/app/actions/transcript";
+import { getTranscriptsByMatterId } from "@/app/actions/transcripts";
+import { getUsers } from "@/app/actions/users";
+import { ExtractionPreviewDialog } from "@/components/extraction-preview-dialog";
+import { MatterDecisionPanel } from "@/components/matter-decision-panel";
+import { MatterExtractionActions } from "@/components/matter-extraction-actions";
+import { MatterHistoryPanel } from "@/components/matter-history-panel";
 import { MatterPageClient } from "@/components/matter-page-client";
 import { MatterPageContent } from "@/components/matter-page-content";
-import { notFound } from "next/navigation";
+import { MatterScoreCard } from "@/components/matter-score-card";
+import { MatterTeamPanel } from "@/components/matter-team-panel";
+import { ProcessingStatusBanner } from "@/components/processing-status-banner";
+import { ReviewChecklist } from "@/components/review-checklist";
+import type {
+  Coverage,
+  Damages,
+  Liability,
+  MatterStatus,
+  ProcessingStatus,
+} from "@/db/types";
+import { hasPermission } from "@/lib/auth/permissions";
+import { requirePageUser } from "@/lib/auth/session";
+import { scoreMatter } from "@/lib/intake/scoring";
 
 export default async function MatterPage({
   params,
@@ -10,20 +37,106 @@ export default async function MatterPage({
   params: Promise<{ id: string }>;
 }) {
   const { id } = await params;
+  const user = await requirePageUser();
   const matter = await getMatter(Number(id));
 
   if (!matter || !matter.intakeFormData) {
     notFound();
   }
 
-  // Fetch transcript and turns if available
-  const transcript = await getTranscriptByMatterId(Number(id));
-  const transcriptMeta = await getTranscriptMetadata(Number(id));
-  const turns = transcriptMeta ? await getTurnsByTranscriptId(transcriptMeta.id) : null;
+  // Fetch transcripts (with turns) if available
+  const transcripts = await getTranscriptsByMatterId(Number(id));
+  const revisions = await getMatterRevisions(matter.id);
+  const review = await getMatterReviewChecklist(matter.id);
+  const caseTypes = await getCaseTypes();
+  const team = await getMatterTeam(matter.id);
+  const users = await getUsers();
+  const decisions = await getMatterDecisions(matter.id);
+  const canEdit = hasPermission(user.role, "matter:edit");
+  const canUpload = hasPermission(user.role, "transcript:upload");
+  const canDecide = hasPermission(user.role, "matter:decide");
+  const score = scoreMatter(
+    {
+      caseType: matter.intakeFormData.caseType,
+      incidentDate: matter.incidentDate,
+      liability: matter.intakeFormData.liability as Liability,
+      damages: matter.intakeFormData.damages as Damages,
+      coverage: matter.intakeFormData.coverage as Coverage,
+    },
+    caseTypes,
+  );
+
+  const processingStatus = matter.processingStatus as ProcessingStatus | null;
+  const isProcessing =
+    processingStatus === "queued" || processingStatus === "running";
+  const extractionPreview =
+    isProcessing || !canEdit ? null : await getExtractionPreview(matter.id);
 
   return (
-    <MatterPageClient matter={matter}>
-      <MatterPageContent matter={matter} transcript={transcript} turns={turns} />
+    <MatterPageClient
+      matter={matter}
+      actions={
+        canUpload && (
+          <MatterExtractionActions
+            matterId={matter.id}
+            transcriptCount={transcripts.length}
+            isProcessing={isProcessing}
+          />
+        )
+      }
+    >
+      <MatterTeamPanel
+        matterId={matter.id}
+        currentUserId={user.id}
+        canManage={team.canManage}
+        owner={team.owner}
+        assignees={team.assignees}
+        users={users}
+      />
+      <MatterDecisionPanel
+        matterId={matter.id}
+        status={matter.status as MatterStatus}
+        decisions={decisions}
+        isReviewed={review.reviewedAt !== null}
+        canDecide={canDecide}
+        canEdit={canEdit}
+      />
+      <MatterScoreCard score={score} />
+      {processingStatus && processingStatus !== "succeeded" && (
+        <ProcessingStatusBanner
+          matterId={matter.id}
+          initialStatus={processingStatus}
+          canRetry={canUpload}
+        />
+      )}
+      {extractionPreview && (
+        <ExtractionPreviewDialog
+          key={extractionPreview.jobId}
+          jobId={extractionPreview.jobId}
+          changes={extractionPreview.changes}
+          fieldSources={extractionPreview.fieldSources}
+        />
+      )}
+      {!isProcessing && (
+        <ReviewChecklist
+          matterId={matter.id}
+          items={review.items}
+          conflicts={review.conflicts}
+          reviewedAt={review.reviewedAt}
+          canEdit={canEdit}
+        />
+      )}
+      {/* Remount when processing finishes or a version is restored so the form picks up the new values */}
+      <MatterPageContent
+        key={`${processingStatus ?? "manual"}-${revisions[0]?.id ?? 0}`}
+        matter={matter}
+        transcripts={transcripts}
+        caseTypes={caseTypes}
+        canEdit={canEdit}
+      />
+      <div className="mt-4">
+        <MatterHistoryPanel revisions={revisions} canRestore={canEdit} />
+      </div>
     </MatterPageClient>
   );
 }
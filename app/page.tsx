@@ -1,21 +1,143 @@
 import { getMatters, deleteMatter } from "./actions/matters";
+import { signOut } from "./actions/auth";
 import { Button } from "@/components/ui/button";
 import { CreateMatterDialog } from "@/components/create-matter-dialog";
 import Link from "next/link";
+import { hasPermission, ROLE_LABELS } from "@/lib/auth/permissions";
+import { requirePageUser } from "@/lib/auth/session";
+import {
+  RECOMMENDATION_LABELS,
+  RECOMMENDATION_STYLES,
+} from "@/lib/intake/scoring";
+import {
+  isMatterStatus,
+  MATTER_STATUS_LABELS,
+  MATTER_STATUS_STYLES,
+  MATTER_STATUSES,
+} from "@/lib/matters/status";
 
-export default async function Home() {
-  const matters = await getMatters();
+// Pseudo-status for decided matters whose declination letter hasn't gone out
+const LETTER_DUE_FILTER = "letter_due";
+
+const SORT_OPTIONS = [
+  { value: undefined, label: "Date added" },
+  { value: "score", label: "Score" },
+];
+
+function matterListHref(status?: string, sort?: string) {
+  const params = new URLSearchParams({
+    ...(status && { status }),
+    ...(sort && { sort }),
+  });
+  return params.size > 0 ? `/?${params}` : "/";
+}
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string; sort?: string }>;
+}) {
+  const user = await requirePageUser();
+  const { status: filter, sort } = await searchParams;
+  const allMatters = await getMatters();
+  const matters = allMatters.filter((matter) =>
+    filter === LETTER_DUE_FILTER
+      ? matter.letterPending
+      : !isMatterStatus(filter) || matter.status === filter
+  );
+  const activeSort = sort === "score" ? sort : undefined;
+  if (activeSort === "score") {
+    // Most viable first
+    matters.sort((a, b) => b.score - a.score);
+  }
+
+  const filters = [
+    { value: undefined, label: "All", count: allMatters.length },
+    ...MATTER_STATUSES.map((status) => ({
+      value: status,
+      label: MATTER_STATUS_LABELS[status],
+      count: allMatters.filter((matter) => matter.status === status).length,
+    })),
+    {
+      value: LETTER_DUE_FILTER,
+      label: "Letter Due",
+      count: allMatters.filter((matter) => matter.letterPending).length,
+    },
+  ];
+  const activeFilter =
+    filter === LETTER_DUE_FILTER || isMatterStatus(filter) ? filter : undefined;
 
   return (
     <div className="container mx-auto p-6 max-w-6xl">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-semibold">Matters</h1>
-        <CreateMatterDialog />
+        <div className="flex items-center gap-2">
+          {hasPermission(user.role, "users:manage") && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/users">Users</Link>
+            </Button>
+          )}
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/case-types">Case types</Link>
+          </Button>
+          {hasPermission(user.role, "matter:create") && <CreateMatterDialog />}
+          <form action={signOut} className="flex items-center gap-2 ml-2">
+            <span className="text-xs text-muted-foreground">
+              {user.firstName} {user.lastName} · {ROLE_LABELS[user.role]}
+            </span>
+            <Button variant="ghost" size="sm" className="h-7 text-xs">
+              Sign out
+            </Button>
+          </form>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 mb-4">
+        {filters.map((option) => (
+          <Link
+            key={option.label}
+            href={matterListHref(option.value, activeSort)}
+            className={`px-2.5 py-1 rounded-md text-xs border transition-colors ${
+              option.value === activeFilter
+                ? "bg-gray-900 text-white border-gray-900"
+                : "hover:border-gray-400"
+            }`}
+          >
+            {option.label}{" "}
+            <span
+              className={
+                option.value === activeFilter
+                  ? "text-gray-300"
+                  : "text-muted-foreground"
+              }
+            >
+              {option.count}
+            </span>
+          </Link>
+        ))}
+        <span className="ml-auto mr-1 text-xs text-muted-foreground">
+          Sort by
+        </span>
+        {SORT_OPTIONS.map((option) => (
+          <Link
+            key={option.label}
+            href={matterListHref(activeFilter, option.value)}
+            className={`px-2.5 py-1 rounded-md text-xs border transition-colors ${
+              option.value === activeSort
+                ? "bg-gray-900 text-white border-gray-900"
+                : "hover:border-gray-400"
+            }`}
+          >
+            {option.label}
+          </Link>
+        ))}
       </div>
 
       {matters.length === 0 ? (
         <p className="text-sm text-muted-foreground">
-          No matters yet. Add one above.
+          {activeFilter
+            ? "No matters with this status."
+            : "No matters yet. Add one above."}
         </p>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
@@ -33,18 +155,46 @@ export default async function Home() {
                     {matter.name}
                   </h3>
                   <p className="text-xs text-muted-foreground mt-0.5">
+                    <span
+                      className={`mr-2 px-1.5 py-0.5 rounded text-[10px] font-medium ${MATTER_STATUS_STYLES[matter.status]}`}
+                    >
+                      {MATTER_STATUS_LABELS[matter.status]}
+                    </span>
+                    <span
+                      className={`mr-2 px-1.5 py-0.5 rounded text-[10px] font-medium ${RECOMMENDATION_STYLES[matter.recommendation]}`}
+                      title={`Viability score: ${RECOMMENDATION_LABELS[matter.recommendation]}`}
+                    >
+                      Score {matter.score}
+                    </span>
                     {new Date(matter.createdAt).toLocaleDateString()}
+                    {matter.status !== "processing" &&
+                      (matter.processingStatus === "queued" ||
+                        matter.processingStatus === "running") && (
+                        <span className="ml-2 text-blue-600">Processing…</span>
+                      )}
+                    {matter.processingStatus === "failed" && (
+                      <span className="ml-2 text-red-600">
+                        Processing failed
+                      </span>
+                    )}
+                    {matter.letterPending && (
+                      <span className="ml-2 text-orange-600">
+                        Declination letter due
+                      </span>
+                    )}
                   </p>
                 </Link>
-                <form action={deleteMatter.bind(null, matter.id)}>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-6 px-2 text-xs"
-                  >
-                    Delete
-                  </Button>
-                </form>
+                {hasPermission(user.role, "matter:delete") && (
+                  <form action={deleteMatter.bind(null, matter.id)}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                    >
+                      Delete
+                    </Button>
+                  </form>
+                )}
               </div>
             </div>
           ))}
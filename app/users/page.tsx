@@ -0,0 +1,34 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getUsers } from "@/app/actions/users";
+import { UserList } from "@/components/user-list";
+import { hasPermission } from "@/lib/auth/permissions";
+import { requirePageUser } from "@/lib/auth/session";
+
+export default async function UsersPage() {
+  const user = await requirePageUser();
+  if (!hasPermission(user.role, "users:manage")) {
+    redirect("/");
+  }
+
+  const users = await getUsers();
+
+  return (
+    <div className="container mx-auto p-6 max-w-4xl">
+      <div className="mb-6">
+        <Link
+          href="/"
+          className="text-xs text-muted-foreground hover:text-gray-900"
+        >
+          ← Matters
+        </Link>
+        <h1 className="text-2xl font-semibold mt-1">Users</h1>
+        <p className="text-sm text-muted-foreground">
+          Everyone who can sign in, and what their role lets them do. Role
+          changes apply on their next page load.
+        </p>
+      </div>
+      <UserList users={users} currentUserId={user.id} />
+    </div>
+  );
+}
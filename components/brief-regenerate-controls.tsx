@@ -0,0 +1,76 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { regenerateBrief } from "@/app/actions/matters";
+import { Button } from "@/components/ui/button";
+import {
+  BRIEF_STYLES,
+  type BriefStyle,
+  DEFAULT_BRIEF_STYLE,
+} from "@/lib/intake/brief";
+
+interface BriefRegenerateControlsProps {
+  matterId: number;
+  isEdited: boolean; // The current brief was written or changed by a lawyer
+}
+
+/**
+ * Rewrite the case brief from the whole matter record in a chosen style
+ */
+export function BriefRegenerateControls({
+  matterId,
+  isEdited,
+}: BriefRegenerateControlsProps) {
+  const router = useRouter();
+  const [style, setStyle] = useState<BriefStyle>(DEFAULT_BRIEF_STYLE);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleRegenerate = async () => {
+    if (
+      isEdited &&
+      !window.confirm(
+        "The brief was edited manually. Replace it with a new AI brief? Your version will be kept in the history.",
+      )
+    ) {
+      return;
+    }
+
+    setIsGenerating(true);
+    try {
+      await regenerateBrief(matterId, style, { overwriteEdited: isEdited });
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to regenerate brief:", error);
+      alert("Failed to regenerate the brief. Please try again.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={style}
+        onChange={(e) => setStyle(e.target.value as BriefStyle)}
+        disabled={isGenerating}
+        className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+      >
+        {Object.entries(BRIEF_STYLES).map(([value, { label }]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={handleRegenerate}
+        disabled={isGenerating}
+      >
+        {isGenerating ? "Generating..." : "Regenerate brief"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,357 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { deleteCaseType, saveCaseType } from "@/app/actions/case-types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type {
+  CaseTypeDefinition,
+  CaseTypeField,
+  CaseTypeFieldKind,
+  CaseTypeScoring,
+  ScoringFactor,
+} from "@/db/types";
+import {
+  getScoringRules,
+  SCORING_FACTOR_LABELS,
+  SCORING_FACTORS,
+} from "@/lib/intake/scoring";
+
+const FIELD_KINDS: Array<{ value: CaseTypeFieldKind; label: string }> = [
+  { value: "text", label: "Text" },
+  { value: "date", label: "Date" },
+  { value: "number", label: "Number" },
+  { value: "boolean", label: "Yes/No" },
+];
+
+interface CaseTypeEditorProps {
+  caseType?: CaseTypeDefinition; // Omitted when adding a new case type
+  nextSortOrder: number;
+  onClose: () => void;
+}
+
+/**
+ * Edit one entry of the case type registry: how the extractor recognises the
+ * case type, which extra fields it should pull out for it and how its matters
+ * are scored
+ */
+export function CaseTypeEditor({
+  caseType,
+  nextSortOrder,
+  onClose,
+}: CaseTypeEditorProps) {
+  const router = useRouter();
+  const [draft, setDraft] = useState<CaseTypeDefinition>(
+    caseType ?? {
+      id: "",
+      label: "",
+      promptHints: "",
+      fields: [],
+      scoring: null,
+      sortOrder: nextSortOrder,
+    },
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  // The rules in effect, whether the case type sets its own or not
+  const scoring = getScoringRules([draft], draft.id);
+
+  const updateScoring = (change: Partial<CaseTypeScoring>) => {
+    setDraft({ ...draft, scoring: { ...scoring, ...change } });
+  };
+
+  const updateWeight = (factor: ScoringFactor, weight: number) => {
+    updateScoring({ weights: { ...scoring.weights, [factor]: weight } });
+  };
+
+  const updateField = (index: number, change: Partial<CaseTypeField>) => {
+    setDraft({
+      ...draft,
+      fields: draft.fields.map((field, i) =>
+        i === index ? { ...field, ...change } : field,
+      ),
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveCaseType({
+        ...draft,
+        promptHints: draft.promptHints?.trim() || null,
+        fields: draft.fields.map((field) => ({
+          ...field,
+          description: field.description?.trim() || undefined,
+        })),
+      });
+      router.refresh();
+      onClose();
+    } catch (error) {
+      console.error("Failed to save case type:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to save case type",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !caseType ||
+      !window.confirm(`Delete the "${caseType.label}" case type?`)
+    ) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await deleteCaseType(caseType.id);
+      router.refresh();
+      onClose();
+    } catch (error) {
+      console.error("Failed to delete case type:", error);
+      alert(
+        error instanceof Error ? error.message : "Failed to delete case type",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border rounded-md bg-gray-50 p-4 space-y-3">
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <Label className="text-xs text-gray-600 mb-0.5">ID</Label>
+          <Input
+            value={draft.id}
+            onChange={(e) => setDraft({ ...draft, id: e.target.value })}
+            disabled={caseType !== undefined}
+            placeholder="e.g. boating_accident"
+            className="h-8 text-sm bg-white"
+          />
+        </div>
+        <div className="col-span-2">
+          <Label className="text-xs text-gray-600 mb-0.5">Label</Label>
+          <Input
+            value={draft.label}
+            onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+            placeholder="e.g. Boating Accident"
+            className="h-8 text-sm bg-white"
+          />
+        </div>
+      </div>
+
+      <div>
+        <Label className="text-xs text-gray-600 mb-0.5">
+          Prompt hints (how to recognise this case type in a call)
+        </Label>
+        <Textarea
+          value={draft.promptHints ?? ""}
+          onChange={(e) => setDraft({ ...draft, promptHints: e.target.value })}
+          className="min-h-[60px] text-sm bg-white"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs text-gray-600">Type-specific fields</Label>
+        {draft.fields.map((field, index) => (
+          <div
+            // biome-ignore lint/suspicious/noArrayIndexKey: keys are edited in place
+            key={index}
+            className="flex items-center gap-2"
+          >
+            <Input
+              value={field.key}
+              onChange={(e) => updateField(index, { key: e.target.value })}
+              placeholder="key"
+              className="h-7 w-36 text-xs bg-white"
+            />
+            <Input
+              value={field.label}
+              onChange={(e) => updateField(index, { label: e.target.value })}
+              placeholder="Label"
+              className="h-7 w-40 text-xs bg-white"
+            />
+            <select
+              value={field.kind}
+              onChange={(e) =>
+                updateField(index, {
+                  kind: e.target.value as CaseTypeFieldKind,
+                })
+              }
+              className="h-7 rounded-md border border-input bg-white px-2 text-xs"
+            >
+              {FIELD_KINDS.map((kind) => (
+                <option key={kind.value} value={kind.value}>
+                  {kind.label}
+                </option>
+              ))}
+            </select>
+            <Input
+              value={field.description ?? ""}
+              onChange={(e) =>
+                updateField(index, { description: e.target.value })
+              }
+              placeholder="What the extractor should look for (optional)"
+              className="h-7 flex-1 text-xs bg-white"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() =>
+                setDraft({
+                  ...draft,
+                  fields: draft.fields.filter((_, i) => i !== index),
+                })
+              }
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() =>
+            setDraft({
+              ...draft,
+              fields: [...draft.fields, { key: "", label: "", kind: "text" }],
+            })
+          }
+        >
+          Add field
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs text-gray-600">
+            Scoring{" "}
+            {draft.scoring === null && (
+              <span className="text-gray-400 font-normal">(defaults)</span>
+            )}
+          </Label>
+          {draft.scoring !== null && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setDraft({ ...draft, scoring: null })}
+            >
+              Reset to defaults
+            </Button>
+          )}
+        </div>
+        <div className="grid grid-cols-4 gap-3">
+          {SCORING_FACTORS.map((factor) => (
+            <div key={factor}>
+              <Label className="text-xs text-gray-500 mb-0.5">
+                {SCORING_FACTOR_LABELS[factor]} weight
+              </Label>
+              <Input
+                type="number"
+                min={0}
+                value={scoring.weights[factor]}
+                onChange={(e) => updateWeight(factor, Number(e.target.value))}
+                className="h-7 text-xs bg-white"
+              />
+            </div>
+          ))}
+          <div>
+            <Label className="text-xs text-gray-500 mb-0.5">
+              Years to file
+            </Label>
+            <Input
+              type="number"
+              min={0}
+              step={0.5}
+              value={scoring.statuteOfLimitationsYears}
+              onChange={(e) =>
+                updateScoring({
+                  statuteOfLimitationsYears: Number(e.target.value),
+                })
+              }
+              className="h-7 text-xs bg-white"
+            />
+          </div>
+          <div>
+            <Label className="text-xs text-gray-500 mb-0.5">
+              Retain at score
+            </Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={scoring.acceptThreshold}
+              onChange={(e) =>
+                updateScoring({ acceptThreshold: Number(e.target.value) })
+              }
+              className="h-7 text-xs bg-white"
+            />
+          </div>
+          <div>
+            <Label className="text-xs text-gray-500 mb-0.5">
+              Decline below score
+            </Label>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={scoring.declineThreshold}
+              onChange={(e) =>
+                updateScoring({ declineThreshold: Number(e.target.value) })
+              }
+              className="h-7 text-xs bg-white"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between pt-1">
+        <div>
+          {caseType && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs text-red-600"
+              onClick={handleDelete}
+              disabled={isSaving}
+            >
+              Delete
+            </Button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={onClose}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? "Saving..." : "Save Case Type"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
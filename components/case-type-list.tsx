@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { CaseTypeEditor } from "@/components/case-type-editor";
+import { Button } from "@/components/ui/button";
+import type { CaseTypeDefinition } from "@/db/types";
+import { SCORING_FACTOR_LABELS, SCORING_FACTORS } from "@/lib/intake/scoring";
+
+interface CaseTypeListProps {
+  caseTypes: CaseTypeDefinition[];
+  canManage: boolean; // Read-only for roles that can't change case types
+}
+
+/**
+ * The case type registry, with one entry open for editing at a time
+ */
+export function CaseTypeList({ caseTypes, canManage }: CaseTypeListProps) {
+  // Case type ID being edited, "" for a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const nextSortOrder =
+    Math.max(-1, ...caseTypes.map((caseType) => caseType.sortOrder)) + 1;
+
+  return (
+    <div className="space-y-2">
+      {caseTypes.map((caseType) =>
+        editingId === caseType.id ? (
+          <CaseTypeEditor
+            key={caseType.id}
+            caseType={caseType}
+            nextSortOrder={nextSortOrder}
+            onClose={() => setEditingId(null)}
+          />
+        ) : (
+          <div
+            key={caseType.id}
+            className="border rounded-md p-3 flex items-start justify-between gap-3"
+          >
+            <div className="min-w-0">
+              <h3 className="text-sm font-medium">
+                {caseType.label}{" "}
+                <span className="text-xs text-muted-foreground font-normal">
+                  {caseType.id}
+                </span>
+              </h3>
+              {caseType.promptHints && (
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  {caseType.promptHints}
+                </p>
+              )}
+              {caseType.fields.length > 0 && (
+                <p className="text-xs text-gray-600 mt-1">
+                  Fields:{" "}
+                  {caseType.fields.map((field) => field.label).join(", ")}
+                </p>
+              )}
+              {caseType.scoring && (
+                <p className="text-xs text-gray-600 mt-1">
+                  Scoring:{" "}
+                  {SCORING_FACTORS.map(
+                    (factor) =>
+                      `${SCORING_FACTOR_LABELS[factor]} ${caseType.scoring?.weights[factor]}`,
+                  ).join(", ")}
+                  ; {caseType.scoring.statuteOfLimitationsYears} years to file
+                </p>
+              )}
+            </div>
+            {canManage && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs shrink-0"
+                onClick={() => setEditingId(caseType.id)}
+                disabled={editingId !== null}
+              >
+                Edit
+              </Button>
+            )}
+          </div>
+        ),
+      )}
+
+      {editingId === "" ? (
+        <CaseTypeEditor
+          nextSortOrder={nextSortOrder}
+          onClose={() => setEditingId(null)}
+        />
+      ) : (
+        canManage && (
+          <Button
+            size="sm"
+            onClick={() => setEditingId("")}
+            disabled={editingId !== null}
+          >
+            Add case type
+          </Button>
+        )
+      )}
+    </div>
+  );
+}
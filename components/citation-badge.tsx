@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import type { Citation } from "@/db/types";
 
 interface Turn {
   id: number;
@@ -10,9 +11,9 @@ interface Turn {
 }
 
 interface CitationBadgeProps {
-  turnIds?: number[];
+  citation?: Citation;
   turns?: Turn[]; // Optional: full turn data for rich tooltips
-  onClickCitation?: (turnIds: number[]) => void; // Now accepts array of turn IDs
+  onClickCitation?: (citation: Citation) => void;
 }
 
 // Color palette matching transcript viewer
@@ -29,16 +30,20 @@ function getSpeakerColor(speaker: number) {
 }
 
 export function CitationBadge({
-  turnIds,
+  citation,
   turns,
   onClickCitation,
 }: CitationBadgeProps) {
   const [isHovered, setIsHovered] = useState(false);
 
-  if (!turnIds || turnIds.length === 0) {
+  if (!citation || citation.turnIds.length === 0) {
     return null;
   }
 
+  const { turnIds } = citation;
+  // The model's quotes for this field weren't found in the cited turns
+  const isUnverified = citation.verified === false;
+
   // Get turn details if available
   const citedTurns = turns?.filter((turn) => turnIds.includes(turn.id)) || [];
 
@@ -48,8 +53,15 @@ export function CitationBadge({
         type="button"
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
-        onClick={() => onClickCitation?.(turnIds)}
-        className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors cursor-pointer"
+        onClick={() => onClickCitation?.(citation)}
+        title={
+          isUnverified ? "Quoted text not found in the cited turns" : undefined
+        }
+        className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium transition-colors cursor-pointer ${
+          isUnverified
+            ? "bg-amber-50 text-amber-700 hover:bg-amber-100"
+            : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+        }`}
       >
         <svg
           className="w-3 h-3"
@@ -66,6 +78,7 @@ export function CitationBadge({
         </svg>
         <span>
           {turnIds.length} {turnIds.length === 1 ? "source" : "sources"}
+          {isUnverified && " · unverified"}
         </span>
       </button>
 
@@ -110,7 +123,7 @@ export function CitationBadge({
             <div className="px-3 py-2 bg-gray-50 rounded-b-lg border-t">
               <button
                 type="button"
-                onClick={() => onClickCitation(turnIds)}
+                onClick={() => onClickCitation(citation)}
                 className="text-xs text-blue-600 hover:text-blue-700 font-medium"
               >
                 View in transcript →
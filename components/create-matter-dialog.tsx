@@ -1,7 +1,12 @@
 "use client";
 
-import { useState, useRef } from "react";
 import { useRouter } from "next/navigation";
+import { useCallback, useRef, useState } from "react";
+import { createMatter } from "@/app/actions/matters";
+import { queueTranscriptAndCreateMatter } from "@/app/actions/transcript";
+import { ExtractionProgress } from "@/components/extraction-progress";
+import { TranscriptImportPreview } from "@/components/transcript-import-preview";
+import { Button } from "@/components/ui/button";
 import {
   Dialog,
   DialogContent,
@@ -10,11 +15,17 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { createMatter } from "@/app/actions/matters";
-import { processTranscriptAndCreateMatter } from "@/app/actions/transcript";
+import {
+  isTranscriptFile,
+  TRANSCRIPT_FILE_ACCEPT,
+} from "@/lib/transcripts/files";
+import { applySpeakerNames } from "@/lib/transcripts/parsers";
+import {
+  type ImportedTranscript,
+  readTranscriptFile,
+} from "@/lib/transcripts/read-file";
 
 type CreationMode = "select" | "manual" | "transcript";
 
@@ -24,8 +35,14 @@ export function CreateMatterDialog() {
   const [name, setName] = useState("");
   const [isCreating, setIsCreating] = useState(false);
   const [transcriptFile, setTranscriptFile] = useState<File | null>(null);
+  const [imported, setImported] = useState<ImportedTranscript | null>(null);
+  const [speakerNames, setSpeakerNames] = useState<Record<number, string>>({});
   const [isDragging, setIsDragging] = useState(false);
   const [processingStatus, setProcessingStatus] = useState<string>("");
+  const [activeJob, setActiveJob] = useState<{
+    jobId: number;
+    matterId: number;
+  } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
 
@@ -53,30 +70,39 @@ export function CreateMatterDialog() {
     setProcessingStatus("Reading transcript file...");
 
     try {
-      // Read file content
-      const fileContent = await transcriptFile.text();
-      setProcessingStatus("Parsing JSON...");
+      if (!imported) {
+        // Parse the file (or transcribe a recording) and stop at the preview
+        setImported(
+          await readTranscriptFile(transcriptFile, setProcessingStatus),
+        );
+        setSpeakerNames({});
+        setProcessingStatus("");
+        setIsCreating(false);
+        return;
+      }
 
-      // Parse JSON
-      const transcript = JSON.parse(fileContent);
-      setProcessingStatus("Processing transcript with AI...");
+      const transcript = applySpeakerNames(imported.transcript, speakerNames);
+      setProcessingStatus("Uploading transcript...");
 
-      // Process with AI
-      const result = await processTranscriptAndCreateMatter(name.trim(), transcript);
+      // Store transcript and queue AI extraction in the background
+      const result = await queueTranscriptAndCreateMatter(
+        name.trim(),
+        transcript,
+      );
 
       if (result.success) {
-        setProcessingStatus("✓ Complete!");
-        setOpen(false);
-        setName("");
-        setTranscriptFile(null);
-        setMode("select");
+        // Stay open and stream extraction progress until the job finishes
         setProcessingStatus("");
-        router.push(`/matters/${result.matterId}`);
+        setActiveJob({ jobId: result.jobId, matterId: result.matterId });
       }
     } catch (error) {
       console.error("Failed to process transcript:", error);
-      setProcessingStatus("✗ Error processing transcript. Check console for details.");
-      alert("Failed to process transcript. Please check the file format and try again.");
+      setProcessingStatus(
+        "✗ Error processing transcript. Check console for details.",
+      );
+      alert(
+        "Failed to process transcript. Please check the file format and try again.",
+      );
     } finally {
       setTimeout(() => {
         setIsCreating(false);
@@ -87,11 +113,34 @@ export function CreateMatterDialog() {
     }
   };
 
+  const openMatter = useCallback(
+    (matterId: number) => {
+      setOpen(false);
+      setName("");
+      setTranscriptFile(null);
+      setImported(null);
+      setSpeakerNames({});
+      setMode("select");
+      setActiveJob(null);
+      router.push(`/matters/${matterId}`);
+    },
+    [router],
+  );
+
+  const clearTranscriptFile = () => {
+    setTranscriptFile(null);
+    setImported(null);
+    setSpeakerNames({});
+  };
+
   const handleFileSelect = (file: File) => {
-    if (file.type !== "application/json") {
-      alert("Please select a JSON file");
+    if (!isTranscriptFile(file)) {
+      alert(
+        "Please select a transcript (JSON, VTT, SRT, TXT, DOCX) or an audio recording",
+      );
       return;
     }
+    clearTranscriptFile();
     setTranscriptFile(file);
   };
 
@@ -127,8 +176,10 @@ export function CreateMatterDialog() {
     if (!newOpen) {
       setMode("select");
       setName("");
-      setTranscriptFile(null);
+      clearTranscriptFile();
       setProcessingStatus("");
+      // Closing doesn't cancel anything: the job keeps running in the background
+      setActiveJob(null);
     }
   };
 
@@ -207,7 +258,26 @@ export function CreateMatterDialog() {
           </form>
         )}
 
-        {mode === "transcript" && (
+        {mode === "transcript" && activeJob && (
+          <div className="space-y-4">
+            <ExtractionProgress
+              jobId={activeJob.jobId}
+              onComplete={openMatter}
+            />
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => openMatter(activeJob.matterId)}
+              >
+                Continue in Background
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {mode === "transcript" && !activeJob && (
           <form onSubmit={handleTranscriptUpload} className="space-y-4">
             <div className="space-y-1">
               <Label htmlFor="transcript-matter-name" className="text-xs">
@@ -225,7 +295,9 @@ export function CreateMatterDialog() {
             </div>
 
             <div className="space-y-1">
-              <Label className="text-xs">Transcript File (JSON)</Label>
+              <Label className="text-xs">
+                Transcript File or Call Recording
+              </Label>
               <div
                 onDragOver={handleDragOver}
                 onDragLeave={handleDragLeave}
@@ -248,7 +320,7 @@ export function CreateMatterDialog() {
                       type="button"
                       variant="outline"
                       size="sm"
-                      onClick={() => setTranscriptFile(null)}
+                      onClick={clearTranscriptFile}
                     >
                       Remove
                     </Button>
@@ -256,7 +328,8 @@ export function CreateMatterDialog() {
                 ) : (
                   <div className="space-y-2">
                     <div className="text-sm text-gray-600">
-                      Drag and drop JSON file here, or
+                      Drag and drop a transcript (JSON, VTT, SRT, TXT, DOCX,
+                      Zoom or Teams export) or audio file here, or
                     </div>
                     <Button
                       type="button"
@@ -269,7 +342,7 @@ export function CreateMatterDialog() {
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept="application/json,.json"
+                      accept={TRANSCRIPT_FILE_ACCEPT}
                       onChange={handleFileInputChange}
                       className="hidden"
                     />
@@ -278,6 +351,14 @@ export function CreateMatterDialog() {
               </div>
             </div>
 
+            {imported && (
+              <TranscriptImportPreview
+                imported={imported}
+                names={speakerNames}
+                onNamesChange={setSpeakerNames}
+              />
+            )}
+
             {processingStatus && (
               <div className="text-xs text-center py-2 px-3 bg-blue-50 border border-blue-200 rounded-md">
                 {processingStatus}
@@ -299,7 +380,11 @@ export function CreateMatterDialog() {
                 size="sm"
                 disabled={isCreating || !transcriptFile}
               >
-                {isCreating ? "Processing..." : "Process & Create"}
+                {isCreating
+                  ? "Processing..."
+                  : imported
+                    ? "Process & Create"
+                    : "Preview"}
               </Button>
             </div>
           </form>
@@ -0,0 +1,252 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import {
+  applyExtractionPreview,
+  discardExtractionPreview,
+} from "@/app/actions/transcript";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { FieldSources } from "@/db/types";
+import {
+  type FieldChange,
+  formatFieldValue,
+  type IntakeSection,
+  isUserEdited,
+} from "@/lib/intake/fields";
+
+const SECTION_LABELS: Record<IntakeSection, string> = {
+  clientInfo: "Client & Incident",
+  liability: "Liability",
+  damages: "Damages",
+  coverage: "Insurance Coverage",
+  mvaDetails: "Vehicle Details",
+  dogBiteDetails: "Animal Details",
+  premisesDetails: "Premises Details",
+};
+
+function isEmpty(value: unknown) {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+interface ExtractionPreviewDialogProps {
+  jobId: number;
+  changes: FieldChange[];
+  fieldSources: FieldSources;
+}
+
+export function ExtractionPreviewDialog({
+  jobId,
+  changes,
+  fieldSources,
+}: ExtractionPreviewDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Filling empty fields is safe by default; overwriting existing values
+  // (or anything a lawyer edited by hand, even to blank) is opt-in
+  const [accepted, setAccepted] = useState<Set<string>>(
+    () =>
+      new Set(
+        changes
+          .filter(
+            (change) =>
+              isEmpty(change.current) &&
+              !isUserEdited(fieldSources, change.key),
+          )
+          .map((change) => change.key),
+      ),
+  );
+
+  const toggle = (key: string, checked: boolean) => {
+    const next = new Set(accepted);
+    if (checked) {
+      next.add(key);
+    } else {
+      next.delete(key);
+    }
+    setAccepted(next);
+  };
+
+  const overwriteCount = changes.filter(
+    (change) => accepted.has(change.key) && !isEmpty(change.current),
+  ).length;
+  const manualOverwriteCount = changes.filter(
+    (change) =>
+      accepted.has(change.key) && isUserEdited(fieldSources, change.key),
+  ).length;
+
+  const handleApply = async () => {
+    if (
+      overwriteCount > 0 &&
+      !window.confirm(
+        `This will overwrite ${overwriteCount} existing value(s)${
+          manualOverwriteCount > 0
+            ? `, including ${manualOverwriteCount} manual edit(s)`
+            : ""
+        }. Continue?`,
+      )
+    ) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await applyExtractionPreview(jobId, Array.from(accepted));
+      setOpen(false);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to apply extraction:", error);
+      alert("Failed to apply changes. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    setIsSubmitting(true);
+    try {
+      await discardExtractionPreview(jobId);
+      setOpen(false);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to discard extraction:", error);
+      alert("Failed to discard changes. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const sections = (Object.keys(SECTION_LABELS) as IntakeSection[])
+    .map((section) => ({
+      section,
+      changes: changes.filter((change) => change.section === section),
+    }))
+    .filter((group) => group.changes.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-base">Review AI Extraction</DialogTitle>
+          <DialogDescription className="text-xs">
+            {changes.length === 0
+              ? "The new extraction matches the current intake data."
+              : `The AI suggests ${changes.length} change(s). Select which values to accept — nothing is overwritten until you apply.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {changes.length > 0 && (
+          <>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() =>
+                  setAccepted(new Set(changes.map((change) => change.key)))
+                }
+              >
+                Accept All
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setAccepted(new Set())}
+              >
+                Reject All
+              </Button>
+            </div>
+
+            <div className="max-h-[60vh] overflow-y-auto border rounded-md divide-y">
+              {sections.map((group) => (
+                <div key={group.section}>
+                  <div className="px-3 py-1.5 bg-gray-50 text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                    {SECTION_LABELS[group.section]}
+                  </div>
+                  {group.changes.map((change) => (
+                    <label
+                      key={change.key}
+                      htmlFor={`accept-${change.key}`}
+                      className="grid grid-cols-[auto_8rem_1fr_1fr] gap-3 px-3 py-2 items-start text-xs cursor-pointer hover:bg-gray-50"
+                    >
+                      <Checkbox
+                        id={`accept-${change.key}`}
+                        checked={accepted.has(change.key)}
+                        onCheckedChange={(checked) =>
+                          toggle(change.key, checked === true)
+                        }
+                        className="mt-0.5"
+                      />
+                      <span className="font-medium text-gray-700">
+                        {change.label}
+                        {isUserEdited(fieldSources, change.key) && (
+                          <span className="block mt-0.5 text-[10px] font-medium text-amber-700">
+                            Edited manually
+                          </span>
+                        )}
+                      </span>
+                      <span
+                        className={`text-gray-500 ${
+                          accepted.has(change.key) ? "line-through" : ""
+                        }`}
+                      >
+                        {formatFieldValue(change.current)}
+                      </span>
+                      <span
+                        className={
+                          accepted.has(change.key)
+                            ? "text-blue-700 font-medium"
+                            : "text-gray-400"
+                        }
+                      >
+                        {formatFieldValue(change.proposed)}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleDiscard}
+            disabled={isSubmitting}
+          >
+            {changes.length === 0 ? "Dismiss" : "Discard"}
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleApply}
+            disabled={isSubmitting || changes.length === 0}
+          >
+            {isSubmitting
+              ? "Applying..."
+              : `Apply ${accepted.size} Change${accepted.size === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
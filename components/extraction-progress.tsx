@@ -0,0 +1,248 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ExtractionSection } from "@/lib/ai/progress";
+import type { ChunkExtraction } from "@/lib/ai/specialized-extractor";
+import { CASE_SECTIONS } from "@/lib/intake/case-sections";
+import type { JobEvent } from "@/lib/jobs/events";
+
+const SECTIONS: { key: ExtractionSection; label: string }[] = [
+  { key: "clientInfo", label: "Client Info" },
+  { key: "liability", label: "Liability" },
+  { key: "damages", label: "Damages" },
+  { key: "coverage", label: "Coverage" },
+];
+
+type ChunkState = {
+  sections: Partial<Record<ExtractionSection, string>>; // section → summary
+  status: "running" | "complete" | "failed";
+};
+
+/**
+ * Subscribe to a processing job's event stream
+ */
+function useJobEvents(jobId: number) {
+  const [events, setEvents] = useState<JobEvent[]>([]);
+  const [connectionLost, setConnectionLost] = useState(false);
+
+  useEffect(() => {
+    setEvents([]);
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as JobEvent;
+      setConnectionLost(false);
+      setEvents((prev) =>
+        prev.some((e) => e.seq === event.seq) ? prev : [...prev, event],
+      );
+      if (event.type === "complete" || event.type === "failed") {
+        source.close();
+      }
+    };
+    // EventSource reconnects on its own; the server replays missed events
+    source.onerror = () => setConnectionLost(true);
+
+    return () => source.close();
+  }, [jobId]);
+
+  return { events, connectionLost };
+}
+
+/**
+ * Latest non-empty values across the chunks processed so far
+ */
+function summarizePartialResults(extractions: ChunkExtraction[]) {
+  const latest = [...extractions].reverse();
+  const indications = new Set<string>();
+  for (const extraction of extractions) {
+    for (const indication of extraction.damages.indications) {
+      indications.add(indication.description);
+    }
+  }
+
+  return {
+    caseType: latest.find((e) => e.clientInfo.caseType)?.clientInfo.caseType,
+    clientName: latest.find((e) => e.clientInfo.clientName)?.clientInfo
+      .clientName,
+    incidentDate: latest.find((e) => e.clientInfo.incidentDate)?.clientInfo
+      .incidentDate,
+    atFault: latest.find((e) => e.liability.atFault !== "unclear")?.liability
+      .atFault,
+    indications: Array.from(indications),
+  };
+}
+
+interface ExtractionProgressProps {
+  jobId: number;
+  onComplete?: (matterId: number) => void;
+}
+
+export function ExtractionProgress({
+  jobId,
+  onComplete,
+}: ExtractionProgressProps) {
+  const { events, connectionLost } = useJobEvents(jobId);
+
+  let totalChunks: number | null = null;
+  let merging = false;
+  let completeMatterId: number | null = null;
+  let failure: string | null = null;
+  const chunks = new Map<number, ChunkState>();
+  const extractions: ChunkExtraction[] = [];
+
+  const chunkState = (chunk: number) => {
+    let state = chunks.get(chunk);
+    if (!state) {
+      state = { sections: {}, status: "running" };
+      chunks.set(chunk, state);
+    }
+    return state;
+  };
+
+  for (const event of events) {
+    switch (event.type) {
+      case "chunked":
+        totalChunks = event.totalChunks;
+        break;
+      case "section_complete":
+        chunkState(event.chunk).sections[event.section] = event.summary;
+        break;
+      case "chunk_complete":
+        chunkState(event.chunk).status = "complete";
+        extractions.push(event.extraction);
+        break;
+      case "chunk_failed":
+        chunkState(event.chunk).status = "failed";
+        break;
+      case "merging":
+        merging = true;
+        break;
+      case "complete":
+        completeMatterId = event.matterId;
+        break;
+      case "failed":
+        failure = event.error;
+        break;
+    }
+  }
+
+  useEffect(() => {
+    if (completeMatterId !== null) {
+      onComplete?.(completeMatterId);
+    }
+  }, [completeMatterId, onComplete]);
+
+  const partial = summarizePartialResults(extractions);
+  const headline = failure
+    ? "✗ Processing failed"
+    : completeMatterId !== null
+      ? "✓ Complete!"
+      : merging
+        ? "Merging results..."
+        : totalChunks
+          ? `Processing ${totalChunks} chunk${totalChunks === 1 ? "" : "s"}...`
+          : events.length === 0
+            ? "Waiting for worker..."
+            : "Chunking transcript...";
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs py-2 px-3 bg-blue-50 border border-blue-200 rounded-md flex items-center justify-between">
+        <span className="font-medium text-blue-900">{headline}</span>
+        {connectionLost && !failure && completeMatterId === null && (
+          <span className="text-blue-700">Reconnecting...</span>
+        )}
+      </div>
+
+      {failure && <p className="text-xs text-red-600">{failure}</p>}
+
+      {totalChunks !== null && (
+        <div className="space-y-1.5 max-h-48 overflow-y-auto">
+          {Array.from({ length: totalChunks }, (_, index) => {
+            const chunk = index + 1;
+            const state = chunks.get(chunk);
+            return (
+              <div key={chunk} className="flex items-center gap-2 text-xs">
+                <span
+                  className={`w-16 shrink-0 ${
+                    state?.status === "failed"
+                      ? "text-red-600"
+                      : state?.status === "complete"
+                        ? "text-green-700"
+                        : "text-gray-600"
+                  }`}
+                >
+                  Chunk {chunk}
+                </span>
+                <div className="flex flex-wrap gap-1">
+                  {[
+                    ...SECTIONS,
+                    // Only some case types have one; shown once a chunk reports it
+                    ...CASE_SECTIONS.filter(
+                      (section) => state?.sections[section.key],
+                    ),
+                  ].map((section) => {
+                    const summary = state?.sections[section.key];
+                    return (
+                      <span
+                        key={section.key}
+                        title={summary}
+                        className={`px-1.5 py-0.5 rounded border ${
+                          summary
+                            ? "bg-green-50 border-green-200 text-green-700"
+                            : "bg-white border-gray-200 text-gray-400"
+                        }`}
+                      >
+                        {summary ? "✓ " : ""}
+                        {section.label}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {extractions.length > 0 && (
+        <div className="border rounded-md p-3 space-y-1">
+          <p className="text-xs font-semibold text-gray-700">Partial results</p>
+          <PartialField label="Case Type" value={partial.caseType} />
+          <PartialField label="Client" value={partial.clientName} />
+          <PartialField label="Incident Date" value={partial.incidentDate} />
+          <PartialField label="At Fault" value={partial.atFault} />
+          <PartialField
+            label="Injuries"
+            value={
+              partial.indications.length > 0
+                ? partial.indications.join("; ")
+                : null
+            }
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PartialField({
+  label,
+  value,
+}: {
+  label: string;
+  value: string | null | undefined;
+}) {
+  return (
+    <div className="flex items-baseline gap-2">
+      <span className="text-xs text-gray-600 shrink-0">{label}:</span>
+      <span className="text-xs font-medium truncate">
+        {value || (
+          <span className="text-gray-400 italic font-normal">
+            Not yet found
+          </span>
+        )}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import type { FieldSource } from "@/db/types";
+import { formatFieldValue } from "@/lib/intake/fields";
+import { getConflictCandidates, getReviewReason } from "@/lib/intake/review";
+
+interface FieldSourceBadgeProps {
+  source?: FieldSource;
+}
+
+function formatConfidence(source: FieldSource) {
+  return source.confidence
+    ? `, ${Math.round(source.confidence.score * 100)}% confidence`
+    : "";
+}
+
+/**
+ * Small pill showing whether a field's value came from AI extraction or a manual edit.
+ * AI values still waiting for review are flagged instead.
+ */
+export function FieldSourceBadge({ source }: FieldSourceBadgeProps) {
+  if (!source) {
+    return null;
+  }
+
+  const updatedAt = new Date(source.updatedAt).toLocaleString();
+
+  if (source.origin === "user") {
+    return (
+      <span
+        title={`Manually edited ${updatedAt}`}
+        className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 text-amber-800"
+      >
+        Edited
+      </span>
+    );
+  }
+
+  const reason = getReviewReason(source);
+
+  if (reason === "conflict") {
+    const others = (getConflictCandidates(source) ?? [])
+      .slice(1)
+      .map((candidate) => formatFieldValue(candidate.value))
+      .join("; ");
+    return (
+      <span
+        title={`Transcript parts disagree. Also extracted: ${others}`}
+        className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-red-100 text-red-700"
+      >
+        Conflicting
+      </span>
+    );
+  }
+
+  if (reason === "low_confidence") {
+    return (
+      <span
+        title={`Extracted by AI${formatConfidence(source)} - needs review`}
+        className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-orange-100 text-orange-700"
+      >
+        Low confidence
+      </span>
+    );
+  }
+
+  return (
+    <span
+      title={`Extracted by AI${source.jobId ? ` (run #${source.jobId})` : ""} ${updatedAt}${formatConfidence(source)}${source.reviewedAt ? ", confirmed" : ""}`}
+      className="inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-violet-100 text-violet-700"
+    >
+      AI
+    </span>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useActionState } from "react";
+import { type SignInState, signIn } from "@/app/actions/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+const INITIAL_STATE: SignInState = { error: null };
+
+export function LoginForm({ next }: { next?: string }) {
+  const [state, formAction, isPending] = useActionState(signIn, INITIAL_STATE);
+
+  return (
+    <form action={formAction} className="space-y-4">
+      {next && <input type="hidden" name="next" value={next} />}
+      <div className="space-y-1">
+        <Label htmlFor="email" className="text-xs">
+          Email
+        </Label>
+        <Input
+          id="email"
+          name="email"
+          type="email"
+          autoComplete="username"
+          className="h-8 text-sm"
+          autoFocus
+          required
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="password" className="text-xs">
+          Password
+        </Label>
+        <Input
+          id="password"
+          name="password"
+          type="password"
+          autoComplete="current-password"
+          className="h-8 text-sm"
+          required
+        />
+      </div>
+      {state.error && <p className="text-xs text-red-600">{state.error}</p>}
+      <Button type="submit" size="sm" className="w-full" disabled={isPending}>
+        {isPending ? "Signing in..." : "Sign in"}
+      </Button>
+    </form>
+  );
+}
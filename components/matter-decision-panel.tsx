@@ -0,0 +1,260 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import {
+  decideMatter,
+  type getMatterDecisions,
+  recordDeclinationLetter,
+  reopenMatter,
+} from "@/app/actions/decisions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { DecisionOutcome, LetterMethod, MatterStatus } from "@/db/types";
+import {
+  DECISION_OUTCOMES,
+  isDecided,
+  LETTER_METHOD_LABELS,
+  LETTER_METHODS,
+  MATTER_STATUS_LABELS,
+  MATTER_STATUS_STYLES,
+  needsDeclinationLetter,
+} from "@/lib/matters/status";
+
+type MatterDecision = Awaited<ReturnType<typeof getMatterDecisions>>[number];
+
+interface MatterDecisionPanelProps {
+  matterId: number;
+  status: MatterStatus;
+  decisions: MatterDecision[]; // Newest first
+  isReviewed: boolean;
+  canDecide: boolean;
+  canEdit: boolean;
+}
+
+const SELECT_CLASS_NAME =
+  "h-8 rounded-md border border-input bg-background px-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+function formatDate(date: Date) {
+  return new Date(date).toLocaleDateString();
+}
+
+/**
+ * Where the matter stands in its lifecycle, and the firm's decision on taking
+ * the client on once it's been reviewed
+ */
+export function MatterDecisionPanel({
+  matterId,
+  status,
+  decisions,
+  isReviewed,
+  canDecide,
+  canEdit,
+}: MatterDecisionPanelProps) {
+  const router = useRouter();
+  const [outcome, setOutcome] = useState<DecisionOutcome>("accepted");
+  const [reason, setReason] = useState("");
+  const [referredTo, setReferredTo] = useState("");
+  const [letterMethod, setLetterMethod] = useState<LetterMethod>("email");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const decided = isDecided(status);
+  const [current, ...rest] = decided ? decisions : [null, ...decisions];
+  const earlier = rest.filter((decision) => decision !== null);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      router.refresh();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDecide = () => {
+    run(async () => {
+      await decideMatter(matterId, { outcome, reason, referredTo });
+      setReason("");
+      setReferredTo("");
+    }, "Failed to record decision");
+  };
+
+  const handleReopen = () => {
+    if (!confirm("Reopen this matter? Its current decision will be undone.")) {
+      return;
+    }
+    run(() => reopenMatter(matterId), "Failed to reopen matter");
+  };
+
+  return (
+    <div className="mb-4 bg-white rounded-md border px-4 py-3 text-sm">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">Status</span>
+          <span
+            className={`px-2 py-0.5 rounded text-xs font-medium ${MATTER_STATUS_STYLES[status]}`}
+          >
+            {MATTER_STATUS_LABELS[status]}
+          </span>
+        </div>
+        {decided && canDecide && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={handleReopen}
+            disabled={isSaving}
+          >
+            Reopen
+          </Button>
+        )}
+      </div>
+
+      {current && (
+        <div className="mt-3 space-y-1">
+          <p className="text-xs text-gray-500">
+            {MATTER_STATUS_LABELS[current.outcome]}
+            {current.decidedBy && ` by ${current.decidedBy}`} on{" "}
+            {formatDate(current.decidedAt)}
+          </p>
+          <p className="whitespace-pre-wrap">{current.reason}</p>
+          {current.referredTo && (
+            <p>
+              <span className="text-xs text-gray-500">Referred to</span>{" "}
+              {current.referredTo}
+            </p>
+          )}
+          {needsDeclinationLetter(current.outcome) &&
+            (current.letterSentAt ? (
+              <p className="text-xs text-green-700">
+                Declination letter sent
+                {current.letterMethod &&
+                  ` by ${LETTER_METHOD_LABELS[current.letterMethod].toLowerCase()}`}{" "}
+                on {formatDate(current.letterSentAt)}
+                {current.letterSentBy && ` (${current.letterSentBy})`}
+              </p>
+            ) : (
+              <div className="flex flex-wrap items-center gap-2 pt-1">
+                <span className="text-xs text-orange-600">
+                  Declination letter not sent yet
+                </span>
+                {canEdit && (
+                  <>
+                    <select
+                      value={letterMethod}
+                      onChange={(e) =>
+                        setLetterMethod(e.target.value as LetterMethod)
+                      }
+                      disabled={isSaving}
+                      className={SELECT_CLASS_NAME}
+                    >
+                      {LETTER_METHODS.map((method) => (
+                        <option key={method} value={method}>
+                          {LETTER_METHOD_LABELS[method]}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() =>
+                        run(
+                          () => recordDeclinationLetter(matterId, letterMethod),
+                          "Failed to record declination letter",
+                        )
+                      }
+                      disabled={isSaving}
+                    >
+                      Mark Sent
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+        </div>
+      )}
+
+      {!decided && canDecide && status !== "processing" && (
+        <div className="mt-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={outcome}
+              onChange={(e) => setOutcome(e.target.value as DecisionOutcome)}
+              disabled={isSaving}
+              className={SELECT_CLASS_NAME}
+            >
+              {DECISION_OUTCOMES.map((value) => (
+                <option key={value} value={value}>
+                  {MATTER_STATUS_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            {outcome === "referred_out" && (
+              <Input
+                value={referredTo}
+                onChange={(e) => setReferredTo(e.target.value)}
+                placeholder="Referred to (firm or attorney)"
+                disabled={isSaving}
+                className="h-8 max-w-xs"
+              />
+            )}
+          </div>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason for the decision"
+            disabled={isSaving}
+            rows={2}
+          />
+          {outcome === "accepted" && !isReviewed && (
+            <p className="text-xs text-amber-700">
+              Mark the intake as reviewed before accepting the matter.
+            </p>
+          )}
+          <Button
+            size="sm"
+            onClick={handleDecide}
+            disabled={
+              isSaving ||
+              !reason.trim() ||
+              (outcome === "referred_out" && !referredTo.trim()) ||
+              (outcome === "accepted" && !isReviewed)
+            }
+          >
+            Record Decision
+          </Button>
+        </div>
+      )}
+
+      {earlier.length > 0 && (
+        <details className="mt-3">
+          <summary className="cursor-pointer text-xs text-gray-500">
+            Earlier decisions ({earlier.length})
+          </summary>
+          <ul className="mt-2 space-y-2">
+            {earlier.map((decision) => (
+              <li key={decision.id} className="text-xs text-gray-600">
+                <span className="font-medium">
+                  {MATTER_STATUS_LABELS[decision.outcome]}
+                </span>{" "}
+                on {formatDate(decision.decidedAt)}
+                {decision.decidedBy && ` by ${decision.decidedBy}`}
+                {decision.reopenedAt &&
+                  `, reopened ${formatDate(decision.reopenedAt)}${
+                    decision.reopenedBy ? ` by ${decision.reopenedBy}` : ""
+                  }`}
+                <p className="text-gray-500">{decision.reason}</p>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -5,12 +5,17 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import type { Liability, Damages, Coverage, Severity } from "@/db/types";
+import type { CaseDetails, CaseTypeDefinition, CaseTypeField, Citation, Liability, Damages, Coverage, MvaDetails, DogBiteDetails, PremisesDetails, Severity, FieldSources, FieldSource } from "@/db/types";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { updateMatter } from "@/app/actions/matters";
 import { updateIntakeFormData } from "@/app/actions/matters";
+import { BriefRegenerateControls } from "@/components/brief-regenerate-controls";
 import { CitationBadge } from "@/components/citation-badge";
+import { FieldSourceBadge } from "@/components/field-source-badge";
+import { getReviewReason } from "@/lib/intake/review";
+import { findCaseType } from "@/lib/case-types/defaults";
+import { type CaseSection, getCaseSection } from "@/lib/intake/case-sections";
 
 type Matter = {
   id: number;
@@ -24,35 +29,51 @@ type Matter = {
   incidentLocation?: string | null;
   brief?: string | null;
   citations?: any; // Citations from AI extraction
+  fieldSources?: FieldSources | null; // Whether each field came from AI or a manual edit
   createdAt: Date;
   updatedAt: Date;
 };
 
+// The case type's own section (vehicle, animal or premises details), keyed by section
+type CaseSectionValues = {
+  mvaDetails: MvaDetails | null;
+  dogBiteDetails: DogBiteDetails | null;
+  premisesDetails: PremisesDetails | null;
+};
+
 type MatterDetailViewProps = {
   matter: Matter;
   intakeFormDataId: number;
   initialIntakeData: {
     caseType: string;
+    caseDetails?: CaseDetails | null;
     liability: Liability;
     damages: Damages;
     coverage: Coverage;
+    mvaDetails?: MvaDetails | null;
+    dogBiteDetails?: DogBiteDetails | null;
+    premisesDetails?: PremisesDetails | null;
   };
-  onCitationClick?: (turnIds: number[]) => void;
+  caseTypes: CaseTypeDefinition[]; // From the case type registry
+  canEdit: boolean; // Hides the edit and brief controls for read-only roles
+  onCitationClick?: (citation: Citation) => void;
 };
 
 export function MatterDetailView({
   matter,
   intakeFormDataId,
   initialIntakeData,
+  caseTypes,
+  canEdit,
   onCitationClick,
 }: MatterDetailViewProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isBriefExpanded, setIsBriefExpanded] = useState(true);
 
-  // Helper function to get turn IDs for a specific field
-  const getCitationsForField = (section: "clientInfo" | "liability" | "damages" | "coverage", field: string): number[] => {
-    let sectionCitations: any[] = [];
+  // Helper function to get the citation for a specific field
+  const getCitationForField = (section: "clientInfo" | "liability" | "damages" | "coverage" | CaseSection, field: string): Citation | undefined => {
+    let sectionCitations: Citation[] = [];
 
     if (section === "clientInfo") {
       sectionCitations = matter.citations?.clientInfo || [];
@@ -62,12 +83,17 @@ export function MatterDetailView({
       sectionCitations = damages.citations || [];
     } else if (section === "coverage") {
       sectionCitations = coverage.citations || [];
+    } else {
+      sectionCitations = caseSectionValues[section]?.citations || matter.citations?.[section] || [];
     }
 
-    const fieldCitation = sectionCitations.find((c: any) => c.field === field);
-    return fieldCitation?.turnIds || [];
+    const fieldCitation = sectionCitations.find((c) => c.field === field);
+    return fieldCitation && fieldCitation.turnIds.length > 0 ? fieldCitation : undefined;
   };
 
+  const getFieldSource = (key: string): FieldSource | undefined =>
+    matter.fieldSources?.[key];
+
   // Matter fields state
   const [clientName, setClientName] = useState(matter.clientName || "");
   const [clientDob, setClientDob] = useState(matter.clientDob || "");
@@ -80,9 +106,11 @@ export function MatterDetailView({
 
   // Intake form data state
   const [caseType, setCaseType] = useState(initialIntakeData.caseType);
+  const [caseDetails, setCaseDetails] = useState<CaseDetails>(initialIntakeData.caseDetails ?? {});
   const [liability, setLiability] = useState(initialIntakeData.liability);
   const [damages, setDamages] = useState(initialIntakeData.damages);
   const [coverage, setCoverage] = useState(initialIntakeData.coverage);
+  const [caseSectionValues, setCaseSectionValues] = useState<CaseSectionValues>(() => getInitialCaseSections(initialIntakeData));
 
   // Preview mode for liability markdown
   const [liabilityPreview, setLiabilityPreview] = useState(true);
@@ -120,9 +148,11 @@ export function MatterDetailView({
     setIncidentLocation(matter.incidentLocation || "");
     setBrief(matter.brief || "");
     setCaseType(initialIntakeData.caseType);
+    setCaseDetails(initialIntakeData.caseDetails ?? {});
     setLiability(initialIntakeData.liability);
     setDamages(initialIntakeData.damages);
     setCoverage(initialIntakeData.coverage);
+    setCaseSectionValues(getInitialCaseSections(initialIntakeData));
     setIsEditing(false);
     setHasUnsavedChanges(false);
   };
@@ -144,9 +174,19 @@ export function MatterDetailView({
       // Update intake form data
       await updateIntakeFormData(intakeFormDataId, {
         caseType,
+        // Details of a previously chosen case type don't carry over
+        caseDetails: Object.fromEntries(
+          caseTypeFields
+            .filter((field) => caseDetails[field.key] !== undefined)
+            .map((field) => [field.key, caseDetails[field.key]])
+        ),
         liability,
         damages,
         coverage,
+        // Likewise only the current case type's section is kept
+        mvaDetails: caseSection?.key === "mvaDetails" ? caseSectionValues.mvaDetails : null,
+        dogBiteDetails: caseSection?.key === "dogBiteDetails" ? caseSectionValues.dogBiteDetails : null,
+        premisesDetails: caseSection?.key === "premisesDetails" ? caseSectionValues.premisesDetails : null,
       });
 
       setIsEditing(false);
@@ -184,12 +224,9 @@ export function MatterDetailView({
     return "✓ Coverage valid on incident date";
   };
 
-  const caseTypeDisplay =
-    caseType === "dog_bites"
-      ? "Dog Bites"
-      : caseType === "mva"
-        ? "Motor Vehicle Accident"
-        : "Slip and Fall";
+  const caseTypeFields = findCaseType(caseTypes, caseType)?.fields ?? [];
+  const caseSection = getCaseSection(caseType);
+  const caseSectionDetails: Record<string, unknown> = (caseSection && caseSectionValues[caseSection.key]) ?? {};
 
   const clientCoverageWarning = getCoverageDateWarning(
     coverage.clientCoverageEffectiveDate,
@@ -232,21 +269,28 @@ export function MatterDetailView({
               </Button>
             </>
           ) : (
-            <Button size="sm" onClick={() => setIsEditing(true)}>
-              Edit
-            </Button>
+            canEdit && (
+              <Button size="sm" onClick={() => setIsEditing(true)}>
+                Edit
+              </Button>
+            )
           )}
         </div>
       </div>
 
             {/* Case Brief Card */}
-      {brief && !isEditing && (
+      {!isEditing && (
         <div className="bg-blue-50 border border-blue-200 rounded-md">
           <button
             onClick={() => setIsBriefExpanded(!isBriefExpanded)}
             className="w-full border-b border-blue-200 px-4 py-2 bg-blue-100 flex items-center justify-between hover:bg-blue-150 transition-colors"
           >
-            <h2 className="text-sm font-semibold text-blue-900">AI Case Brief</h2>
+            <div className="flex items-center gap-2">
+              <h2 className="text-sm font-semibold text-blue-900">
+                {getFieldSource("brief")?.origin === "user" ? "Case Brief" : "AI Case Brief"}
+              </h2>
+              <FieldSourceBadge source={getFieldSource("brief")} />
+            </div>
             <svg
               className={`w-4 h-4 text-blue-900 transition-transform ${isBriefExpanded ? 'rotate-180' : ''}`}
               fill="none"
@@ -257,8 +301,18 @@ export function MatterDetailView({
             </svg>
           </button>
           {isBriefExpanded && (
-            <div className="p-4">
-              <p className="text-sm text-gray-800 leading-relaxed">{brief}</p>
+            <div className="p-4 space-y-3">
+              {brief ? (
+                <p className="text-sm text-gray-800 leading-relaxed">{brief}</p>
+              ) : (
+                <p className="text-sm text-gray-500">No brief yet.</p>
+              )}
+              {canEdit && (
+                <BriefRegenerateControls
+                  matterId={matter.id}
+                  isEdited={getFieldSource("brief")?.origin === "user"}
+                />
+              )}
             </div>
           )}
         </div>
@@ -280,7 +334,8 @@ export function MatterDetailView({
                 markAsChanged();
               }}
               isEditing={isEditing}
-              citationTurnIds={getCitationsForField("clientInfo", "clientName")}
+              citation={getCitationForField("clientInfo", "clientName")}
+              source={getFieldSource("clientName")}
               onCitationClick={onCitationClick}
             />
             <EditableField
@@ -292,7 +347,8 @@ export function MatterDetailView({
               }}
               isEditing={isEditing}
               type="date"
-              citationTurnIds={getCitationsForField("clientInfo", "clientDob")}
+              citation={getCitationForField("clientInfo", "clientDob")}
+              source={getFieldSource("clientDob")}
               onCitationClick={onCitationClick}
             />
             <EditableField
@@ -303,7 +359,8 @@ export function MatterDetailView({
                 markAsChanged();
               }}
               isEditing={isEditing}
-              citationTurnIds={getCitationsForField("clientInfo", "clientPhone")}
+              citation={getCitationForField("clientInfo", "clientPhone")}
+              source={getFieldSource("clientPhone")}
               onCitationClick={onCitationClick}
             />
             <EditableField
@@ -315,7 +372,8 @@ export function MatterDetailView({
               }}
               isEditing={isEditing}
               type="email"
-              citationTurnIds={getCitationsForField("clientInfo", "clientEmail")}
+              citation={getCitationForField("clientInfo", "clientEmail")}
+              source={getFieldSource("clientEmail")}
               onCitationClick={onCitationClick}
             />
             <EditableField
@@ -327,7 +385,8 @@ export function MatterDetailView({
               }}
               isEditing={isEditing}
               span={2}
-              citationTurnIds={getCitationsForField("clientInfo", "clientAddress")}
+              citation={getCitationForField("clientInfo", "clientAddress")}
+              source={getFieldSource("clientAddress")}
               onCitationClick={onCitationClick}
             />
           </div>
@@ -372,11 +431,14 @@ export function MatterDetailView({
               isEditing={isEditing}
               type="select"
               options={[
-                { value: "dog_bites", label: "Dog Bites" },
-                { value: "mva", label: "Motor Vehicle Accident" },
-                { value: "slip_and_fall", label: "Slip and Fall" },
+                ...caseTypes.map((type) => ({ value: type.id, label: type.label })),
+                // Keep a case type that was removed from the registry selectable
+                ...(findCaseType(caseTypes, caseType)
+                  ? []
+                  : [{ value: caseType, label: caseType }]),
               ]}
-              citationTurnIds={getCitationsForField("clientInfo", "caseType")}
+              citation={getCitationForField("clientInfo", "caseType")}
+              source={getFieldSource("caseType")}
               onCitationClick={onCitationClick}
             />
             <EditableField
@@ -388,7 +450,8 @@ export function MatterDetailView({
               }}
               isEditing={isEditing}
               type="date"
-              citationTurnIds={getCitationsForField("clientInfo", "incidentDate")}
+              citation={getCitationForField("clientInfo", "incidentDate")}
+              source={getFieldSource("incidentDate")}
               onCitationClick={onCitationClick}
             />
             <EditableField
@@ -399,9 +462,27 @@ export function MatterDetailView({
                 markAsChanged();
               }}
               isEditing={isEditing}
-              citationTurnIds={getCitationsForField("clientInfo", "incidentLocation")}
+              citation={getCitationForField("clientInfo", "incidentLocation")}
+              source={getFieldSource("incidentLocation")}
               onCitationClick={onCitationClick}
             />
+            {caseTypeFields.map((field) => (
+              <EditableField
+                key={field.key}
+                label={field.label}
+                value={formatCaseDetail(caseDetails[field.key])}
+                onChange={(val) => {
+                  setCaseDetails({ ...caseDetails, [field.key]: parseCaseDetail(field, val) });
+                  markAsChanged();
+                }}
+                isEditing={isEditing}
+                type={field.kind === "boolean" ? "select" : field.kind === "date" ? "date" : "text"}
+                options={field.kind === "boolean" ? CASE_DETAIL_BOOLEAN_OPTIONS : undefined}
+                citation={getCitationForField("clientInfo", `caseDetails[${field.key}]`)}
+                source={getFieldSource("caseDetails")}
+                onCitationClick={onCitationClick}
+              />
+            ))}
           </div>
         </div>
       </div>
@@ -413,6 +494,34 @@ export function MatterDetailView({
         </div>
 
         <div className="divide-y">
+          {/* Case-Type-Specific Section */}
+          {caseSection && (
+            <Section title={caseSection.label}>
+              <div className="grid grid-cols-2 gap-x-6 gap-y-3">
+                {caseSection.fields.map((field) => (
+                  <EditableField
+                    key={field.key}
+                    label={field.label}
+                    value={formatCaseDetail(caseSectionDetails[field.key] as CaseDetails[string] | undefined)}
+                    onChange={(val) => {
+                      setCaseSectionValues({
+                        ...caseSectionValues,
+                        [caseSection.key]: { ...caseSectionDetails, [field.key]: parseCaseDetail(field, val) },
+                      });
+                      markAsChanged();
+                    }}
+                    isEditing={isEditing}
+                    type={field.kind === "boolean" ? "select" : "text"}
+                    options={field.kind === "boolean" ? CASE_DETAIL_BOOLEAN_OPTIONS : undefined}
+                    citation={getCitationForField(caseSection.key, field.key)}
+                    source={getFieldSource(`${caseSection.key}.${field.key}`)}
+                    onCitationClick={onCitationClick}
+                  />
+                ))}
+              </div>
+            </Section>
+          )}
+
           {/* Liability Section */}
           <Section title="Liability">
             {isEditing ? (
@@ -514,6 +623,7 @@ export function MatterDetailView({
                 <div className="space-y-3">
                   <DataField
                     label="At Fault"
+                    source={getFieldSource("liability.atFault")}
                     value={
                       liability.atFault === "other_party"
                         ? "Other Party"
@@ -536,9 +646,10 @@ export function MatterDetailView({
                     <div>
                       <div className="flex items-center gap-2 mb-2">
                         <p className="text-xs font-medium text-gray-700">Rationale:</p>
-                        {getCitationsForField("liability", "rationale").length > 0 && onCitationClick && (
+                        <FieldSourceBadge source={getFieldSource("liability.rationale")} />
+                        {getCitationForField("liability", "rationale") && onCitationClick && (
                           <CitationBadge
-                            turnIds={getCitationsForField("liability", "rationale")}
+                            citation={getCitationForField("liability", "rationale")}
                             onClickCitation={onCitationClick}
                           />
                         )}
@@ -556,6 +667,7 @@ export function MatterDetailView({
                   <div className="pt-3 border-t">
                     <DataField
                       label="Police Report"
+                      source={getFieldSource("liability.hasPoliceReport")}
                       value={liability.hasPoliceReport ? "Yes" : "No"}
                       inline
                     />
@@ -576,18 +688,22 @@ export function MatterDetailView({
                   <span className="text-sm font-medium">
                     {damages.severity.charAt(0).toUpperCase() + damages.severity.slice(1)}
                   </span>
-                  {getCitationsForField("damages", "severity").length > 0 && onCitationClick && (
+                  <FieldSourceBadge source={getFieldSource("damages.severity")} />
+                  {getCitationForField("damages", "severity") && onCitationClick && (
                     <CitationBadge
-                      turnIds={getCitationsForField("damages", "severity")}
+                      citation={getCitationForField("damages", "severity")}
                       onClickCitation={onCitationClick}
                     />
                   )}
                 </div>
                 {damages.indications.length > 0 ? (
                   <div className="mt-3 space-y-2">
-                    <p className="text-xs font-medium text-gray-700">
-                      Indications ({damages.indications.length}):
-                    </p>
+                    <div className="flex items-center gap-2">
+                      <p className="text-xs font-medium text-gray-700">
+                        Indications ({damages.indications.length}):
+                      </p>
+                      <FieldSourceBadge source={getFieldSource("damages.indications")} />
+                    </div>
                     {damages.indications.map((indication, index) => (
                       <div
                         key={index}
@@ -595,9 +711,9 @@ export function MatterDetailView({
                       >
                         <div className="flex items-start gap-2 mb-1">
                           <p className="text-sm flex-1">{indication.description}</p>
-                          {getCitationsForField("damages", `indications[${index}]`).length > 0 && onCitationClick && (
+                          {getCitationForField("damages", `indications[${index}]`) && onCitationClick && (
                             <CitationBadge
-                              turnIds={getCitationsForField("damages", `indications[${index}]`)}
+                              citation={getCitationForField("damages", `indications[${index}]`)}
                               onClickCitation={onCitationClick}
                             />
                           )}
@@ -639,9 +755,10 @@ export function MatterDetailView({
                     <h4 className="text-xs font-semibold text-blue-900">
                       Client Insurance
                     </h4>
-                    {getCitationsForField("coverage", "clientHasInsurance").length > 0 && onCitationClick && (
+                    <FieldSourceBadge source={getFieldSource("coverage.clientHasInsurance")} />
+                    {getCitationForField("coverage", "clientHasInsurance") && onCitationClick && (
                       <CitationBadge
-                        turnIds={getCitationsForField("coverage", "clientHasInsurance")}
+                        citation={getCitationForField("coverage", "clientHasInsurance")}
                         onClickCitation={onCitationClick}
                       />
                     )}
@@ -652,11 +769,13 @@ export function MatterDetailView({
                       <DataField
                         label="Provider"
                         value={coverage.clientInsuranceProvider}
+                        source={getFieldSource("coverage.clientInsuranceProvider")}
                         inline
                       />
                       <DataField
                         label="Policy #"
                         value={coverage.clientPolicyNumber}
+                        source={getFieldSource("coverage.clientPolicyNumber")}
                         inline
                       />
                       {(coverage.clientCoverageEffectiveDate ||
@@ -705,9 +824,10 @@ export function MatterDetailView({
                     <h4 className="text-xs font-semibold text-amber-900">
                       Other Party Insurance
                     </h4>
-                    {getCitationsForField("coverage", "otherPartyHasInsurance").length > 0 && onCitationClick && (
+                    <FieldSourceBadge source={getFieldSource("coverage.otherPartyHasInsurance")} />
+                    {getCitationForField("coverage", "otherPartyHasInsurance") && onCitationClick && (
                       <CitationBadge
-                        turnIds={getCitationsForField("coverage", "otherPartyHasInsurance")}
+                        citation={getCitationForField("coverage", "otherPartyHasInsurance")}
                         onClickCitation={onCitationClick}
                       />
                     )}
@@ -718,11 +838,13 @@ export function MatterDetailView({
                       <DataField
                         label="Provider"
                         value={coverage.otherPartyInsuranceProvider}
+                        source={getFieldSource("coverage.otherPartyInsuranceProvider")}
                         inline
                       />
                       <DataField
                         label="Policy #"
                         value={coverage.otherPartyPolicyNumber}
+                        source={getFieldSource("coverage.otherPartyPolicyNumber")}
                         inline
                       />
                       {(coverage.otherPartyCoverageEffectiveDate ||
@@ -772,9 +894,10 @@ export function MatterDetailView({
                       <h4 className="text-xs font-semibold text-green-900">
                         Medical Coverage
                       </h4>
-                      {getCitationsForField("coverage", "medicalCoverageAvailable").length > 0 && onCitationClick && (
+                      <FieldSourceBadge source={getFieldSource("coverage.medicalCoverageAvailable")} />
+                      {getCitationForField("coverage", "medicalCoverageAvailable") && onCitationClick && (
                         <CitationBadge
-                          turnIds={getCitationsForField("coverage", "medicalCoverageAvailable")}
+                          citation={getCitationForField("coverage", "medicalCoverageAvailable")}
                           onClickCitation={onCitationClick}
                         />
                       )}
@@ -796,9 +919,10 @@ export function MatterDetailView({
                       <h4 className="text-xs font-semibold text-purple-900">
                         Underinsured/Uninsured Motorist Coverage
                       </h4>
-                      {getCitationsForField("coverage", "underinsuredMotoristCoverage").length > 0 && onCitationClick && (
+                      <FieldSourceBadge source={getFieldSource("coverage.underinsuredMotoristCoverage")} />
+                      {getCitationForField("coverage", "underinsuredMotoristCoverage") && onCitationClick && (
                         <CitationBadge
-                          turnIds={getCitationsForField("coverage", "underinsuredMotoristCoverage")}
+                          citation={getCitationForField("coverage", "underinsuredMotoristCoverage")}
                           onClickCitation={onCitationClick}
                         />
                       )}
@@ -812,14 +936,16 @@ export function MatterDetailView({
                   <DataField
                     label="Policy Limits"
                     value={coverage.policyLimits}
+                    source={getFieldSource("coverage.policyLimits")}
                     inline
                   />
                 )}
                 {coverage.notes && (
                   <div className="pt-2 border-t">
-                    <p className="text-xs text-gray-600 mb-1">
-                      Additional Notes:
-                    </p>
+                    <div className="flex items-center gap-2 mb-1">
+                      <p className="text-xs text-gray-600">Additional Notes:</p>
+                      <FieldSourceBadge source={getFieldSource("coverage.notes")} />
+                    </div>
                     <p className="text-sm text-gray-800">{coverage.notes}</p>
                   </div>
                 )}
@@ -854,11 +980,13 @@ function DataField({
   value,
   inline = false,
   span = 1,
+  source,
 }: {
   label: string;
   value: string | null | undefined;
   inline?: boolean;
   span?: number;
+  source?: FieldSource;
 }) {
   if (inline) {
     return (
@@ -871,13 +999,17 @@ function DataField({
             </span>
           )}
         </span>
+        <FieldSourceBadge source={source} />
       </div>
     );
   }
 
   return (
     <div className={span > 1 ? `col-span-${span}` : ""}>
-      <p className="text-xs text-gray-600 mb-0.5">{label}</p>
+      <div className="flex items-center gap-2 mb-0.5">
+        <p className="text-xs text-gray-600">{label}</p>
+        <FieldSourceBadge source={source} />
+      </div>
       <p className="text-sm font-medium">
         {value || (
           <span className="text-gray-400 italic font-normal">Not provided</span>
@@ -887,6 +1019,37 @@ function DataField({
   );
 }
 
+function getInitialCaseSections(
+  intakeData: MatterDetailViewProps["initialIntakeData"]
+): CaseSectionValues {
+  return {
+    mvaDetails: intakeData.mvaDetails ?? null,
+    dogBiteDetails: intakeData.dogBiteDetails ?? null,
+    premisesDetails: intakeData.premisesDetails ?? null,
+  };
+}
+
+const CASE_DETAIL_BOOLEAN_OPTIONS = [
+  { value: "", label: "Unknown" },
+  { value: "true", label: "Yes" },
+  { value: "false", label: "No" },
+];
+
+function formatCaseDetail(value: CaseDetails[string] | undefined): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+// Form inputs are strings; store case details with their field's own type
+function parseCaseDetail(field: CaseTypeField, input: string): CaseDetails[string] {
+  if (input.trim() === "") return null;
+  if (field.kind === "boolean") return input === "true";
+  if (field.kind === "number") {
+    const number = Number(input);
+    return Number.isNaN(number) ? input : number;
+  }
+  return input;
+}
+
 function EditableField({
   label,
   value,
@@ -895,8 +1058,9 @@ function EditableField({
   type = "text",
   span = 1,
   options,
-  citationTurnIds,
+  citation,
   onCitationClick,
+  source,
 }: {
   label: string;
   value: string;
@@ -905,8 +1069,9 @@ function EditableField({
   type?: "text" | "email" | "date" | "select";
   span?: number;
   options?: { value: string; label: string }[];
-  citationTurnIds?: number[];
-  onCitationClick?: (turnIds: number[]) => void;
+  citation?: Citation;
+  onCitationClick?: (citation: Citation) => void;
+  source?: FieldSource;
 }) {
   const className = span > 1 ? `col-span-${span}` : "";
 
@@ -946,13 +1111,19 @@ function EditableField({
     displayValue = options.find((o) => o.value === value)?.label || value;
   }
 
+  // Flag values that are on the review checklist
+  const needsReview = getReviewReason(source) !== null;
+
   return (
-    <div className={className}>
+    <div
+      className={`${className} ${needsReview ? "rounded bg-orange-50 ring-1 ring-orange-200 -m-1 p-1" : ""}`}
+    >
       <div className="flex items-center gap-2 mb-0.5">
         <p className="text-xs text-gray-600">{label}</p>
-        {citationTurnIds && citationTurnIds.length > 0 && onCitationClick && (
+        <FieldSourceBadge source={source} />
+        {citation && onCitationClick && (
           <CitationBadge
-            turnIds={citationTurnIds}
+            citation={citation}
             onClickCitation={onCitationClick}
           />
         )}
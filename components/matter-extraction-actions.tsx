@@ -0,0 +1,227 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useRef, useState } from "react";
+import {
+  rerunExtraction,
+  uploadTranscriptForMatter,
+} from "@/app/actions/transcript";
+import { TranscriptImportPreview } from "@/components/transcript-import-preview";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TRANSCRIPT_FILE_ACCEPT } from "@/lib/transcripts/files";
+import { applySpeakerNames } from "@/lib/transcripts/parsers";
+import {
+  type ImportedTranscript,
+  readTranscriptFile,
+} from "@/lib/transcripts/read-file";
+
+interface MatterExtractionActionsProps {
+  matterId: number;
+  transcriptCount: number;
+  isProcessing: boolean;
+}
+
+export function MatterExtractionActions({
+  matterId,
+  transcriptCount,
+  isProcessing,
+}: MatterExtractionActionsProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [uploadOpen, setUploadOpen] = useState(false);
+  const [transcriptFile, setTranscriptFile] = useState<File | null>(null);
+  const [imported, setImported] = useState<ImportedTranscript | null>(null);
+  const [speakerNames, setSpeakerNames] = useState<Record<number, string>>({});
+  const [transcriptLabel, setTranscriptLabel] = useState("");
+  const [uploadStatus, setUploadStatus] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleRerun = async () => {
+    setIsSubmitting(true);
+    try {
+      await rerunExtraction(matterId);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to re-run extraction:", error);
+      alert("Failed to re-run extraction. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!transcriptFile) return;
+
+    setIsSubmitting(true);
+    try {
+      if (!imported) {
+        // Parse the file (or transcribe a recording) and stop at the preview
+        setImported(await readTranscriptFile(transcriptFile, setUploadStatus));
+        setSpeakerNames({});
+        return;
+      }
+
+      await uploadTranscriptForMatter(
+        matterId,
+        applySpeakerNames(imported.transcript, speakerNames),
+        transcriptLabel,
+      );
+      setUploadOpen(false);
+      selectFile(null);
+      setTranscriptLabel("");
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to upload transcript:", error);
+      alert(
+        "Failed to upload transcript. Please check the file format and try again.",
+      );
+    } finally {
+      setIsSubmitting(false);
+      setUploadStatus("");
+    }
+  };
+
+  const selectFile = (file: File | null) => {
+    setTranscriptFile(file);
+    setImported(null);
+    setSpeakerNames({});
+  };
+
+  const uploadLabel =
+    transcriptCount > 0 ? "Add Transcript" : "Upload Transcript";
+
+  return (
+    <>
+      {transcriptCount > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={handleRerun}
+          disabled={isSubmitting || isProcessing}
+        >
+          {isSubmitting && !uploadOpen ? "Queueing..." : "Re-run Extraction"}
+        </Button>
+      )}
+      <Dialog open={uploadOpen} onOpenChange={setUploadOpen}>
+        <DialogTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={isProcessing}
+          >
+            {uploadLabel}
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-base">{uploadLabel}</DialogTitle>
+            <DialogDescription className="text-xs">
+              {transcriptCount > 0
+                ? "The AI will re-extract intake data across all of this matter's calls. "
+                : "The AI will extract intake data from the transcript. "}
+              You'll review each suggested change before anything you've entered
+              is overwritten.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleUpload} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="transcriptLabel" className="text-xs">
+                Label (optional)
+              </Label>
+              <Input
+                id="transcriptLabel"
+                value={transcriptLabel}
+                onChange={(e) => setTranscriptLabel(e.target.value)}
+                placeholder="e.g. Follow-up call, Call with spouse"
+                className="h-8 text-sm"
+              />
+            </div>
+            <div className="border-2 border-dashed rounded-md p-6 text-center border-gray-300">
+              {transcriptFile ? (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium text-gray-900">
+                    {transcriptFile.name}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => selectFile(null)}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    Browse Files
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={TRANSCRIPT_FILE_ACCEPT}
+                    onChange={(e) => selectFile(e.target.files?.[0] ?? null)}
+                    className="hidden"
+                  />
+                </>
+              )}
+            </div>
+            {imported && (
+              <TranscriptImportPreview
+                imported={imported}
+                names={speakerNames}
+                onNamesChange={setSpeakerNames}
+              />
+            )}
+            {isSubmitting && uploadStatus && (
+              <p className="text-xs text-center text-gray-600">
+                {uploadStatus}
+              </p>
+            )}
+            <DialogFooter className="gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setUploadOpen(false)}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                size="sm"
+                disabled={isSubmitting || !transcriptFile}
+              >
+                {isSubmitting
+                  ? "Uploading..."
+                  : imported
+                    ? "Upload & Extract"
+                    : "Preview"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { restoreMatterRevision } from "@/app/actions/matters";
+import { Button } from "@/components/ui/button";
+import type { MatterRevisionKind } from "@/db/types";
+import { formatFieldValue } from "@/lib/intake/fields";
+import type { RevisionChange } from "@/lib/matters/revisions";
+
+type RevisionEntry = {
+  id: number;
+  kind: MatterRevisionKind;
+  jobId: number | null;
+  restoredFromId: number | null;
+  userName: string | null; // Who made or accepted the change
+  createdAt: Date;
+  changes: RevisionChange[];
+  restorable: boolean; // Name, review and team changes aren't
+};
+
+interface MatterHistoryPanelProps {
+  revisions: RevisionEntry[];
+  canRestore: boolean;
+}
+
+function describeRevision(revision: RevisionEntry) {
+  switch (revision.kind) {
+    case "extraction":
+      return revision.jobId
+        ? `AI extraction (run #${revision.jobId})`
+        : "AI extraction";
+    case "restore":
+      return `Restored version #${revision.restoredFromId}`;
+    case "brief":
+      return "AI brief regenerated";
+    case "review":
+      return "Reviewed";
+    case "rename":
+      return "Renamed";
+    case "team":
+      return "Team changed";
+    default:
+      return "Manual edit";
+  }
+}
+
+const KIND_STYLES: Record<MatterRevisionKind, string> = {
+  edit: "bg-amber-100 text-amber-800",
+  extraction: "bg-violet-100 text-violet-700",
+  restore: "bg-gray-100 text-gray-700",
+  brief: "bg-violet-100 text-violet-700",
+  review: "bg-green-100 text-green-700",
+  rename: "bg-amber-100 text-amber-800",
+  team: "bg-blue-100 text-blue-700",
+};
+
+export function MatterHistoryPanel({
+  revisions,
+  canRestore,
+}: MatterHistoryPanelProps) {
+  const router = useRouter();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [openRevisionId, setOpenRevisionId] = useState<number | null>(null);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  // The newest revision of the intake fields holds their current values
+  const currentRevisionId = revisions.find(
+    (revision) => revision.restorable,
+  )?.id;
+
+  const handleRestore = async (revision: RevisionEntry) => {
+    if (
+      !window.confirm(
+        `Restore the matter to version #${revision.id}? Your current values will be kept in the history.`,
+      )
+    ) {
+      return;
+    }
+
+    setRestoringId(revision.id);
+    try {
+      await restoreMatterRevision(revision.id);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to restore revision:", error);
+      alert("Failed to restore this version. Please try again.");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-md border">
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-4 py-2 flex items-center justify-between hover:bg-gray-50 transition-colors"
+      >
+        <h2 className="text-sm font-semibold">
+          History{" "}
+          <span className="text-xs font-normal text-gray-500">
+            ({revisions.length} {revisions.length === 1 ? "change" : "changes"})
+          </span>
+        </h2>
+        <svg
+          className={`w-4 h-4 text-gray-600 transition-transform ${isExpanded ? "rotate-180" : ""}`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 9l-7 7-7-7"
+          />
+        </svg>
+      </button>
+
+      {isExpanded && (
+        <div className="border-t divide-y">
+          {revisions.length === 0 && (
+            <p className="px-4 py-3 text-sm text-gray-400 italic">
+              No changes recorded yet
+            </p>
+          )}
+          {revisions.map((revision) => (
+            <div key={revision.id} className="px-4 py-2.5">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-xs text-gray-400">#{revision.id}</span>
+                  <span
+                    className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${KIND_STYLES[revision.kind]}`}
+                  >
+                    {describeRevision(revision)}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {new Date(revision.createdAt).toLocaleString()}
+                    {revision.userName && ` · ${revision.userName}`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setOpenRevisionId(
+                        openRevisionId === revision.id ? null : revision.id,
+                      )
+                    }
+                    className="text-xs text-blue-600 hover:text-blue-700"
+                  >
+                    {openRevisionId === revision.id ? "Hide" : "Show"} changes
+                  </button>
+                  {revision.id === currentRevisionId ? (
+                    <span className="text-xs text-gray-400">Current</span>
+                  ) : (
+                    canRestore &&
+                    revision.restorable && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-6 text-xs"
+                        onClick={() => handleRestore(revision)}
+                        disabled={restoringId !== null}
+                      >
+                        {restoringId === revision.id
+                          ? "Restoring..."
+                          : "Restore this version"}
+                      </Button>
+                    )
+                  )}
+                </div>
+              </div>
+              <p className="mt-1 text-xs text-gray-600 truncate">
+                {revision.changes.map((change) => change.label).join(", ")}
+              </p>
+
+              {openRevisionId === revision.id && (
+                <div className="mt-2 border rounded divide-y">
+                  {revision.changes.map((change) => (
+                    <div
+                      key={change.key}
+                      className="grid grid-cols-[8rem_1fr_1fr] gap-3 px-3 py-1.5 text-xs"
+                    >
+                      <span className="font-medium text-gray-700">
+                        {change.label}
+                      </span>
+                      <span className="text-gray-500 line-through">
+                        {formatFieldValue(change.current)}
+                      </span>
+                      <span className="text-gray-900">
+                        {formatFieldValue(change.proposed)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
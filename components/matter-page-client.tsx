@@ -20,10 +20,15 @@ type MatterPageClientProps = {
     createdAt: Date;
     updatedAt: Date;
   };
+  actions?: ReactNode; // Extra controls shown on the right of the header
   children: ReactNode;
 };
 
-export function MatterPageClient({ matter, children }: MatterPageClientProps) {
+export function MatterPageClient({
+  matter,
+  actions,
+  children,
+}: MatterPageClientProps) {
   const router = useRouter();
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
   const [pendingNavigation, setPendingNavigation] = useState<string | null>(
@@ -81,6 +86,7 @@ export function MatterPageClient({ matter, children }: MatterPageClientProps) {
                   </p>
                 </div>
               </div>
+              {actions && <div className="flex items-center gap-2">{actions}</div>}
             </div>
           </div>
         </div>
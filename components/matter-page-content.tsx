@@ -2,24 +2,35 @@
 
 import { useState } from "react";
 import { MatterDetailView } from "@/components/matter-detail-view";
-import { TranscriptViewer } from "@/components/transcript-viewer";
-import type { Transcript } from "@/lib/ai/types";
+import {
+  type MatterTranscript,
+  TranscriptViewer,
+} from "@/components/transcript-viewer";
+import type {
+  CaseDetails,
+  CaseTypeDefinition,
+  Citation,
+  DogBiteDetails,
+  MvaDetails,
+  PremisesDetails,
+} from "@/db/types";
 
 interface MatterPageContentProps {
   matter: any;
-  transcript: Transcript | null;
-  turns: any[] | null;
+  transcripts: MatterTranscript[];
+  caseTypes: CaseTypeDefinition[];
+  canEdit: boolean; // The signed-in user's role may edit intake data
 }
 
-export function MatterPageContent({ matter, transcript, turns }: MatterPageContentProps) {
-  const [highlightedTurnIds, setHighlightedTurnIds] = useState<number[]>([]);
+export function MatterPageContent({ matter, transcripts, caseTypes, canEdit }: MatterPageContentProps) {
+  const [highlightedCitation, setHighlightedCitation] = useState<Citation | null>(null);
 
-  const handleCitationClick = (turnIds: number[]) => {
-    // If clicking the same citations, deselect (clear highlights)
-    if (JSON.stringify(highlightedTurnIds) === JSON.stringify(turnIds)) {
-      setHighlightedTurnIds([]);
+  const handleCitationClick = (citation: Citation) => {
+    // If clicking the same citation, deselect (clear highlights)
+    if (JSON.stringify(highlightedCitation) === JSON.stringify(citation)) {
+      setHighlightedCitation(null);
     } else {
-      setHighlightedTurnIds(turnIds);
+      setHighlightedCitation(citation);
     }
   };
 
@@ -32,21 +43,28 @@ export function MatterPageContent({ matter, transcript, turns }: MatterPageConte
           intakeFormDataId={matter.intakeFormData.id}
           initialIntakeData={{
             caseType: matter.intakeFormData.caseType as string,
+            caseDetails: matter.intakeFormData.caseDetails as CaseDetails | null,
             liability: matter.intakeFormData.liability as any,
             damages: matter.intakeFormData.damages as any,
             coverage: matter.intakeFormData.coverage as any,
+            mvaDetails: matter.intakeFormData.mvaDetails as MvaDetails | null,
+            dogBiteDetails: matter.intakeFormData.dogBiteDetails as DogBiteDetails | null,
+            premisesDetails: matter.intakeFormData.premisesDetails as PremisesDetails | null,
           }}
+          caseTypes={caseTypes}
+          canEdit={canEdit}
           onCitationClick={handleCitationClick}
         />
       </div>
 
       {/* Right column: Transcript viewer */}
-      {transcript && (
+      {transcripts.length > 0 && (
         <div className="lg:sticky lg:top-4 lg:self-start">
           <TranscriptViewer
-            transcript={transcript}
-            turns={turns || []}
-            highlightedTurnIds={highlightedTurnIds}
+            transcripts={transcripts}
+            highlightedTurnIds={highlightedCitation?.turnIds}
+            highlightedSpans={highlightedCitation?.spans}
+            canEditSpeakers={canEdit}
           />
         </div>
       )}
@@ -0,0 +1,84 @@
+import {
+  type MatterScore,
+  RECOMMENDATION_LABELS,
+  RECOMMENDATION_STYLES,
+  SCORING_FACTOR_LABELS,
+} from "@/lib/intake/scoring";
+
+interface MatterScoreCardProps {
+  score: MatterScore;
+}
+
+function scoreBarColor(score: number) {
+  if (score >= 0.7) return "bg-green-500";
+  if (score >= 0.4) return "bg-amber-500";
+  return "bg-red-500";
+}
+
+/**
+ * The matter's viability score and retention recommendation, with what each
+ * factor contributed under its case type's weights
+ */
+export function MatterScoreCard({ score }: MatterScoreCardProps) {
+  const totalWeight = score.factors.reduce((sum, f) => sum + f.weight, 0);
+
+  return (
+    <div className="mb-4 bg-white rounded-md border px-4 py-3 text-sm">
+      <div className="flex items-center gap-3">
+        <span className="text-xs text-gray-500">Viability</span>
+        <span className="text-lg font-semibold">{score.total}</span>
+        <span className="text-xs text-gray-400">/ 100</span>
+        <span
+          className={`px-2 py-0.5 rounded text-xs font-medium ${RECOMMENDATION_STYLES[score.recommendation]}`}
+        >
+          {RECOMMENDATION_LABELS[score.recommendation]}
+        </span>
+      </div>
+
+      <details className="mt-2">
+        <summary className="cursor-pointer text-xs text-gray-500">
+          Score breakdown
+        </summary>
+        <table className="mt-2 w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-normal pb-1">Factor</th>
+              <th className="font-normal pb-1 w-16 text-right">Weight</th>
+              <th className="font-normal pb-1 w-32 pl-3">Score</th>
+              <th className="font-normal pb-1 w-16 text-right">Points</th>
+              <th className="font-normal pb-1 pl-3">Based on</th>
+            </tr>
+          </thead>
+          <tbody>
+            {score.factors.map((factor) => (
+              <tr key={factor.factor} className="border-t">
+                <td className="py-1">{SCORING_FACTOR_LABELS[factor.factor]}</td>
+                <td className="py-1 text-right text-gray-500">
+                  {totalWeight > 0
+                    ? `${Math.round((100 * factor.weight) / totalWeight)}%`
+                    : "—"}
+                </td>
+                <td className="py-1 pl-3">
+                  <div className="h-1.5 w-24 rounded bg-gray-100">
+                    <div
+                      className={`h-1.5 rounded ${scoreBarColor(factor.score)}`}
+                      style={{ width: `${factor.score * 100}%` }}
+                    />
+                  </div>
+                </td>
+                <td className="py-1 text-right">
+                  {totalWeight > 0
+                    ? ((100 * factor.weight * factor.score) / totalWeight)
+                        .toFixed(1)
+                        .replace(/\.0$/, "")
+                    : "—"}
+                </td>
+                <td className="py-1 pl-3 text-gray-600">{factor.detail}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import {
+  assignUserToMatter,
+  setMatterOwner,
+  unassignUserFromMatter,
+} from "@/app/actions/matters";
+import { Button } from "@/components/ui/button";
+import type { UserRole } from "@/db/types";
+
+type TeamMember = {
+  id: number;
+  firstName: string;
+  lastName: string;
+};
+
+interface MatterTeamPanelProps {
+  matterId: number;
+  currentUserId: number;
+  canManage: boolean; // The owner, or the creator until an attorney owns it
+  owner: TeamMember | null;
+  assignees: TeamMember[];
+  users: Array<TeamMember & { role: UserRole }>; // Everyone who can be made owner or assigned
+}
+
+const SELECT_CLASS_NAME =
+  "h-7 rounded-md border border-input bg-background px-2 text-xs ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+function fullName(member: TeamMember) {
+  return `${member.firstName} ${member.lastName}`;
+}
+
+/**
+ * Who owns the matter and who else is working it. Only the owner (or the
+ * creator, while nobody owns it) can change the team.
+ */
+export function MatterTeamPanel({
+  matterId,
+  currentUserId,
+  canManage,
+  owner,
+  assignees,
+  users,
+}: MatterTeamPanelProps) {
+  const router = useRouter();
+  const [selectedUserId, setSelectedUserId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const attorneys = users.filter((user) => user.role === "attorney");
+  const assignable = users.filter(
+    (user) => user.id !== owner?.id && !assignees.some((a) => a.id === user.id),
+  );
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      router.refresh();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      alert(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAssign = () => {
+    if (!selectedUserId) return;
+    run(async () => {
+      await assignUserToMatter(matterId, Number(selectedUserId));
+      setSelectedUserId("");
+    }, "Failed to assign user");
+  };
+
+  const handleTransfer = (userId: number) => {
+    const user = users.find((u) => u.id === userId);
+    if (
+      userId !== currentUserId &&
+      !confirm(
+        `Make ${user ? fullName(user) : "this user"} the owner? You'll lose the ability to manage this matter's team.`,
+      )
+    ) {
+      return;
+    }
+    run(() => setMatterOwner(matterId, userId), "Failed to change owner");
+  };
+
+  return (
+    <div className="mb-4 bg-white rounded-md border px-4 py-3">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-gray-500">Owner</span>
+          {canManage ? (
+            <select
+              value={owner?.id ?? ""}
+              onChange={(e) => handleTransfer(Number(e.target.value))}
+              disabled={isSaving}
+              className={SELECT_CLASS_NAME}
+            >
+              {!owner && <option value="">Unassigned</option>}
+              {attorneys.map((user) => (
+                <option key={user.id} value={user.id}>
+                  {fullName(user)}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <span className="font-medium">
+              {owner ? fullName(owner) : "Unassigned"}
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-gray-500">Assigned</span>
+          {assignees.length === 0 && (
+            <span className="text-xs text-gray-400 italic">Nobody yet</span>
+          )}
+          {assignees.map((assignee) => (
+            <span
+              key={assignee.id}
+              className="inline-flex items-center gap-1 rounded bg-gray-100 px-2 py-0.5 text-xs"
+            >
+              {fullName(assignee)}
+              {canManage && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    run(
+                      () => unassignUserFromMatter(matterId, assignee.id),
+                      "Failed to remove user",
+                    )
+                  }
+                  disabled={isSaving}
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label={`Remove ${fullName(assignee)}`}
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+          {canManage && assignable.length > 0 && (
+            <>
+              <select
+                value={selectedUserId}
+                onChange={(e) => setSelectedUserId(e.target.value)}
+                disabled={isSaving}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">Add someone…</option>
+                {assignable.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {fullName(user)}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={handleAssign}
+                disabled={!selectedUserId || isSaving}
+              >
+                Assign
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import {
+  getMatterProcessingStatus,
+  retryMatterProcessing,
+} from "@/app/actions/transcript";
+import { Button } from "@/components/ui/button";
+import type { ProcessingStatus } from "@/db/types";
+
+const POLL_INTERVAL_MS = 2000;
+
+type JobStatus = Awaited<ReturnType<typeof getMatterProcessingStatus>>;
+
+interface ProcessingStatusBannerProps {
+  matterId: number;
+  initialStatus: ProcessingStatus | null;
+  canRetry: boolean;
+}
+
+export function ProcessingStatusBanner({
+  matterId,
+  initialStatus,
+  canRetry,
+}: ProcessingStatusBannerProps) {
+  const router = useRouter();
+  const [status, setStatus] = useState<ProcessingStatus | null>(initialStatus);
+  const [job, setJob] = useState<JobStatus>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const isActive = status === "queued" || status === "running";
+
+  // Poll the job while it's queued or running, then refresh the page data
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = async () => {
+      const latest = await getMatterProcessingStatus(matterId);
+      if (cancelled || !latest) return;
+
+      setJob(latest);
+      const nextStatus = latest.status as ProcessingStatus;
+      setStatus(nextStatus);
+
+      if (nextStatus === "succeeded" || nextStatus === "failed") {
+        router.refresh();
+      }
+    };
+
+    poll();
+    if (!isActive) {
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [matterId, isActive, router]);
+
+  const handleRetry = async () => {
+    setIsRetrying(true);
+    try {
+      await retryMatterProcessing(matterId);
+      setStatus("queued");
+    } catch (error) {
+      console.error("Failed to retry processing:", error);
+      alert("Failed to retry processing. Please try again.");
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  if (status === "failed") {
+    return (
+      <div className="mb-4 bg-red-50 border border-red-200 rounded-md px-4 py-3 flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-red-900">
+            Transcript processing failed
+          </p>
+          {job?.error && (
+            <p className="text-xs text-red-700 mt-0.5">{job.error}</p>
+          )}
+        </div>
+        {canRetry && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleRetry}
+            disabled={isRetrying}
+          >
+            {isRetrying ? "Retrying..." : "Retry"}
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (!isActive) {
+    return null;
+  }
+
+  const totalChunks = job?.totalChunks ?? null;
+  const completedChunks = job?.completedChunks ?? 0;
+  const percent =
+    totalChunks && totalChunks > 0
+      ? Math.round((completedChunks / totalChunks) * 100)
+      : 0;
+
+  return (
+    <div className="mb-4 bg-blue-50 border border-blue-200 rounded-md px-4 py-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-blue-900">
+          {status === "queued"
+            ? "Transcript queued for processing..."
+            : totalChunks
+              ? `Extracting intake data: chunk ${Math.min(completedChunks + 1, totalChunks)} of ${totalChunks}`
+              : "Preparing transcript..."}
+        </p>
+        <span className="text-xs text-blue-700">
+          You can leave this page — processing continues in the background.
+        </span>
+      </div>
+      {totalChunks !== null && (
+        <div className="mt-2 h-1.5 w-full bg-blue-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-blue-500 transition-all"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
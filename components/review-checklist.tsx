@@ -0,0 +1,198 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import {
+  confirmFieldReview,
+  markMatterReviewed,
+  resolveFieldConflict,
+} from "@/app/actions/matters";
+import { Button } from "@/components/ui/button";
+import { formatFieldValue } from "@/lib/intake/fields";
+import type { FieldConflict, ReviewItem } from "@/lib/intake/review";
+
+interface ReviewChecklistProps {
+  matterId: number;
+  items: ReviewItem[];
+  conflicts: FieldConflict[];
+  reviewedAt: Date | null;
+  canEdit: boolean; // Without edit rights the checklist is shown read-only
+}
+
+/**
+ * AI values that need a lawyer's confirmation before the matter can be marked
+ * reviewed. Conflicting fields list every value the transcripts gave, so the
+ * right one can be picked. Editing a field in the form also takes it off the list.
+ */
+export function ReviewChecklist({
+  matterId,
+  items,
+  conflicts,
+  reviewedAt,
+  canEdit,
+}: ReviewChecklistProps) {
+  const router = useRouter();
+  const [pendingKey, setPendingKey] = useState<string | null>(null);
+  const [isMarking, setIsMarking] = useState(false);
+
+  const handleConfirm = async (key: string) => {
+    setPendingKey(key);
+    try {
+      await confirmFieldReview(matterId, key);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to confirm field:", error);
+      alert("Failed to confirm this field. Please try again.");
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const handlePick = async (key: string, candidateIndex: number) => {
+    setPendingKey(key);
+    try {
+      await resolveFieldConflict(matterId, key, candidateIndex);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to resolve conflict:", error);
+      alert("Failed to use this value. Please try again.");
+    } finally {
+      setPendingKey(null);
+    }
+  };
+
+  const handleMarkReviewed = async () => {
+    setIsMarking(true);
+    try {
+      await markMatterReviewed(matterId);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to mark matter reviewed:", error);
+      alert(error instanceof Error ? error.message : "Failed to mark reviewed");
+    } finally {
+      setIsMarking(false);
+    }
+  };
+
+  if (reviewedAt && items.length === 0) {
+    return (
+      <div className="mb-4 bg-white rounded-md border px-4 py-2 text-sm text-green-700">
+        ✓ Reviewed {new Date(reviewedAt).toLocaleString()}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 bg-white rounded-md border">
+      <div className="px-4 py-2 flex items-center justify-between gap-3">
+        <div>
+          <h2 className="text-sm font-semibold">Needs review</h2>
+          <p className="text-xs text-gray-500">
+            {items.length === 0
+              ? "Every AI value has been checked"
+              : `${items.length} AI ${items.length === 1 ? "value is" : "values are"} uncertain or contradicted elsewhere in the transcripts. Confirm or edit each one.`}
+          </p>
+        </div>
+        {canEdit && (
+          <Button
+            size="sm"
+            className="h-7 text-xs shrink-0"
+            onClick={handleMarkReviewed}
+            disabled={items.length > 0 || isMarking}
+          >
+            {isMarking ? "Saving..." : "Mark as reviewed"}
+          </Button>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <ul className="border-t divide-y">
+          {items.map((item) => (
+            <li
+              key={item.key}
+              className="px-4 py-2 flex items-start justify-between gap-3"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-medium text-gray-700">
+                    {item.label}
+                  </span>
+                  <span
+                    className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${
+                      item.reason === "conflict"
+                        ? "bg-red-100 text-red-700"
+                        : "bg-orange-100 text-orange-700"
+                    }`}
+                  >
+                    {item.reason === "conflict"
+                      ? "Conflicting"
+                      : `${Math.round(item.confidence.score * 100)}% confidence`}
+                  </span>
+                </div>
+                <p className="text-sm truncate">
+                  {formatFieldValue(item.value)}
+                </p>
+                {conflicts
+                  .find((conflict) => conflict.key === item.key)
+                  ?.candidates.map((candidate, index) => {
+                    const quote = candidate.citation?.spans
+                      ?.map((span) => span.text)
+                      .join(" … ");
+                    return (
+                      <div
+                        // biome-ignore lint/suspicious/noArrayIndexKey: candidates are picked by index
+                        key={index}
+                        className="mt-1 flex items-start gap-2 text-xs"
+                      >
+                        {canEdit && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-6 px-2 text-[11px] shrink-0"
+                            onClick={() => handlePick(item.key, index)}
+                            disabled={pendingKey !== null}
+                          >
+                            Use this
+                          </Button>
+                        )}
+                        <div className="min-w-0">
+                          <p className="truncate">
+                            <span className="font-medium">
+                              {formatFieldValue(candidate.value)}
+                            </span>
+                            <span className="text-gray-500">
+                              {" "}
+                              · {Math.round(candidate.score * 100)}%
+                              {index === 0 && " · current"}
+                              {candidate.citation &&
+                                ` · turn ${candidate.citation.turnIds.join(", ")}`}
+                            </span>
+                          </p>
+                          {quote && (
+                            <p className="text-gray-500 italic truncate">
+                              “{quote}”
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+              </div>
+              {canEdit && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs shrink-0"
+                  onClick={() => handleConfirm(item.key)}
+                  disabled={pendingKey !== null}
+                >
+                  {pendingKey === item.key ? "Saving..." : "Confirm"}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
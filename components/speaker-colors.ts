@@ -0,0 +1,37 @@
+// Color palette for speakers
+const SPEAKER_COLORS = [
+  {
+    bg: "bg-blue-50",
+    text: "text-blue-700",
+    border: "border-blue-200",
+    label: "bg-blue-100",
+  },
+  {
+    bg: "bg-green-50",
+    text: "text-green-700",
+    border: "border-green-200",
+    label: "bg-green-100",
+  },
+  {
+    bg: "bg-purple-50",
+    text: "text-purple-700",
+    border: "border-purple-200",
+    label: "bg-purple-100",
+  },
+  {
+    bg: "bg-orange-50",
+    text: "text-orange-700",
+    border: "border-orange-200",
+    label: "bg-orange-100",
+  },
+  {
+    bg: "bg-pink-50",
+    text: "text-pink-700",
+    border: "border-pink-200",
+    label: "bg-pink-100",
+  },
+] as const;
+
+export function getSpeakerColors(speaker: number) {
+  return SPEAKER_COLORS[speaker % SPEAKER_COLORS.length];
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { getSpeakerColors } from "@/components/speaker-colors";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FORMAT_LABELS } from "@/lib/transcripts/parsers";
+import type { ImportedTranscript } from "@/lib/transcripts/read-file";
+import { getSpeakerName, listSpeakers } from "@/lib/transcripts/speakers";
+
+const SAMPLE_SEGMENTS = 4;
+
+interface TranscriptImportPreviewProps {
+  imported: ImportedTranscript;
+  names: Record<number, string>;
+  onNamesChange: (names: Record<number, string>) => void;
+}
+
+/**
+ * Shows what was parsed from an uploaded file and lets the user name each
+ * speaker before the transcript is stored and processed.
+ */
+export function TranscriptImportPreview({
+  imported,
+  names,
+  onNamesChange,
+}: TranscriptImportPreviewProps) {
+  const { transcript, format } = imported;
+  const speakers = listSpeakers(transcript);
+  const displayName = (speaker: number) =>
+    names[speaker]?.trim() || getSpeakerName(transcript, speaker);
+
+  return (
+    <div className="space-y-3 border rounded-md p-3 bg-gray-50">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-medium text-gray-900">
+          {FORMAT_LABELS[format]}
+        </span>
+        <span className="text-muted-foreground">
+          {transcript.segments.length} segment
+          {transcript.segments.length === 1 ? "" : "s"} · {speakers.length}{" "}
+          speaker{speakers.length === 1 ? "" : "s"}
+        </span>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs">Speakers</Label>
+        {speakers.map((speaker) => {
+          const colors = getSpeakerColors(speaker);
+          return (
+            <div key={speaker} className="flex items-center gap-2">
+              <span
+                className={`shrink-0 w-20 truncate px-2 py-0.5 rounded text-xs font-medium ${colors.label} ${colors.text}`}
+              >
+                Speaker {speaker}
+              </span>
+              <Input
+                value={names[speaker] ?? ""}
+                onChange={(e) =>
+                  onNamesChange({ ...names, [speaker]: e.target.value })
+                }
+                placeholder={getSpeakerName(transcript, speaker)}
+                className="h-7 text-xs bg-white"
+              />
+            </div>
+          );
+        })}
+        {speakers.length > 1 && (
+          <p className="text-xs text-muted-foreground">
+            Giving two speakers the same name merges them.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {transcript.segments.slice(0, SAMPLE_SEGMENTS).map((segment) => (
+          <div
+            // Consecutive lines by one speaker are merged, so this is unique
+            // in practice even for transcripts without timings
+            key={`${segment.speaker}-${segment.start ?? segment.content}`}
+            className="text-xs line-clamp-2"
+          >
+            <span
+              className={`font-medium ${getSpeakerColors(segment.speaker).text}`}
+            >
+              {displayName(segment.speaker)}:
+            </span>{" "}
+            <span className="text-gray-700">{segment.content}</span>
+          </div>
+        ))}
+        {transcript.segments.length > SAMPLE_SEGMENTS && (
+          <div className="text-xs text-muted-foreground">
+            …and {transcript.segments.length - SAMPLE_SEGMENTS} more
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
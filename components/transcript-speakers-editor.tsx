@@ -0,0 +1,137 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { updateTranscriptSpeakers } from "@/app/actions/transcripts";
+import { getSpeakerColors } from "@/components/speaker-colors";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { SpeakerRole, Transcript } from "@/lib/ai/types";
+import {
+  getSpeaker,
+  listSpeakers,
+  SPEAKER_ROLE_LABELS,
+  SPEAKER_ROLES,
+} from "@/lib/transcripts/speakers";
+
+interface TranscriptSpeakersEditorProps {
+  transcriptId: number;
+  transcript: Transcript;
+  onClose: () => void;
+}
+
+type SpeakerDraft = { name: string; role: SpeakerRole | "" };
+
+/**
+ * Correct the names and roles identified for each speaker in a transcript
+ */
+export function TranscriptSpeakersEditor({
+  transcriptId,
+  transcript,
+  onClose,
+}: TranscriptSpeakersEditorProps) {
+  const router = useRouter();
+  const speakers = listSpeakers(transcript);
+  const [drafts, setDrafts] = useState<Record<number, SpeakerDraft>>(() =>
+    Object.fromEntries(
+      speakers.map((speaker) => {
+        const details = getSpeaker(transcript, speaker);
+        return [
+          speaker,
+          { name: details?.name ?? "", role: details?.role ?? "" },
+        ];
+      }),
+    ),
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateDraft = (speaker: number, change: Partial<SpeakerDraft>) => {
+    setDrafts({ ...drafts, [speaker]: { ...drafts[speaker], ...change } });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateTranscriptSpeakers(
+        transcriptId,
+        speakers.map((speaker) => ({
+          speaker,
+          name: drafts[speaker].name,
+          role: drafts[speaker].role || undefined,
+        })),
+      );
+      router.refresh();
+      onClose();
+    } catch (error) {
+      console.error("Failed to save speakers:", error);
+      alert("Failed to save speakers. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-b bg-gray-50 px-4 py-3 space-y-2">
+      {speakers.map((speaker) => {
+        const colors = getSpeakerColors(speaker);
+        return (
+          <div key={speaker} className="flex items-center gap-2">
+            <span
+              className={`shrink-0 w-20 px-2 py-0.5 rounded text-xs font-medium ${colors.label} ${colors.text}`}
+            >
+              Speaker {speaker}
+            </span>
+            <Input
+              value={drafts[speaker].name}
+              onChange={(e) => updateDraft(speaker, { name: e.target.value })}
+              placeholder="Name"
+              className="h-7 text-xs bg-white"
+            />
+            <select
+              value={drafts[speaker].role}
+              onChange={(e) =>
+                updateDraft(speaker, {
+                  role: e.target.value as SpeakerDraft["role"],
+                })
+              }
+              className="h-7 rounded-md border border-input bg-white px-2 text-xs"
+            >
+              <option value="">Unknown role</option>
+              {SPEAKER_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {SPEAKER_ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+          </div>
+        );
+      })}
+      <div className="flex items-center justify-between pt-1">
+        <p className="text-xs text-muted-foreground">
+          Re-run extraction to use updated roles.
+        </p>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={onClose}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? "Saving..." : "Save Speakers"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,67 +1,108 @@
 "use client";
 
+import type { CitationSpan } from "@/db/types";
 import type { Transcript } from "@/lib/ai/types";
+import { getSpeakerColors } from "@/components/speaker-colors";
+import { TranscriptSpeakersEditor } from "@/components/transcript-speakers-editor";
+import {
+  getSpeaker,
+  getSpeakerName,
+  SPEAKER_ROLE_LABELS,
+} from "@/lib/transcripts/speakers";
 import { useEffect, useRef, useState } from "react";
 
-interface TranscriptViewerProps {
-  transcript: Transcript;
+export type MatterTranscript = {
+  id: number;
+  label: string | null;
+  uploadedAt: Date;
+  content: Transcript;
   turns: any[]; // Turn records with IDs from database
+};
+
+interface TranscriptViewerProps {
+  transcripts: MatterTranscript[]; // Oldest first
   highlightedTurnIds?: number[];
+  highlightedSpans?: CitationSpan[]; // Exact quoted text within the highlighted turns
   onHighlightRequest?: (turnIds: number[]) => void;
+  canEditSpeakers?: boolean;
+}
+
+// Seconds → "m:ss" (or "h:mm:ss" for long calls)
+function formatTimestamp(seconds: number) {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+// Split a turn's text so the quoted spans can be marked
+function renderContent(content: string, spans: CitationSpan[]) {
+  const sorted = [...spans].sort((a, b) => a.start - b.start);
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  for (const span of sorted) {
+    if (span.end <= position) continue;
+    const start = Math.max(span.start, position);
+    parts.push(content.slice(position, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200 rounded-sm px-0.5">
+        {content.slice(start, span.end)}
+      </mark>
+    );
+    position = span.end;
+  }
+  parts.push(content.slice(position));
+
+  return parts;
 }
 
-// Color palette for speakers
-const SPEAKER_COLORS = [
-  {
-    bg: "bg-blue-50",
-    text: "text-blue-700",
-    border: "border-blue-200",
-    label: "bg-blue-100",
-  },
-  {
-    bg: "bg-green-50",
-    text: "text-green-700",
-    border: "border-green-200",
-    label: "bg-green-100",
-  },
-  {
-    bg: "bg-purple-50",
-    text: "text-purple-700",
-    border: "border-purple-200",
-    label: "bg-purple-100",
-  },
-  {
-    bg: "bg-orange-50",
-    text: "text-orange-700",
-    border: "border-orange-200",
-    label: "bg-orange-100",
-  },
-  {
-    bg: "bg-pink-50",
-    text: "text-pink-700",
-    border: "border-pink-200",
-    label: "bg-pink-100",
-  },
-] as const;
-
-function getSpeakerColors(speaker: number) {
-  return SPEAKER_COLORS[speaker % SPEAKER_COLORS.length];
+export function getTranscriptLabel(transcript: MatterTranscript, index: number) {
+  return transcript.label || `Transcript ${index + 1}`;
 }
 
 export function TranscriptViewer({
-  transcript,
-  turns,
-  highlightedTurnIds = []
+  transcripts,
+  highlightedTurnIds = [],
+  highlightedSpans = [],
+  canEditSpeakers = false
 }: TranscriptViewerProps) {
   const turnRefs = useRef<Map<number, HTMLDivElement>>(new Map());
   const containerRef = useRef<HTMLDivElement>(null);
+  const [activeTranscriptId, setActiveTranscriptId] = useState(
+    transcripts[0]?.id
+  );
+  const [isEditingSpeakers, setIsEditingSpeakers] = useState(false);
+
+  const activeTranscript =
+    transcripts.find((t) => t.id === activeTranscriptId) ?? transcripts[0];
+  const { content: transcript, turns } = activeTranscript;
 
-  // Scroll to and highlight turns when highlightedTurnIds changes
+  // Citations can point into any of the matter's transcripts - switch to the
+  // one that holds the first cited turn
   useEffect(() => {
     if (highlightedTurnIds.length === 0) return;
 
-    // Get the first highlighted turn
+    const citedTranscript = transcripts.find((t) =>
+      t.turns.some((turn) => turn.id === highlightedTurnIds[0])
+    );
+    if (citedTranscript) {
+      setActiveTranscriptId(citedTranscript.id);
+    }
+  }, [highlightedTurnIds, transcripts]);
+
+  // Scroll to and highlight turns when highlightedTurnIds changes, once the
+  // transcript holding the first of them is showing
+  useEffect(() => {
     const firstTurnId = highlightedTurnIds[0];
+    if (
+      firstTurnId === undefined ||
+      !turns.some((turn) => turn.id === firstTurnId)
+    ) {
+      return;
+    }
+
     const element = turnRefs.current.get(firstTurnId);
 
     if (element && containerRef.current) {
@@ -74,18 +115,69 @@ export function TranscriptViewer({
         behavior: "smooth"
       });
     }
-  }, [highlightedTurnIds]);
+  }, [highlightedTurnIds, turns]);
 
   return (
     <div className="border rounded-md bg-white">
       {/* Header */}
-      <div className="border-b bg-gray-50 px-4 py-2">
-        <h3 className="text-sm font-medium text-gray-900">Raw Transcript</h3>
-        <p className="text-xs text-gray-500 mt-0.5">
-          {transcript.segments.length} segments
-        </p>
+      <div className="border-b bg-gray-50 px-4 py-2 flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900">Raw Transcript</h3>
+          <p className="text-xs text-gray-500 mt-0.5">
+            {transcript.segments.length} segments · Uploaded{" "}
+            {new Date(activeTranscript.uploadedAt).toLocaleDateString()}
+          </p>
+        </div>
+        {canEditSpeakers && !isEditingSpeakers && (
+          <button
+            type="button"
+            onClick={() => setIsEditingSpeakers(true)}
+            className="text-xs text-gray-600 hover:text-gray-900 underline-offset-2 hover:underline"
+          >
+            Edit speakers
+          </button>
+        )}
       </div>
 
+      {isEditingSpeakers && (
+        <TranscriptSpeakersEditor
+          key={activeTranscript.id}
+          transcriptId={activeTranscript.id}
+          transcript={transcript}
+          onClose={() => setIsEditingSpeakers(false)}
+        />
+      )}
+
+      {/* Transcript switcher */}
+      {transcripts.length > 1 && (
+        <div className="border-b flex gap-1 px-2 pt-2 overflow-x-auto">
+          {transcripts.map((t, index) => {
+            const isActive = t.id === activeTranscript.id;
+            const hasCitedTurns = t.turns.some((turn) =>
+              highlightedTurnIds.includes(turn.id)
+            );
+
+            return (
+              <button
+                key={t.id}
+                type="button"
+                onClick={() => setActiveTranscriptId(t.id)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-t-md border border-b-0 whitespace-nowrap ${
+                  isActive
+                    ? "bg-white text-gray-900 border-gray-200"
+                    : "bg-gray-50 text-gray-500 border-transparent hover:text-gray-700"
+                }`}
+              >
+                {getTranscriptLabel(t, index)}
+                {hasCitedTurns && (
+                  <span className="w-1.5 h-1.5 rounded-full bg-blue-500" />
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Transcript content */}
       <div
         ref={containerRef}
@@ -97,10 +189,12 @@ export function TranscriptViewer({
           const turn = turns[index];
           const turnId = turn?.id || index + 1; // Fallback to index + 1 if no turn data
           const isHighlighted = highlightedTurnIds.includes(turnId);
+          const spans = highlightedSpans.filter((span) => span.turnId === turnId);
+          const role = getSpeaker(transcript, segment.speaker)?.role;
 
           return (
             <div
-              key={index}
+              key={turnId}
               ref={(el) => {
                 if (el) {
                   turnRefs.current.set(turnId, el);
@@ -118,8 +212,18 @@ export function TranscriptViewer({
                 <span
                   className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${colors.label} ${colors.text}`}
                 >
-                  Speaker {segment.speaker}
+                  {getSpeakerName(transcript, segment.speaker)}
                 </span>
+                {role && (
+                  <span className="text-xs text-gray-500">
+                    {SPEAKER_ROLE_LABELS[role]}
+                  </span>
+                )}
+                {segment.start !== undefined && (
+                  <span className="text-xs text-gray-400 tabular-nums">
+                    {formatTimestamp(segment.start)}
+                  </span>
+                )}
                 {isHighlighted && (
                   <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-200 text-blue-800">
                     Cited
@@ -129,7 +233,9 @@ export function TranscriptViewer({
 
               {/* Content */}
               <p className={`text-sm leading-relaxed ${colors.text}`}>
-                {segment.content}
+                {spans.length > 0
+                  ? renderContent(segment.content, spans)
+                  : segment.content}
               </p>
             </div>
           );
@@ -0,0 +1,204 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useRef, useState } from "react";
+import { createUser, deleteUser, updateUserRole } from "@/app/actions/users";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { UserRole } from "@/db/types";
+import { ROLE_LABELS, USER_ROLES } from "@/lib/auth/permissions";
+
+type UserEntry = {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  role: UserRole;
+};
+
+interface UserListProps {
+  users: UserEntry[];
+  currentUserId: number;
+}
+
+const SELECT_CLASS_NAME =
+  "h-8 rounded-md border border-input bg-background px-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+export function UserList({ users, currentUserId }: UserListProps) {
+  const router = useRouter();
+  const formRef = useRef<HTMLFormElement>(null);
+  const [pendingId, setPendingId] = useState<number | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleRoleChange = async (user: UserEntry, role: UserRole) => {
+    setPendingId(user.id);
+    try {
+      await updateUserRole(user.id, role);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to change role:", error);
+      alert(error instanceof Error ? error.message : "Failed to change role");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async (user: UserEntry) => {
+    if (!confirm(`Delete ${user.firstName} ${user.lastName}?`)) return;
+
+    setPendingId(user.id);
+    try {
+      await deleteUser(user.id);
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to delete user:", error);
+      alert(error instanceof Error ? error.message : "Failed to delete user");
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleCreate = async (formData: FormData) => {
+    setIsCreating(true);
+    try {
+      await createUser(formData);
+      formRef.current?.reset();
+      router.refresh();
+    } catch (error) {
+      console.error("Failed to create user:", error);
+      alert(error instanceof Error ? error.message : "Failed to create user");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="border rounded-md divide-y">
+        {users.map((user) => (
+          <div
+            key={user.id}
+            className="p-3 flex items-center justify-between gap-3"
+          >
+            <div className="min-w-0">
+              <h3 className="text-sm font-medium">
+                {user.firstName} {user.lastName}
+                {user.id === currentUserId && (
+                  <span className="ml-2 text-xs text-muted-foreground font-normal">
+                    (you)
+                  </span>
+                )}
+              </h3>
+              <p className="text-xs text-muted-foreground">{user.email}</p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <select
+                value={user.role}
+                onChange={(e) =>
+                  handleRoleChange(user, e.target.value as UserRole)
+                }
+                disabled={pendingId !== null}
+                className={SELECT_CLASS_NAME}
+              >
+                {USER_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs text-red-600"
+                onClick={() => handleDelete(user)}
+                disabled={pendingId !== null || user.id === currentUserId}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <form
+        ref={formRef}
+        action={handleCreate}
+        className="border rounded-md p-4"
+      >
+        <h2 className="text-sm font-semibold mb-3">Add a user</h2>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="firstName" className="text-xs">
+              First Name
+            </Label>
+            <Input
+              id="firstName"
+              name="firstName"
+              className="h-8 text-sm"
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="lastName" className="text-xs">
+              Last Name
+            </Label>
+            <Input
+              id="lastName"
+              name="lastName"
+              className="h-8 text-sm"
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="email" className="text-xs">
+              Email
+            </Label>
+            <Input
+              id="email"
+              name="email"
+              type="email"
+              className="h-8 text-sm"
+              required
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="role" className="text-xs">
+              Role
+            </Label>
+            <select
+              id="role"
+              name="role"
+              defaultValue="intake_specialist"
+              className={`${SELECT_CLASS_NAME} w-full`}
+            >
+              {USER_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="password" className="text-xs">
+              Initial Password
+            </Label>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              autoComplete="new-password"
+              className="h-8 text-sm"
+              required
+            />
+          </div>
+        </div>
+        <div className="flex justify-end mt-3">
+          <Button type="submit" size="sm" disabled={isCreating}>
+            {isCreating ? "Adding..." : "Add User"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { and, eq, isNotNull, isNull, or } from "drizzle-orm";
+import { db } from "@/db";
+import { matters } from "@/db/schema";
+
+/**
+ * Matters from before status tracking all start out "new". One whose intake
+ * was filled in by an extraction (which records citations) or that was
+ * reviewed is really in review. Decisions weren't recorded before then, so
+ * none can be inferred.
+ */
+async function backfillMatterStatuses() {
+  const updated = await db
+    .update(matters)
+    .set({ status: "in_review" })
+    .where(
+      and(
+        eq(matters.status, "new"),
+        isNull(matters.currentDecisionId),
+        or(isNotNull(matters.citations), isNotNull(matters.reviewedAt)),
+      ),
+    )
+    .returning({ id: matters.id });
+
+  if (updated.length > 0) {
+    console.log(
+      `[Backfill] Set ${updated.length} extracted or reviewed matter(s) to in review`,
+    );
+  }
+}
+
+/**
+ * Fill in columns added after rows were written. Every step only touches rows
+ * that still need it, so this is safe to run on each start.
+ */
+export async function backfillDatabase() {
+  await backfillMatterStatuses();
+}
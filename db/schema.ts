@@ -1,16 +1,39 @@
-import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
 import { relations } from "drizzle-orm";
+import { integer, real, sqliteTable, text, unique } from "drizzle-orm/sqlite-core";
 
 export const users = sqliteTable("users", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
   email: text("email").notNull().unique(),
+  passwordHash: text("password_hash"), // scrypt hash, see lib/auth/password.ts; null until a password is set
+  role: text("role").notNull().default("intake_specialist"), // 'intake_specialist' | 'paralegal' | 'attorney' | 'admin', see lib/auth/permissions.ts
+});
+
+export const sessions = sqliteTable("sessions", {
+  id: text("id").primaryKey(), // SHA-256 of the token in the session cookie
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id),
+  expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// Kinds of case the firm takes; drives the extraction schemas, prompts and intake UI
+export const caseTypes = sqliteTable("case_types", {
+  id: text("id").primaryKey(), // Stored on intake forms, e.g. 'mva'
+  label: text("label").notNull(),
+  promptHints: text("prompt_hints"), // How to recognise this case type in a call
+  fields: text("fields", { mode: "json" }).notNull().$defaultFn(() => []), // Type-specific fields to extract, see CaseTypeField
+  scoring: text("scoring", { mode: "json" }), // Weighted viability rules, see CaseTypeScoring; null uses the defaults
+  sortOrder: integer("sort_order").notNull().default(0),
 });
 
 export const intakeFormData = sqliteTable("intake_form_data", {
   id: integer("id").primaryKey({ autoIncrement: true }),
-  caseType: text("case_type").notNull(), // 'dog_bites' | 'mva' | 'slip_and_fall'
+  caseType: text("case_type").notNull(), // ID from case_types
   liability: text("liability", { mode: "json" }).notNull(),
   damages: text("damages", { mode: "json" }).notNull(),
   coverage: text("coverage", { mode: "json" })
@@ -21,6 +44,11 @@ export const intakeFormData = sqliteTable("intake_form_data", {
       medicalCoverageAvailable: null,
       underinsuredMotoristCoverage: null,
     })),
+  caseDetails: text("case_details", { mode: "json" }), // Values of the case type's own fields, keyed by field key
+  // Structured sections for the built-in case types; null unless the matter is of that type
+  mvaDetails: text("mva_details", { mode: "json" }),
+  dogBiteDetails: text("dog_bite_details", { mode: "json" }),
+  premisesDetails: text("premises_details", { mode: "json" }),
 });
 
 export const matters = sqliteTable("matters", {
@@ -45,14 +73,40 @@ export const matters = sqliteTable("matters", {
     .unique()
     .references(() => intakeFormData.id),
   citations: text("citations", { mode: "json" }), // JSON object mapping fields to turn IDs
+  processingStatus: text("processing_status"), // 'queued' | 'running' | 'failed' | 'succeeded' | null (manual entry)
+  fieldSources: text("field_sources", { mode: "json" }), // JSON object mapping field keys to their origin (AI run or user edit)
+  reviewedAt: integer("reviewed_at", { mode: "timestamp" }), // Cleared whenever an extraction changes the matter's values
+  ownerId: integer("owner_id").references(() => users.id), // Attorney responsible for the matter (null until an attorney takes it on)
+  createdById: integer("created_by_id").references(() => users.id), // Who created the matter (null for matters created before sign-in existed)
+  status: text("status").notNull().default("new"), // 'new' | 'processing' | 'in_review' | 'accepted' | 'declined' | 'referred_out' | 'conflict', see lib/matters/status.ts
+  currentDecisionId: integer("current_decision_id"), // Decision behind a decided status; cleared when the matter is reopened
+  deletedAt: integer("deleted_at", { mode: "timestamp" }), // Hidden from everyone once set; the matter's rows and revision history are kept
 });
 
+// Paralegals and other staff working a matter alongside its owner
+export const matterAssignments = sqliteTable(
+  "matter_assignments",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    matterId: integer("matter_id")
+      .notNull()
+      .references(() => matters.id),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id),
+    assignedAt: integer("assigned_at", { mode: "timestamp" })
+      .notNull()
+      .$defaultFn(() => new Date()),
+  },
+  (table) => [unique().on(table.matterId, table.userId)]
+);
+
 export const transcripts = sqliteTable("transcripts", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   matterId: integer("matter_id")
     .notNull()
-    .unique()
-    .references(() => matters.id),
+    .references(() => matters.id), // A matter can hold several calls (initial, follow-up, family member...)
+  label: text("label"), // Optional display name, e.g. "Follow-up call"
   content: text("content", { mode: "json" }).notNull(), // Raw JSON transcript
   uploadedAt: integer("uploaded_at", { mode: "timestamp" })
     .notNull()
@@ -67,18 +121,101 @@ export const turns = sqliteTable("turns", {
   turnIndex: integer("turn_index").notNull(), // Sequential index in transcript (0-based)
   speaker: integer("speaker").notNull(), // Speaker identifier from JSON
   content: text("content").notNull(), // Spoken text content
+  startTime: real("start_time"), // Seconds into the recording (audio transcripts only)
+  endTime: real("end_time"),
+});
+
+export const processingJobs = sqliteTable("processing_jobs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  matterId: integer("matter_id")
+    .notNull()
+    .references(() => matters.id),
+  transcriptId: integer("transcript_id")
+    .notNull()
+    .references(() => transcripts.id), // Transcript that triggered the run; extraction covers all of the matter's transcripts
+  status: text("status").notNull().default("queued"), // 'queued' | 'running' | 'failed' | 'succeeded'
+  mode: text("mode").notNull().default("apply"), // 'apply' writes results to the matter, 'preview' stores them for review
+  totalChunks: integer("total_chunks"), // Known once the transcript has been chunked
+  completedChunks: integer("completed_chunks").notNull().default(0),
+  error: text("error"),
+  events: text("events", { mode: "json" }), // Append-only log of progress events, replayed to late subscribers
+  result: text("result", { mode: "json" }), // Merged extraction (preview jobs only)
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  startedAt: integer("started_at", { mode: "timestamp" }),
+  finishedAt: integer("finished_at", { mode: "timestamp" }),
+  resolvedAt: integer("resolved_at", { mode: "timestamp" }), // When a preview was applied or discarded
+});
+
+export const matterRevisions = sqliteTable("matter_revisions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  matterId: integer("matter_id")
+    .notNull()
+    .references(() => matters.id),
+  kind: text("kind").notNull(), // 'edit' | 'extraction' | 'restore' | 'brief' | 'review' | 'rename' | 'team'
+  userId: integer("user_id").references(() => users.id), // Who made the change (null for AI runs and anonymous edits)
+  jobId: integer("job_id").references(() => processingJobs.id), // Extraction run that made the change
+  restoredFromId: integer("restored_from_id"), // Revision whose state was restored
+  changedFields: text("changed_fields", { mode: "json" }).notNull(), // Keys of the changes, see diffRevision in lib/matters/revisions.ts
+  before: text("before", { mode: "json" }).notNull(), // Matter state (intake fields, or name, review and team) before the change
+  after: text("after", { mode: "json" }).notNull(), // Matter state after the change
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+});
+
+// Retention decisions; a reopened matter keeps its earlier decisions as history
+export const matterDecisions = sqliteTable("matter_decisions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  matterId: integer("matter_id")
+    .notNull()
+    .references(() => matters.id),
+  outcome: text("outcome").notNull(), // 'accepted' | 'declined' | 'referred_out' | 'conflict'
+  reason: text("reason").notNull(),
+  referredTo: text("referred_to"), // Firm or attorney the client was sent to (referred_out only)
+  decidedById: integer("decided_by_id")
+    .notNull()
+    .references(() => users.id),
+  decidedAt: integer("decided_at", { mode: "timestamp" })
+    .notNull()
+    .$defaultFn(() => new Date()),
+  // Declination (non-engagement) letter, owed for every outcome but 'accepted'
+  letterSentAt: integer("letter_sent_at", { mode: "timestamp" }),
+  letterSentById: integer("letter_sent_by_id").references(() => users.id),
+  letterMethod: text("letter_method"), // 'email' | 'mail'
+  reopenedAt: integer("reopened_at", { mode: "timestamp" }),
+  reopenedById: integer("reopened_by_id").references(() => users.id),
 });
 
 // Relations
-export const mattersRelations = relations(matters, ({ one }) => ({
+export const usersRelations = relations(users, ({ many }) => ({
+  sessions: many(sessions),
+  ownedMatters: many(matters),
+  assignments: many(matterAssignments),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const mattersRelations = relations(matters, ({ one, many }) => ({
   intakeFormData: one(intakeFormData, {
     fields: [matters.intakeFormDataId],
     references: [intakeFormData.id],
   }),
-  transcript: one(transcripts, {
-    fields: [matters.id],
-    references: [transcripts.matterId],
+  owner: one(users, {
+    fields: [matters.ownerId],
+    references: [users.id],
   }),
+  assignments: many(matterAssignments),
+  decisions: many(matterDecisions),
+  transcripts: many(transcripts),
+  processingJobs: many(processingJobs),
+  revisions: many(matterRevisions),
 }));
 
 export const intakeFormDataRelations = relations(intakeFormData, ({ one }) => ({
@@ -102,3 +239,64 @@ export const turnsRelations = relations(turns, ({ one }) => ({
     references: [transcripts.id],
   }),
 }));
+
+export const processingJobsRelations = relations(processingJobs, ({ one }) => ({
+  matter: one(matters, {
+    fields: [processingJobs.matterId],
+    references: [matters.id],
+  }),
+  transcript: one(transcripts, {
+    fields: [processingJobs.transcriptId],
+    references: [transcripts.id],
+  }),
+}));
+
+export const matterRevisionsRelations = relations(matterRevisions, ({ one }) => ({
+  matter: one(matters, {
+    fields: [matterRevisions.matterId],
+    references: [matters.id],
+  }),
+  user: one(users, {
+    fields: [matterRevisions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const matterAssignmentsRelations = relations(
+  matterAssignments,
+  ({ one }) => ({
+    matter: one(matters, {
+      fields: [matterAssignments.matterId],
+      references: [matters.id],
+    }),
+    user: one(users, {
+      fields: [matterAssignments.userId],
+      references: [users.id],
+    }),
+  })
+);
+
+export const matterDecisionsRelations = relations(
+  matterDecisions,
+  ({ one }) => ({
+    matter: one(matters, {
+      fields: [matterDecisions.matterId],
+      references: [matters.id],
+    }),
+    decidedBy: one(users, {
+      fields: [matterDecisions.decidedById],
+      references: [users.id],
+      relationName: "decidedBy",
+    }),
+    letterSentBy: one(users, {
+      fields: [matterDecisions.letterSentById],
+      references: [users.id],
+      relationName: "letterSentBy",
+    }),
+    reopenedBy: one(users, {
+      fields: [matterDecisions.reopenedById],
+      references: [users.id],
+      relationName: "reopenedBy",
+    }),
+  })
+);
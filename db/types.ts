@@ -1,5 +1,42 @@
-// Case Types
-export type CaseType = "dog_bites" | "mva" | "slip_and_fall";
+// Case Types: IDs from the case_types registry ("mva", "dog_bites", ...)
+export type CaseType = string;
+
+export type CaseTypeFieldKind = "text" | "number" | "boolean" | "date";
+
+// A detail only some case types have, e.g. the dog's breed for a dog bite
+export type CaseTypeField = {
+  key: string; // camelCase, unique within the case type
+  label: string;
+  kind: CaseTypeFieldKind;
+  description?: string; // Tells the extractor what to look for
+};
+
+// Parts of the intake a matter's viability score is built from, see lib/intake/scoring.ts
+export type ScoringFactor =
+  | "liability"
+  | "damages"
+  | "coverage"
+  | "statuteOfLimitations";
+
+// How matters of a case type are scored and when they're recommended for retention
+export type CaseTypeScoring = {
+  weights: Record<ScoringFactor, number>; // Relative importance of each factor
+  statuteOfLimitationsYears: number; // Time to file, counted from the incident date
+  acceptThreshold: number; // 0-100: scores at or above this are recommended for retention
+  declineThreshold: number; // 0-100: scores below this are recommended for declination
+};
+
+export type CaseTypeDefinition = {
+  id: CaseType;
+  label: string;
+  promptHints: string | null;
+  fields: CaseTypeField[];
+  scoring: CaseTypeScoring | null; // null scores with the defaults
+  sortOrder: number;
+};
+
+// Values of a case type's own fields, keyed by CaseTypeField.key
+export type CaseDetails = Record<string, string | number | boolean | null>;
 
 // Severity Levels
 export type Severity = "low" | "medium" | "high";
@@ -7,6 +44,65 @@ export type Severity = "low" | "medium" | "high";
 // At-Fault determination
 export type AtFault = "client" | "other_party" | "shared" | "unclear";
 
+// Transcript processing job status
+export type ProcessingStatus = "queued" | "running" | "failed" | "succeeded";
+
+// "apply" writes extracted values straight to the matter; "preview" holds them for field-level review
+export type ProcessingJobMode = "apply" | "preview";
+
+// Where a field's current value came from
+export type FieldOrigin = "ai" | "user";
+
+// One value the chunks of a transcript extracted for a field, with the citations behind it
+export type FieldCandidate = {
+  value: unknown;
+  score: number; // The model's highest confidence in this value
+  citation?: Citation;
+};
+
+// How sure an extraction run was of a field's value
+export type FieldConfidence = {
+  score: number; // 0-1: the model's own confidence, lowered when chunks disagree
+  candidates?: FieldCandidate[]; // Set when chunks disagree; the first is the value that was kept
+};
+
+export type FieldSource = {
+  origin: FieldOrigin;
+  jobId?: number; // Processing job that extracted the value (AI only)
+  updatedAt: string; // ISO timestamp
+  confidence?: FieldConfidence; // AI only
+  reviewedAt?: string; // When a lawyer confirmed an AI value from the review checklist
+};
+
+// Field key ("clientName", "liability.atFault", ...) → provenance
+export type FieldSources = Record<string, FieldSource>;
+
+// What a user is allowed to do, see lib/auth/permissions.ts
+export type UserRole = "intake_specialist" | "paralegal" | "attorney" | "admin";
+
+// Retention decision on a matter
+export type DecisionOutcome =
+  | "accepted"
+  | "declined"
+  | "referred_out"
+  | "conflict";
+
+// Where a matter is in intake, see lib/matters/status.ts
+export type MatterStatus = "new" | "processing" | "in_review" | DecisionOutcome;
+
+// How a declination letter went out
+export type LetterMethod = "email" | "mail";
+
+// What caused a change to a matter
+export type MatterRevisionKind =
+  | "edit"
+  | "extraction"
+  | "restore"
+  | "brief"
+  | "review" // A field confirmed or the matter marked reviewed
+  | "rename"
+  | "team"; // Owner or assigned staff changed
+
 // Evidence
 export type Evidence = {
   id?: string;
@@ -21,10 +117,20 @@ export type FaultPercentages = {
   otherParty: number; // 0-100
 };
 
+// Character range in a turn's content that a citation quotes
+export type CitationSpan = {
+  turnId: number;
+  start: number;
+  end: number;
+  text: string;
+};
+
 // Citation (references to turn IDs)
 export type Citation = {
   field: string;
   turnIds: number[];
+  spans?: CitationSpan[]; // Quotes that were found in the cited turns
+  verified?: boolean; // false when none of the model's quotes could be found
 };
 
 // Liability
@@ -77,6 +183,49 @@ export type Coverage = {
   citations?: Citation[];
 };
 
+// Vehicle details for motor vehicle accidents
+export type MvaDetails = {
+  clientRole?: string | null; // driver, passenger, pedestrian, cyclist, motorcyclist
+  clientVehicle?: string | null; // Year, make, model, color
+  clientLicensePlate?: string | null;
+  otherDriverName?: string | null;
+  otherVehicle?: string | null;
+  otherLicensePlate?: string | null;
+  seatbeltWorn?: boolean | null;
+  airbagsDeployed?: boolean | null;
+  vehicleTowed?: boolean | null;
+  otherDriverCited?: boolean | null;
+  citations?: Citation[];
+};
+
+// Animal and owner details for dog bites
+export type DogBiteDetails = {
+  dogBreed?: string | null;
+  dogDescription?: string | null; // Size, color, name
+  ownerName?: string | null;
+  ownerAddress?: string | null;
+  priorBiteHistory?: boolean | null;
+  priorBiteDetails?: string | null;
+  leashed?: boolean | null;
+  provoked?: boolean | null;
+  animalControlReported?: boolean | null;
+  rabiesVaccinated?: boolean | null;
+  citations?: Citation[];
+};
+
+// Property and hazard details for slip and fall / premises liability
+export type PremisesDetails = {
+  propertyType?: string | null; // Store, restaurant, apartment complex, ...
+  propertyOwner?: string | null;
+  hazard?: string | null; // The condition that caused the injury
+  warningSignsPresent?: boolean | null;
+  ownerAwareOfHazard?: boolean | null;
+  incidentReportFiled?: boolean | null;
+  surveillanceFootage?: boolean | null;
+  photosTaken?: boolean | null;
+  citations?: Citation[];
+};
+
 // Intake Form Data
 export type IntakeFormData = {
   id: number;
@@ -84,6 +233,11 @@ export type IntakeFormData = {
   liability: Liability;
   damages: Damages;
   coverage: Coverage;
+  caseDetails?: CaseDetails | null;
+  // Only the section for the matter's case type is filled in, see lib/intake/case-sections.ts
+  mvaDetails?: MvaDetails | null;
+  dogBiteDetails?: DogBiteDetails | null;
+  premisesDetails?: PremisesDetails | null;
 };
 
 // Matter
@@ -98,11 +252,43 @@ export type Matter = {
   incidentDate?: string | null;
   incidentLocation?: string | null;
   brief?: string | null; // AI-generated case summary
+  processingStatus?: ProcessingStatus | null; // null for manually created matters
+  fieldSources?: FieldSources | null;
+  reviewedAt?: Date | null; // Set once the review checklist is cleared
+  status: MatterStatus;
   createdAt: Date;
   updatedAt: Date;
   intakeFormDataId: number;
 };
 
+// Background transcript processing job
+export type ProcessingJob = {
+  id: number;
+  matterId: number;
+  transcriptId: number;
+  status: ProcessingStatus;
+  mode: ProcessingJobMode;
+  totalChunks: number | null;
+  completedChunks: number;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  resolvedAt: Date | null;
+};
+
+// Logged change to a matter's intake data (before/after are full matter states)
+export type MatterRevision = {
+  id: number;
+  matterId: number;
+  kind: MatterRevisionKind;
+  userId: number | null;
+  jobId: number | null;
+  restoredFromId: number | null;
+  changedFields: string[];
+  createdAt: Date;
+};
+
 // Matter with related intake form data
 export type MatterWithIntakeForm = Matter & {
   intakeFormData: IntakeFormData;
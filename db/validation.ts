@@ -1,8 +1,68 @@
 import { z } from "zod";
 
-// Enums
-export const CaseTypeEnum = z.enum(["dog_bites", "mva", "slip_and_fall"]);
-export type CaseType = z.infer<typeof CaseTypeEnum>;
+// Case type IDs are registry keys (see case_types), checked against the registry on save
+export const CaseTypeIdSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9_]*$/, "Use lowercase letters, digits and underscores");
+export type CaseType = z.infer<typeof CaseTypeIdSchema>;
+
+export const CaseTypeFieldSchema = z.object({
+  key: z
+    .string()
+    .regex(/^[a-z][a-zA-Z0-9]*$/, "Use a camelCase key, e.g. employerName"),
+  label: z.string().min(1, "Field label is required"),
+  kind: z.enum(["text", "number", "boolean", "date"]),
+  description: z.string().optional(),
+});
+
+const ScoringWeightSchema = z
+  .number()
+  .min(0, "Scoring weights can't be negative");
+
+export const CaseTypeScoringSchema = z
+  .object({
+    weights: z
+      .object({
+        liability: ScoringWeightSchema,
+        damages: ScoringWeightSchema,
+        coverage: ScoringWeightSchema,
+        statuteOfLimitations: ScoringWeightSchema,
+      })
+      .refine(
+        (weights) => Object.values(weights).some((weight) => weight > 0),
+        "At least one scoring weight must be above zero",
+      ),
+    statuteOfLimitationsYears: z
+      .number()
+      .positive("Statute of limitations must be more than zero years"),
+    acceptThreshold: z.number().min(0).max(100),
+    declineThreshold: z.number().min(0).max(100),
+  })
+  .refine(
+    (scoring) => scoring.declineThreshold <= scoring.acceptThreshold,
+    "The decline threshold can't be above the accept threshold",
+  );
+
+export const CaseTypeDefinitionSchema = z.object({
+  id: CaseTypeIdSchema,
+  label: z.string().min(1, "Case type label is required"),
+  promptHints: z.string().nullable(),
+  fields: z
+    .array(CaseTypeFieldSchema)
+    .refine(
+      (fields) =>
+        new Set(fields.map((field) => field.key)).size === fields.length,
+      "Field keys must be unique",
+    ),
+  scoring: CaseTypeScoringSchema.nullable(),
+  sortOrder: z.number().int(),
+});
+export type CaseTypeDefinitionInput = z.infer<typeof CaseTypeDefinitionSchema>;
+
+export const CaseDetailsSchema = z.record(
+  z.string(),
+  z.union([z.string(), z.number(), z.boolean()]).nullable(),
+);
 
 export const SeverityEnum = z.enum(["low", "medium", "high"]);
 export type Severity = z.infer<typeof SeverityEnum>;
@@ -65,12 +125,59 @@ export const CoverageSchema = z.object({
 });
 export type Coverage = z.infer<typeof CoverageSchema>;
 
+// Motor vehicle accident details
+export const MvaDetailsSchema = z.object({
+  clientRole: z.string().nullable().optional(),
+  clientVehicle: z.string().nullable().optional(),
+  clientLicensePlate: z.string().nullable().optional(),
+  otherDriverName: z.string().nullable().optional(),
+  otherVehicle: z.string().nullable().optional(),
+  otherLicensePlate: z.string().nullable().optional(),
+  seatbeltWorn: z.boolean().nullable().optional(),
+  airbagsDeployed: z.boolean().nullable().optional(),
+  vehicleTowed: z.boolean().nullable().optional(),
+  otherDriverCited: z.boolean().nullable().optional(),
+});
+export type MvaDetails = z.infer<typeof MvaDetailsSchema>;
+
+// Dog bite details
+export const DogBiteDetailsSchema = z.object({
+  dogBreed: z.string().nullable().optional(),
+  dogDescription: z.string().nullable().optional(),
+  ownerName: z.string().nullable().optional(),
+  ownerAddress: z.string().nullable().optional(),
+  priorBiteHistory: z.boolean().nullable().optional(),
+  priorBiteDetails: z.string().nullable().optional(),
+  leashed: z.boolean().nullable().optional(),
+  provoked: z.boolean().nullable().optional(),
+  animalControlReported: z.boolean().nullable().optional(),
+  rabiesVaccinated: z.boolean().nullable().optional(),
+});
+export type DogBiteDetails = z.infer<typeof DogBiteDetailsSchema>;
+
+// Slip and fall / premises liability details
+export const PremisesDetailsSchema = z.object({
+  propertyType: z.string().nullable().optional(),
+  propertyOwner: z.string().nullable().optional(),
+  hazard: z.string().nullable().optional(),
+  warningSignsPresent: z.boolean().nullable().optional(),
+  ownerAwareOfHazard: z.boolean().nullable().optional(),
+  incidentReportFiled: z.boolean().nullable().optional(),
+  surveillanceFootage: z.boolean().nullable().optional(),
+  photosTaken: z.boolean().nullable().optional(),
+});
+export type PremisesDetails = z.infer<typeof PremisesDetailsSchema>;
+
 // Intake form data schema
 export const IntakeFormDataSchema = z.object({
-  caseType: CaseTypeEnum,
+  caseType: CaseTypeIdSchema,
   liability: LiabilitySchema,
   damages: DamagesSchema,
   coverage: CoverageSchema,
+  caseDetails: CaseDetailsSchema.nullable().optional(),
+  mvaDetails: MvaDetailsSchema.nullable().optional(),
+  dogBiteDetails: DogBiteDetailsSchema.nullable().optional(),
+  premisesDetails: PremisesDetailsSchema.nullable().optional(),
 });
 export type IntakeFormDataInput = z.infer<typeof IntakeFormDataSchema>;
 
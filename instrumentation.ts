@@ -0,0 +1,9 @@
+export async function register() {
+  // The transcript worker uses better-sqlite3, so it only runs in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { backfillDatabase } = await import("./db/backfill");
+    await backfillDatabase();
+    const { startWorker } = await import("./lib/jobs/queue");
+    await startWorker();
+  }
+}
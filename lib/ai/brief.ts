@@ -0,0 +1,119 @@
+import { generateText } from "ai";
+import {
+  BRIEF_STYLES,
+  type BriefStyle,
+  DEFAULT_BRIEF_STYLE,
+} from "@/lib/intake/brief";
+import { CASE_SECTIONS } from "@/lib/intake/case-sections";
+import { AI_CONFIG } from "./config";
+import { getLanguageModel } from "./providers";
+import type { ChunkExtraction } from "./specialized-extractor";
+
+type TurnInfo = {
+  turnId: number;
+  speaker: number;
+  content: string;
+};
+
+const BRIEF_SYSTEM_PROMPT = `You are a legal intake assistant writing the case brief for a personal injury matter.
+
+You receive the complete intake record, merged from every part of the call(s), and the transcript turns the record cites.
+Summarise the whole case, not just the end of the call. Use only facts from the record and the turns; do not invent names, dates or amounts.
+When the record leaves something unknown, leave it out rather than guessing.
+Reply with the brief only: no heading, no preamble.`;
+
+/**
+ * The turns the record cites most, in call order, capped so the prompt stays
+ * small even for long calls
+ */
+export function selectCitedTurns(
+  record: ChunkExtraction,
+  turns: TurnInfo[],
+): TurnInfo[] {
+  const counts = new Map<number, number>();
+  const citations = [
+    ...(record.clientInfo.citations ?? []),
+    ...(record.liability.citations ?? []),
+    ...(record.damages.citations ?? []),
+    ...(record.coverage.citations ?? []),
+  ];
+  for (const citation of citations) {
+    for (const turnId of citation.turnIds) {
+      counts.set(turnId, (counts.get(turnId) ?? 0) + 1);
+    }
+  }
+
+  const turnsById = new Map(turns.map((turn) => [turn.turnId, turn]));
+  return Array.from(counts.entries())
+    .filter(([turnId]) => turnsById.has(turnId))
+    .sort(([a, countA], [b, countB]) => countB - countA || a - b)
+    .slice(0, AI_CONFIG.BRIEF_MAX_TURNS)
+    .map(([turnId]) => turnsById.get(turnId) as TurnInfo)
+    .sort((a, b) => a.turnId - b.turnId);
+}
+
+function describeRecord(record: ChunkExtraction) {
+  const { clientInfo, liability, damages, coverage } = record;
+  // Citations, scores and the previous brief would only distract the model
+  const {
+    citations: _c,
+    fieldConfidence: _f,
+    brief: _b,
+    ...client
+  } = clientInfo;
+  const { citations: _lc, fieldConfidence: _lf, ...fault } = liability;
+  const { citations: _dc, fieldConfidence: _df, ...harm } = damages;
+  const { citations: _cc, fieldConfidence: _cf, ...insurance } = coverage;
+  const caseSections = CASE_SECTIONS.flatMap((section) => {
+    const details = record[section.key];
+    if (!details) return [];
+    const { citations: _sc, fieldConfidence: _sf, ...rest } = details;
+    return [[section.key, rest]];
+  });
+  return JSON.stringify(
+    {
+      client,
+      liability: fault,
+      damages: harm,
+      coverage: insurance,
+      ...Object.fromEntries(caseSections),
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * Write the case brief from the full merged record, so multi-chunk calls get
+ * a summary of the whole conversation rather than of their last chunk
+ */
+export async function generateBrief(
+  record: ChunkExtraction,
+  turns: TurnInfo[] = [],
+  style: BriefStyle = DEFAULT_BRIEF_STYLE,
+): Promise<string> {
+  const citedTurns = selectCitedTurns(record, turns);
+
+  console.log(
+    `[Brief] Writing a ${style} brief from the merged record and ${citedTurns.length} cited turn(s)...`,
+  );
+
+  const { text } = await generateText({
+    model: getLanguageModel("brief"),
+    system: BRIEF_SYSTEM_PROMPT,
+    prompt: `Intake record:
+${describeRecord(record)}
+
+Cited transcript turns:
+${citedTurns.map((turn) => `Turn ${turn.turnId} (Speaker ${turn.speaker}): ${turn.content}`).join("\n") || "(none)"}
+
+${BRIEF_STYLES[style].instructions}`,
+    temperature: AI_CONFIG.TEMPERATURE,
+  });
+
+  const brief = text.trim();
+  if (!brief) {
+    throw new Error("The model returned an empty brief");
+  }
+  return brief;
+}
@@ -0,0 +1,124 @@
+import { z } from "zod";
+import type { CaseTypeDefinition } from "@/db/types";
+import { DEFAULT_CASE_TYPES } from "@/lib/case-types/defaults";
+import { CASE_SECTIONS } from "@/lib/intake/case-sections";
+import { AI_CONFIG } from "./config";
+import { getModelSpec, type ModelTask } from "./providers";
+import {
+  CASE_SECTION_SYSTEM_PROMPTS,
+  COVERAGE_SYSTEM_PROMPT,
+  DAMAGES_SYSTEM_PROMPT,
+  getClientInfoSystemPrompt,
+  getUserPromptForSection,
+  LIABILITY_SYSTEM_PROMPT,
+} from "./specialized-prompts";
+import {
+  CASE_SECTION_SCHEMAS,
+  CoverageSchema,
+  createClientInfoSchema,
+  DamagesSchema,
+  LiabilitySchema,
+} from "./specialized-schemas";
+import { estimateTokens } from "./token-estimator";
+
+// Input limits by model spec; anything unlisted (Azure deployments, local
+// models) uses LLM_CONTEXT_TOKENS
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^(openai|azure):gpt-5/, 272_000],
+  [/^(openai|azure):gpt-4\.1/, 1_047_576],
+  [/^(openai|azure):gpt-4o/, 128_000],
+  [/^(openai|azure):o\d/, 200_000],
+  [/^anthropic:/, 200_000],
+];
+
+// The client info prompt and schema grow with the case type registry
+const getSections = (
+  caseTypes: CaseTypeDefinition[],
+): Array<{
+  task: ModelTask;
+  name: string;
+  system: string;
+  schema: z.ZodType;
+}> => [
+  {
+    task: "clientInfo",
+    name: "client basic information",
+    system: getClientInfoSystemPrompt(caseTypes),
+    schema: createClientInfoSchema(caseTypes),
+  },
+  {
+    task: "liability",
+    name: "liability information",
+    system: LIABILITY_SYSTEM_PROMPT,
+    schema: LiabilitySchema,
+  },
+  {
+    task: "damages",
+    name: "damages information",
+    system: DAMAGES_SYSTEM_PROMPT,
+    schema: DamagesSchema,
+  },
+  {
+    task: "coverage",
+    name: "insurance coverage information",
+    system: COVERAGE_SYSTEM_PROMPT,
+    schema: CoverageSchema,
+  },
+  ...CASE_SECTIONS.map((section) => ({
+    task: "caseSection" as const,
+    name: section.label.toLowerCase(),
+    system: CASE_SECTION_SYSTEM_PROMPTS[section.key],
+    schema: CASE_SECTION_SCHEMAS[section.key],
+  })),
+];
+
+export type ChunkBudget = {
+  maxChunkTokens: number;
+  overlapTokens: number;
+};
+
+export function getContextWindow(spec: string) {
+  return (
+    CONTEXT_WINDOWS.find(([pattern]) => pattern.test(spec))?.[1] ??
+    AI_CONFIG.DEFAULT_CONTEXT_TOKENS
+  );
+}
+
+/**
+ * How much transcript fits in one chunk. Each section call sends the system
+ * prompt, the output schema, the prompt framing and the chunk twice (as text
+ * and again as the turn-ID listing used for citations), and must leave room
+ * for the answer. The tightest section sets the budget; MAX_CHUNK_TOKENS caps
+ * it because very long chunks extract worse even when they fit.
+ */
+export function getChunkBudget(
+  caseTypes: CaseTypeDefinition[] = DEFAULT_CASE_TYPES,
+): ChunkBudget {
+  const available = getSections(caseTypes).map((section) => {
+    const spec = getModelSpec(section.task);
+    const fixed =
+      estimateTokens(section.system, spec) +
+      estimateTokens(JSON.stringify(z.toJSONSchema(section.schema)), spec) +
+      estimateTokens(getUserPromptForSection(section.name, "", 2, 2), spec);
+
+    return Math.floor(
+      (getContextWindow(spec) - AI_CONFIG.OUTPUT_RESERVE_TOKENS - fixed) /
+        (2 * AI_CONFIG.TURN_LISTING_OVERHEAD),
+    );
+  });
+
+  const maxChunkTokens = Math.min(AI_CONFIG.MAX_CHUNK_TOKENS, ...available);
+  if (maxChunkTokens <= 0) {
+    throw new Error(
+      "The configured model's context window is too small for the extraction prompts",
+    );
+  }
+
+  return {
+    maxChunkTokens,
+    overlapTokens: Math.min(
+      AI_CONFIG.OVERLAP_TOKENS,
+      Math.floor(maxChunkTokens / 4),
+    ),
+  };
+}
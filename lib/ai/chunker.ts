@@ -1,161 +1,130 @@
+import { formatSpeakerLabel } from "@/lib/transcripts/speakers";
 import { AI_CONFIG } from "./config";
-import { estimateTokens, estimateCharactersForTokens } from "./token-estimator";
-import type { Transcript } from "./types";
+import { estimateTokens } from "./token-estimator";
+import type { ChunkWithTurnIds, Transcript } from "./types";
+
+const TURN_SEPARATOR = "\n\n"; // Double newline between segments for clarity
+const SEPARATOR_TOKENS = 1;
 
 /**
- * Find the best position to end a chunk, preferring natural break points
+ * Pick where the next chunk starts: walk back from the end of the current
+ * chunk over whole turns until the overlap budget is spent. Always moves past
+ * `start` so chunking makes progress.
  */
-function findChunkEnd(text: string, start: number, maxTokens: number): number {
-  console.log(
-    `[Chunker] Finding chunk end from position ${start}, max tokens: ${maxTokens}`
-  );
-
-  // Estimate character position for max tokens
-  const estimatedChars = Math.floor(maxTokens / AI_CONFIG.ESTIMATED_TOKENS_PER_CHAR);
-  let endPosition = Math.min(start + estimatedChars, text.length);
-
-  console.log(
-    `[Chunker] Estimated end position: ${endPosition} (${estimatedChars} chars)`
-  );
-
-  // If we're at the end of the text, return it
-  if (endPosition >= text.length) {
-    console.log(`[Chunker] Reached end of text at position ${text.length}`);
-    return text.length;
-  }
-
-  // Find natural break point (end of speaker turn, paragraph, sentence)
-  // Priority: speaker change > paragraph > sentence > word boundary
-  const searchWindow = Math.max(start, endPosition - 200); // Look back up to 200 chars
-
-  // Try to find speaker change: \n[Speaker X]:
-  const speakerMatch = text
-    .substring(searchWindow, endPosition)
-    .lastIndexOf("\n[Speaker ");
-  if (speakerMatch !== -1) {
-    const position = searchWindow + speakerMatch;
-    console.log(`[Chunker] Found speaker change at position ${position}`);
-    return position;
-  }
-
-  // Try to find paragraph break
-  const paragraphMatch = text
-    .substring(searchWindow, endPosition)
-    .lastIndexOf("\n\n");
-  if (paragraphMatch !== -1) {
-    const position = searchWindow + paragraphMatch;
-    console.log(`[Chunker] Found paragraph break at position ${position}`);
-    return position;
-  }
-
-  // Try to find sentence end
-  const sentenceRegex = /[.!?]\s+(?=[A-Z])/g;
-  const textWindow = text.substring(searchWindow, endPosition);
-  let lastMatch = -1;
-  let match;
-
-  while ((match = sentenceRegex.exec(textWindow)) !== null) {
-    lastMatch = match.index;
-  }
-
-  if (lastMatch !== -1) {
-    const position = searchWindow + lastMatch + 1;
-    console.log(`[Chunker] Found sentence end at position ${position}`);
-    return position;
-  }
-
-  // Fallback: word boundary
-  const wordMatch = text.substring(searchWindow, endPosition).lastIndexOf(" ");
-  if (wordMatch !== -1) {
-    const position = searchWindow + wordMatch;
-    console.log(`[Chunker] Found word boundary at position ${position}`);
-    return position;
+function findOverlapStart(
+  turnTokens: number[],
+  start: number,
+  end: number,
+  overlapTokens: number
+): number {
+  let next = end;
+  let tokens = 0;
+
+  while (next - 1 > start) {
+    tokens += turnTokens[next - 1] + SEPARATOR_TOKENS;
+    if (tokens > overlapTokens) break;
+    next--;
   }
 
-  // Last resort: hard cut
-  console.log(`[Chunker] No natural break found, hard cut at ${endPosition}`);
-  return endPosition;
+  return next;
 }
 
 /**
- * Chunk a transcript into overlapping segments for LLM processing
+ * Chunk a transcript into overlapping runs of whole speaker turns for LLM
+ * processing. A turn is never split; one that is larger than the budget on its
+ * own becomes a chunk by itself.
+ *
+ * @param turnIds - Optional: stored turn ID for each segment (by index), so
+ *   chunks can carry exact citation targets
  */
 export function chunkTranscript(
   transcript: Transcript,
   maxChunkTokens: number = AI_CONFIG.MAX_CHUNK_TOKENS,
-  overlapTokens: number = AI_CONFIG.OVERLAP_TOKENS
-): string[] {
+  overlapTokens: number = AI_CONFIG.OVERLAP_TOKENS,
+  turnIds: Array<number | undefined> = []
+): ChunkWithTurnIds[] {
   console.log("\n=== Starting Transcript Chunking ===");
   console.log(`Config: maxChunkTokens=${maxChunkTokens}, overlapTokens=${overlapTokens}`);
   console.log(`Total segments in transcript: ${transcript.segments.length}`);
 
-  // 1. Convert transcript segments to linear text representation
-  const fullText = transcript.segments
-    .map((seg) => `[Speaker ${seg.speaker}]: ${seg.content}`)
-    .join("\n\n"); // Double newline between segments for clarity
-
-  console.log(`Full text length: ${fullText.length} characters`);
+  // 1. Render each segment as a line, labelling speakers with their role and
+  // name when known
+  const lines = transcript.segments.map(
+    (seg) => `[${formatSpeakerLabel(transcript, seg.speaker)}]: ${seg.content}`
+  );
+  const turnTokens = lines.map((line) => estimateTokens(line));
 
-  // 2. Estimate tokens for the full text
-  const estimatedTotalTokens = estimateTokens(fullText);
-  console.log(`Estimated total tokens: ${estimatedTotalTokens}`);
+  const totalTokens = turnTokens.reduce(
+    (sum, tokens) => sum + tokens + SEPARATOR_TOKENS,
+    0
+  );
+  console.log(`Total tokens: ${totalTokens}`);
 
-  // 3. If fits in single chunk, return as-is
-  if (estimatedTotalTokens <= maxChunkTokens) {
+  const buildChunk = (start: number, end: number): ChunkWithTurnIds => {
+    const segmentIndices = Array.from(
+      { length: end - start },
+      (_, i) => start + i
+    );
+    return {
+      text: lines.slice(start, end).join(TURN_SEPARATOR),
+      turnIds: segmentIndices
+        .map((index) => turnIds[index])
+        .filter((id): id is number => id !== undefined),
+      segmentIndices,
+    };
+  };
+
+  // 2. If it fits in a single chunk, return as-is
+  if (totalTokens <= maxChunkTokens) {
     console.log("✓ Entire transcript fits in single chunk");
     console.log("=== Chunking Complete ===\n");
-    return [fullText];
+    return lines.length > 0 ? [buildChunk(0, lines.length)] : [];
   }
 
   console.log(
     `⚠ Transcript exceeds max chunk size, will create multiple chunks`
   );
 
-  // 4. Calculate chunk boundaries with overlap
-  const chunks: string[] = [];
-  let currentPosition = 0;
-  let chunkNumber = 1;
-
-  while (currentPosition < fullText.length) {
-    console.log(`\n--- Processing Chunk ${chunkNumber} ---`);
-    console.log(`Starting at position: ${currentPosition}`);
-
-    // Determine chunk end position
-    const chunkEndPosition = findChunkEnd(
-      fullText,
-      currentPosition,
-      maxChunkTokens
-    );
-
-    // Extract chunk
-    const chunk = fullText.substring(currentPosition, chunkEndPosition);
-    const chunkTokens = estimateTokens(chunk);
-
-    console.log(`Chunk ${chunkNumber} end position: ${chunkEndPosition}`);
-    console.log(
-      `Chunk ${chunkNumber} length: ${chunk.length} chars, ~${chunkTokens} tokens`
-    );
-
-    chunks.push(chunk);
-
-    // Move position forward, accounting for overlap
-    const overlapCharOffset = estimateCharactersForTokens(overlapTokens);
-    const nextPosition = chunkEndPosition - overlapCharOffset;
-
-    console.log(`Overlap: ${overlapCharOffset} chars (~${overlapTokens} tokens)`);
-    console.log(`Next chunk will start at position: ${nextPosition}`);
+  // 3. Fill each chunk with as many whole turns as fit, then step back over
+  // whole turns for the overlap
+  const chunks: ChunkWithTurnIds[] = [];
+  let start = 0;
+
+  while (start < lines.length) {
+    let end = start;
+    let tokens = 0;
+
+    while (
+      end < lines.length &&
+      (end === start ||
+        tokens + turnTokens[end] + SEPARATOR_TOKENS <= maxChunkTokens)
+    ) {
+      tokens += turnTokens[end] + SEPARATOR_TOKENS;
+      end++;
+    }
 
-    // Ensure we make progress (prevent infinite loop)
-    if (nextPosition <= currentPosition) {
+    if (end - start === 1 && turnTokens[start] > maxChunkTokens) {
       console.log(
-        "⚠ Warning: Overlap would not make progress, advancing past current position"
+        `⚠ Turn ${start} alone is ${turnTokens[start]} tokens, over the ${maxChunkTokens} budget; keeping it whole`
       );
-      currentPosition = chunkEndPosition;
-    } else {
-      currentPosition = nextPosition;
     }
 
-    chunkNumber++;
+    chunks.push(buildChunk(start, end));
+    console.log(
+      `Chunk ${chunks.length}: turns ${start}-${end - 1} (${end - start} turns, ${tokens} tokens)`
+    );
+
+    if (end >= lines.length) break;
+    // Leave room for at least the next new turn so no chunk is all overlap
+    start = findOverlapStart(
+      turnTokens,
+      start,
+      end,
+      Math.min(
+        overlapTokens,
+        maxChunkTokens - turnTokens[end] - SEPARATOR_TOKENS
+      )
+    );
   }
 
   console.log(`\n✓ Created ${chunks.length} chunks total`);
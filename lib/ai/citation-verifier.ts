@@ -0,0 +1,241 @@
+import type { Citation, CitationSpan } from "@/db/types";
+import { AI_CONFIG } from "./config";
+import type { ModelCitation } from "./specialized-schemas";
+
+type TurnText = {
+  turnId: number;
+  content: string;
+};
+
+type Word = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+function toWords(text: string): Word[] {
+  return Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), (match) => ({
+    text: match[0].toLowerCase(),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+}
+
+// Word comparisons left for finding one quote, shared by every turn searched
+type SearchBudget = { remaining: number };
+
+// Edit distance in whole words from a quote to every prefix of a window
+function prefixDistances(a: string[], b: Word[]) {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1].text ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous;
+}
+
+/**
+ * Find a quote in a turn, tolerating case, punctuation and a few changed
+ * words. Returns the character range of the best matching run of words, or
+ * null when nothing is similar enough or the budget ran out first.
+ */
+export function findQuote(
+  quote: string,
+  content: string,
+  budget: SearchBudget = { remaining: AI_CONFIG.CITATION_SEARCH_BUDGET },
+): { start: number; end: number; score: number } | null {
+  const quoteWords = toWords(quote).map((word) => word.text);
+  const words = toWords(content);
+  if (quoteWords.length === 0 || words.length === 0) return null;
+
+  const threshold = AI_CONFIG.CITATION_MATCH_THRESHOLD;
+  const slack = Math.ceil(quoteWords.length * (1 - threshold));
+  const minLength = Math.max(1, quoteWords.length - slack);
+  const maxLength = quoteWords.length + slack;
+
+  // A run of words can only be similar enough if it contains most of the
+  // quote's words, which rules out nearly every run in unrelated text
+  // without comparing it word by word
+  const maxDistance = Math.floor((1 - threshold) * maxLength + 1e-9);
+  const minShared = quoteWords.length - maxDistance;
+  const quoteSet = new Set(quoteWords);
+  const shared = [0];
+  for (const word of words) {
+    shared.push(shared[shared.length - 1] + (quoteSet.has(word.text) ? 1 : 0));
+  }
+  if (shared[words.length] < minShared) return null;
+
+  let best: { start: number; end: number; score: number } | null = null;
+
+  for (let i = 0; i + minLength <= words.length; i++) {
+    const end = Math.min(words.length, i + maxLength);
+    if (shared[end] - shared[i] < minShared) continue;
+
+    const window = words.slice(i, end);
+    budget.remaining -= quoteWords.length * window.length;
+    if (budget.remaining < 0) break;
+
+    const distances = prefixDistances(quoteWords, window);
+    for (let length = minLength; length <= window.length; length++) {
+      const score = 1 - distances[length] / Math.max(quoteWords.length, length);
+      if (!best || score > best.score) {
+        best = { start: window[0].start, end: window[length - 1].end, score };
+      }
+    }
+    if (best?.score === 1) break;
+  }
+
+  return best && best.score >= threshold ? best : null;
+}
+
+/**
+ * Locate a quote in the turn it claims to come from, falling back to the
+ * other turns of the chunk when the model quoted the right words but
+ * mislabelled the turn
+ */
+function locateQuote(
+  quote: NonNullable<ModelCitation["quotes"]>[number],
+  turns: TurnText[],
+): CitationSpan | null {
+  const candidates = [
+    ...turns.filter((turn) => turn.turnId === quote.turnId),
+    ...turns.filter((turn) => turn.turnId !== quote.turnId),
+  ];
+  const budget = { remaining: AI_CONFIG.CITATION_SEARCH_BUDGET };
+
+  for (const turn of candidates) {
+    const match = findQuote(quote.text, turn.content, budget);
+    if (match) {
+      return {
+        turnId: turn.turnId,
+        start: match.start,
+        end: match.end,
+        text: turn.content.slice(match.start, match.end),
+      };
+    }
+    if (budget.remaining < 0) {
+      console.warn(
+        `[Citations] Gave up looking for "${quote.text.slice(0, 40)}" after ${AI_CONFIG.CITATION_SEARCH_BUDGET} word comparisons`,
+      );
+      break;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the model's citations against the turns of the chunk they came from.
+ * Citations keep only the turns their quotes were found in, with character
+ * offsets for highlighting; citations without a matching quote are flagged
+ * unverified, and those pointing only at turns outside the chunk are dropped.
+ */
+export function verifyCitations(
+  citations: ModelCitation[] | undefined,
+  turns: TurnText[],
+): Citation[] | undefined {
+  if (!citations) return undefined;
+  if (turns.length === 0) {
+    // No turn IDs to check against (e.g. an unsaved transcript)
+    return citations.map(({ field, turnIds }) => ({ field, turnIds }));
+  }
+
+  const chunkTurnIds = new Set(turns.map((turn) => turn.turnId));
+  const verified: Citation[] = [];
+
+  for (const { field, turnIds, quotes = [] } of citations) {
+    const spans = quotes
+      .map((quote) => locateQuote(quote, turns))
+      .filter((span): span is CitationSpan => span !== null);
+
+    if (spans.length < quotes.length) {
+      console.warn(
+        `[Citations] ${field}: ${quotes.length - spans.length} of ${quotes.length} quote(s) not found in the transcript`,
+      );
+    }
+
+    if (spans.length > 0) {
+      verified.push({
+        field,
+        turnIds: Array.from(new Set(spans.map((span) => span.turnId))).sort(
+          (a, b) => a - b,
+        ),
+        spans,
+        verified: true,
+      });
+      continue;
+    }
+
+    const knownTurnIds = turnIds.filter((id) => chunkTurnIds.has(id));
+    if (knownTurnIds.length === 0) {
+      console.warn(
+        `[Citations] ${field}: dropped, cites turns outside this chunk (${turnIds.join(", ")})`,
+      );
+      continue;
+    }
+    verified.push({ field, turnIds: knownTurnIds, verified: false });
+  }
+
+  return verified;
+}
+
+/**
+ * Combine citations for the same field across chunks. A field counts as
+ * verified when any chunk found its quote in the transcript.
+ */
+export function mergeCitations(citations: Citation[]): Citation[] {
+  const byField = new Map<string, Citation[]>();
+  for (const citation of citations) {
+    byField.set(citation.field, [
+      ...(byField.get(citation.field) ?? []),
+      citation,
+    ]);
+  }
+
+  return Array.from(byField.entries()).map(([field, group]) => {
+    const turnIds = new Set(group.flatMap((c) => c.turnIds));
+    // Overlapping chunks can quote the same words twice
+    const spans = new Map(
+      group
+        .flatMap((c) => c.spans ?? [])
+        .map((span) => [`${span.turnId}:${span.start}:${span.end}`, span]),
+    );
+    const checked = group.filter((c) => c.verified !== undefined);
+
+    return {
+      field,
+      turnIds: Array.from(turnIds).sort((a, b) => a - b),
+      ...(spans.size > 0 && { spans: Array.from(spans.values()) }),
+      ...(checked.length > 0 && {
+        verified: checked.some((c) => c.verified),
+      }),
+    };
+  });
+}
+
+/**
+ * Point per-item citations ("indications[2]") at the items' new positions
+ * after a list was deduplicated or rewritten. Citations of items that no
+ * longer exist are dropped; citations of other fields are kept as they are.
+ */
+export function renumberListCitations(
+  citations: Citation[],
+  listField: string,
+  newIndex: Map<number, number>,
+): Citation[] {
+  const pattern = new RegExp(`^${listField}\\[(\\d+)\\]$`);
+  return citations.flatMap((citation) => {
+    const match = pattern.exec(citation.field);
+    if (!match) return [citation];
+    const index = newIndex.get(Number(match[1]));
+    return index === undefined
+      ? []
+      : [{ ...citation, field: `${listField}[${index}]` }];
+  });
+}
@@ -0,0 +1,169 @@
+import type { Citation, FieldCandidate, FieldConfidence } from "@/db/types";
+import { fieldValuesEqual, INTAKE_FIELDS } from "@/lib/intake/fields";
+import { mergeCitations } from "./citation-verifier";
+import { AI_CONFIG } from "./config";
+import type { ChunkExtraction } from "./specialized-extractor";
+import type { ModelFieldConfidence } from "./specialized-schemas";
+
+// Field key ("clientName", "liability.atFault", ...) → confidence
+export type FieldConfidences = Record<string, FieldConfidence>;
+
+type CandidateSection = {
+  fieldConfidence?: ModelFieldConfidence[];
+  citations?: Citation[];
+};
+
+// Built up from every chunk by the merger rather than picked from one, so
+// chunks reporting different values is expected, not a conflict
+const ACCUMULATED_FIELDS = new Set([
+  "brief",
+  "caseDetails",
+  "liability.rationale",
+  "damages.severity",
+  "damages.indications",
+]);
+
+function isProvided(value: unknown) {
+  if (Array.isArray(value)) return value.length > 0;
+  return !fieldValuesEqual(value, null);
+}
+
+/**
+ * The model's confidence in one field of a section, or the default when it
+ * didn't say. List fields are scored per item ("indications[2]"); the weakest
+ * item counts.
+ */
+export function getModelScore(section: CandidateSection, field: string) {
+  const scores = (section.fieldConfidence ?? [])
+    .filter((c) => citesField(c, field))
+    .map((c) => c.score);
+  return scores.length > 0
+    ? Math.min(...scores)
+    : AI_CONFIG.DEFAULT_FIELD_CONFIDENCE;
+}
+
+function citesField(citation: { field: string }, field: string) {
+  return citation.field === field || citation.field.startsWith(`${field}[`);
+}
+
+/**
+ * Group the values chunks extracted for a field, each with the citations
+ * behind it. Candidates are ordered by the model's combined confidence across
+ * chunks; ties go to the later chunk, which has heard more of the call.
+ */
+export function collectCandidates(
+  sections: CandidateSection[],
+  field: string,
+): FieldCandidate[] {
+  const candidates: Array<
+    FieldCandidate & { weight: number; citations: Citation[]; order: number }
+  > = [];
+
+  sections.forEach((section, order) => {
+    const value = (section as Record<string, unknown>)[field];
+    if (!isProvided(value)) return;
+
+    const score = getModelScore(section, field);
+    const citations = (section.citations ?? []).filter((c) =>
+      citesField(c, field),
+    );
+    const existing = candidates.find((c) => fieldValuesEqual(c.value, value));
+    if (existing) {
+      existing.weight += score;
+      existing.score = Math.max(existing.score, score);
+      existing.citations.push(...citations);
+      existing.order = order;
+    } else {
+      candidates.push({ value, score, weight: score, citations, order });
+    }
+  });
+
+  return candidates
+    .sort((a, b) => b.weight - a.weight || b.order - a.order)
+    .map(({ value, score, citations }) => {
+      const [citation] = mergeCitations(citations);
+      return { value, score, ...(citation && { citation }) };
+    });
+}
+
+/**
+ * The value the chunks back most strongly (see collectCandidates)
+ */
+export function pickSupportedValue<
+  T extends CandidateSection,
+  K extends keyof T & string,
+>(sections: T[], field: K): T[K] | null {
+  return (collectCandidates(sections, field)[0]?.value as T[K]) ?? null;
+}
+
+/**
+ * Merge a section's citations across chunks, keeping only the citations
+ * behind the chosen value for fields picked by pickSupportedValue. Citing the
+ * turns of a rejected value would send the lawyer to the wrong part of the call.
+ */
+export function citeSupportedValues(
+  sections: CandidateSection[],
+  fields: string[],
+): Citation[] {
+  return mergeCitations(sections.flatMap((s) => s.citations ?? [])).flatMap(
+    (citation) => {
+      if (!fields.includes(citation.field)) return [citation];
+      const candidates = collectCandidates(sections, citation.field);
+      if (candidates.length < 2) return [citation];
+      return candidates[0].citation ? [candidates[0].citation] : [];
+    },
+  );
+}
+
+/**
+ * Score every extracted field of a merged result: the model's highest
+ * confidence in the merged value, scaled by how much of the chunks' combined
+ * confidence agrees with it. When chunks disagree, every value they gave is
+ * kept, the merged value first and the rest ranked by their support, so a
+ * lawyer can pick the right one however sure each chunk was.
+ */
+export function scoreFieldConfidence(
+  extractions: ChunkExtraction[],
+  merged: ChunkExtraction,
+): FieldConfidences {
+  const result: FieldConfidences = {};
+
+  for (const field of INTAKE_FIELDS) {
+    const value = (
+      merged[field.section] as Record<string, unknown> | undefined
+    )?.[field.citationField];
+    if (!isProvided(value)) continue;
+
+    // Case-type sections only exist on the chunks that extracted them
+    const sections = extractions.flatMap((e) => e[field.section] ?? []);
+    if (ACCUMULATED_FIELDS.has(field.key)) {
+      const scores = sections
+        .filter((s) =>
+          isProvided((s as Record<string, unknown>)[field.citationField]),
+        )
+        .map((s) => getModelScore(s, field.citationField));
+      result[field.key] = {
+        score: Math.max(AI_CONFIG.DEFAULT_FIELD_CONFIDENCE, ...scores),
+      };
+      continue;
+    }
+
+    const candidates = collectCandidates(sections, field.citationField);
+    const chosen = candidates.find((c) => fieldValuesEqual(c.value, value));
+    const total = candidates.reduce((sum, c) => sum + c.score, 0);
+    // One chunk stating the value plainly is enough; disagreement lowers it
+    const score = chosen
+      ? chosen.score * (total > 0 ? chosen.score / total : 1)
+      : 0;
+
+    result[field.key] = {
+      score: Math.round(score * 100) / 100,
+      ...(candidates.length > 1 &&
+        chosen && {
+          candidates: [chosen, ...candidates.filter((c) => c !== chosen)],
+        }),
+    };
+  }
+
+  return result;
+}
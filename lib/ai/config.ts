@@ -1,8 +1,31 @@
 export const AI_CONFIG = {
-  MAX_CHUNK_TOKENS: 30000, // Safe limit under most LLM windows
+  MAX_CHUNK_TOKENS: 30000, // Upper bound; smaller windows get less, see budget.ts
   OVERLAP_TOKENS: 2000, // ~7% overlap for context preservation
-  ESTIMATED_TOKENS_PER_CHAR: 0.25, // Rough heuristic (4 chars = 1 token)
-  MODEL: "gpt-5", // GPT-4o model
+  DEFAULT_CONTEXT_TOKENS: Number(process.env.LLM_CONTEXT_TOKENS ?? 32768), // For models we don't know the window of
+  OUTPUT_RESERVE_TOKENS: 4096, // Left free for the structured answer
+  TURN_LISTING_OVERHEAD: 1.1, // "Turn N (Speaker N): " prefixes on the repeated turn listing
+  MODEL: process.env.LLM_MODEL ?? "openai:gpt-5", // "<provider>:<model>", see providers.ts
+  // Per-task overrides, e.g. LLM_MODEL_LIABILITY=anthropic:claude-sonnet-4-5
+  TASK_MODELS: {
+    clientInfo: process.env.LLM_MODEL_CLIENT_INFO,
+    liability: process.env.LLM_MODEL_LIABILITY,
+    damages: process.env.LLM_MODEL_DAMAGES,
+    coverage: process.env.LLM_MODEL_COVERAGE,
+    caseSection: process.env.LLM_MODEL_CASE_SECTION, // Vehicle/animal/premises details
+    speakerRoles: process.env.LLM_MODEL_SPEAKER_ROLES,
+    diarization: process.env.LLM_MODEL_DIARIZATION,
+    extraction: process.env.LLM_MODEL_EXTRACTION, // Single-call extractor
+    consolidation: process.env.LLM_MODEL_CONSOLIDATION,
+    brief: process.env.LLM_MODEL_BRIEF,
+  },
+  LOCAL_BASE_URL: process.env.LOCAL_LLM_BASE_URL ?? "http://localhost:11434/v1", // Ollama; llama.cpp serves on :8080/v1
+  FIXTURES: process.env.LLM_FIXTURES as "record" | "replay" | undefined, // Record/replay model calls, see fixtures.ts
+  FIXTURES_DIR: process.env.LLM_FIXTURES_DIR ?? "fixtures/llm",
+  CONSOLIDATE: process.env.LLM_CONSOLIDATE === "true", // Semantic dedupe of merged rationale/indications, see consolidator.ts
+  BRIEF_MAX_TURNS: 40, // Most-cited turns sent along with the merged record when writing the brief
+  DEFAULT_FIELD_CONFIDENCE: 0.5, // For values the model didn't score, so they get reviewed
+  CITATION_MATCH_THRESHOLD: 0.85, // Word-level similarity a quote needs to count as found in its turn
+  CITATION_SEARCH_BUDGET: 2_000_000, // Word comparisons spent looking for one quote before it's reported as not found
   TEMPERATURE: 0.1, // Low temp for consistent extraction
   MAX_RETRIES: 2, // Retry failed chunks
 } as const;
@@ -0,0 +1,167 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { mergeCitations, renumberListCitations } from "./citation-verifier";
+import { getLanguageModel } from "./providers";
+import type { ChunkExtraction } from "./specialized-extractor";
+import type { Damages, Liability } from "./specialized-schemas";
+
+const CONSOLIDATION_SYSTEM_PROMPT = `You are cleaning up the liability and damages notes of a personal injury intake. The notes were extracted separately from overlapping parts of the call, so the same fact often appears several times in different words.
+
+You receive a numbered list of injuries/damages and a numbered list of liability rationale points.
+
+Injuries/damages:
+- Combine entries that describe the same injury or damage, even when worded differently (e.g. "Fractured left wrist" and "Broken left wrist")
+- Keep entries that are genuinely different separate (e.g. a left and a right wrist injury)
+- For each combined entry give the clearest description and the highest severity of the entries it combines
+- sources: the numbers of every original entry it combines. Every original entry must appear in exactly one sources list
+
+Liability rationale:
+- Rewrite the points into one coherent list without repeating a fact
+- Keep every distinct fact; do not add facts that are not in the original points
+- sources: the numbers of the original points each rewritten point is based on`;
+
+const ConsolidationSchema = z.object({
+  indications: z.array(
+    z.object({
+      description: z.string(),
+      severity: z.enum(["low", "medium", "high"]),
+      sources: z.array(z.number().int()),
+    }),
+  ),
+  rationale: z.array(
+    z.object({
+      point: z.string(),
+      sources: z.array(z.number().int()),
+    }),
+  ),
+});
+
+type Consolidation = z.infer<typeof ConsolidationSchema>;
+
+function getRationalePoints(rationale: string) {
+  return rationale
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Rebuild the indications from the model's groups. Evidence and per-item
+ * citations of every combined entry carry over; entries the model left out
+ * are kept unchanged so nothing extracted is lost.
+ */
+function applyIndications(
+  damages: Damages,
+  groups: Consolidation["indications"],
+): Damages {
+  const original = damages.indications;
+  const indications: Damages["indications"] = [];
+  const newIndex = new Map<number, number>();
+
+  for (const group of groups) {
+    const sources = group.sources.filter(
+      (source) =>
+        source >= 0 && source < original.length && !newIndex.has(source),
+    );
+    if (sources.length === 0) continue;
+
+    const evidence = sources.flatMap(
+      (source) => original[source].evidence ?? [],
+    );
+    for (const source of sources) {
+      newIndex.set(source, indications.length);
+    }
+    indications.push({
+      description: group.description,
+      severity: group.severity,
+      ...(evidence.length > 0 && { evidence }),
+    });
+  }
+
+  original.forEach((indication, index) => {
+    if (newIndex.has(index)) return;
+    newIndex.set(index, indications.length);
+    indications.push(indication);
+  });
+
+  return {
+    ...damages,
+    indications,
+    citations: damages.citations
+      ? mergeCitations(
+          renumberListCitations(damages.citations, "indications", newIndex),
+        )
+      : undefined,
+  };
+}
+
+/**
+ * Rewrite the rationale as one list. Points the model dropped are appended
+ * as they were. Rationale citations are per field, so they carry over as is.
+ */
+function applyRationale(
+  liability: Liability,
+  rewritten: Consolidation["rationale"],
+): Liability {
+  const original = getRationalePoints(liability.rationale);
+  const covered = new Set(rewritten.flatMap((point) => point.sources));
+  const points = [
+    ...rewritten.map((point) => point.point.replace(/^[-*]\s*/, "").trim()),
+    ...original
+      .filter((_, index) => !covered.has(index))
+      .map((point) => point.replace(/^[-*]\s*/, "")),
+  ].filter(Boolean);
+
+  return {
+    ...liability,
+    rationale: points.map((point) => `- ${point}`).join("\n"),
+  };
+}
+
+/**
+ * Optional pass after merging chunks: ask the model to combine indications
+ * that describe the same injury in different words and to rewrite the
+ * liability rationale into one coherent list. Citations keep pointing at
+ * every turn the combined entries were cited from. On failure the merged
+ * extraction is returned unchanged.
+ */
+export async function consolidateExtraction(
+  merged: ChunkExtraction,
+): Promise<ChunkExtraction> {
+  const indications = merged.damages.indications;
+  const points = getRationalePoints(merged.liability.rationale);
+
+  if (indications.length < 2 && points.length < 2) {
+    console.log("[Consolidator] Nothing to consolidate");
+    return merged;
+  }
+
+  console.log(
+    `[Consolidator] Consolidating ${indications.length} indication(s) and ${points.length} rationale point(s)...`,
+  );
+
+  try {
+    const { object } = await generateObject({
+      model: getLanguageModel("consolidation"),
+      schema: ConsolidationSchema,
+      system: CONSOLIDATION_SYSTEM_PROMPT,
+      prompt: `Injuries/damages:
+${indications.map((indication, index) => `[${index}] ${indication.description} (severity: ${indication.severity})`).join("\n") || "(none)"}
+
+Liability rationale points:
+${points.map((point, index) => `[${index}] ${point}`).join("\n") || "(none)"}`,
+    });
+
+    const damages = applyIndications(merged.damages, object.indications);
+    const liability = applyRationale(merged.liability, object.rationale);
+
+    console.log(
+      `[Consolidator] Indications: ${indications.length} → ${damages.indications.length}, rationale points: ${points.length} → ${getRationalePoints(liability.rationale).length}`,
+    );
+
+    return { ...merged, damages, liability };
+  } catch (error) {
+    console.error("[Consolidator] Failed, keeping the merged result:", error);
+    return merged;
+  }
+}
@@ -1,6 +1,6 @@
 import { generateObject } from "ai";
-import { openai } from "@ai-sdk/openai";
 import { AI_CONFIG } from "./config";
+import { getLanguageModel, getModelSpec } from "./providers";
 import { SYSTEM_PROMPT, getUserPrompt } from "./prompts";
 import { ExtractionSchema, type Extraction } from "./schema";
 
@@ -17,12 +17,12 @@ export async function extractFromChunk(
   );
   console.log(`[Extractor] Chunk length: ${chunkText.length} characters`);
   console.log(
-    `[Extractor] Using model: ${AI_CONFIG.MODEL}, temperature: ${AI_CONFIG.TEMPERATURE}`
+    `[Extractor] Using model: ${getModelSpec("extraction")}, temperature: ${AI_CONFIG.TEMPERATURE}`
   );
 
   try {
     const result = await generateObject({
-      model: openai(AI_CONFIG.MODEL),
+      model: getLanguageModel("extraction"),
       schema: ExtractionSchema,
       system: SYSTEM_PROMPT,
       prompt: getUserPrompt(chunkText, chunkNumber, totalChunks),
@@ -0,0 +1,160 @@
+import {
+  type JSONSchema7,
+  type JSONSchema7Definition,
+  type LanguageModelV2,
+  type LanguageModelV2CallOptions,
+  NoSuchModelError,
+  type ProviderV2,
+} from "@ai-sdk/provider";
+
+export type FakeResponder = (
+  options: LanguageModelV2CallOptions,
+  modelId: string,
+) => unknown;
+
+/**
+ * Follow a local JSON pointer ("#/definitions/foo") from the schema root
+ */
+function resolvePointer(root: unknown, ref: string): unknown {
+  return ref
+    .replace(/^#\//, "")
+    .split("/")
+    .reduce<unknown>((node, key) => {
+      if (Array.isArray(node)) return node[Number(key)];
+      if (typeof node === "object" && node !== null) {
+        return (node as Record<string, unknown>)[key];
+      }
+      return undefined;
+    }, root);
+}
+
+/**
+ * Build the smallest value that satisfies a JSON schema: first enum value,
+ * null where allowed, required properties only, `minItems` array entries.
+ */
+export function sampleFromSchema(
+  schema: JSONSchema7Definition,
+  root: JSONSchema7 = schema as JSONSchema7,
+): unknown {
+  if (typeof schema === "boolean") return null;
+
+  if (schema.$ref) {
+    const target = resolvePointer(root, schema.$ref);
+    return typeof target === "object" && target !== null
+      ? sampleFromSchema(target as JSONSchema7, root)
+      : null;
+  }
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum) return schema.enum[0];
+  if (schema.default !== undefined) return schema.default;
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    const nullable = variants.some(
+      (v) => typeof v === "object" && v.type === "null",
+    );
+    return nullable ? null : sampleFromSchema(variants[0], root);
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.includes("null")) return null;
+
+  switch (types[0]) {
+    case "object":
+      return Object.fromEntries(
+        (schema.required ?? []).map((key) => [
+          key,
+          sampleFromSchema(schema.properties?.[key] ?? {}, root),
+        ]),
+      );
+    case "array": {
+      const items = Array.isArray(schema.items)
+        ? schema.items[0]
+        : schema.items;
+      return Array.from({ length: schema.minItems ?? 0 }, () =>
+        sampleFromSchema(items ?? {}, root),
+      );
+    }
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+function defaultResponder(options: LanguageModelV2CallOptions) {
+  const format = options.responseFormat;
+  if (format?.type === "json") {
+    return format.schema ? sampleFromSchema(format.schema) : {};
+  }
+  return "";
+}
+
+/**
+ * Deterministic, offline model for tests and demos. Structured calls get the
+ * minimal object their schema allows (or whatever `respond` returns); no
+ * network, no API key, same answer every time.
+ */
+export function createFakeModel(
+  modelId = "default",
+  respond: FakeResponder = defaultResponder,
+): LanguageModelV2 {
+  const generate = (options: LanguageModelV2CallOptions) => {
+    const output = respond(options, modelId);
+    const text = typeof output === "string" ? output : JSON.stringify(output);
+    return {
+      text,
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+    };
+  };
+
+  return {
+    specificationVersion: "v2",
+    provider: "fake",
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const { text, usage } = generate(options);
+      return {
+        content: [{ type: "text", text }],
+        finishReason: "stop",
+        usage,
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const { text, usage } = generate(options);
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: "stream-start", warnings: [] });
+            controller.enqueue({ type: "text-start", id: "0" });
+            controller.enqueue({ type: "text-delta", id: "0", delta: text });
+            controller.enqueue({ type: "text-end", id: "0" });
+            controller.enqueue({ type: "finish", finishReason: "stop", usage });
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
+
+export function createFakeProvider(respond?: FakeResponder): ProviderV2 {
+  return {
+    languageModel: (modelId) => createFakeModel(modelId, respond),
+    textEmbeddingModel: (modelId) => {
+      throw new NoSuchModelError({ modelId, modelType: "textEmbeddingModel" });
+    },
+    imageModel: (modelId) => {
+      throw new NoSuchModelError({ modelId, modelType: "imageModel" });
+    },
+  };
+}
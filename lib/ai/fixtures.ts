@@ -0,0 +1,102 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  LanguageModelV2CallOptions,
+  LanguageModelV2Middleware,
+} from "@ai-sdk/provider";
+
+export type FixtureMode = "record" | "replay";
+
+type Fixture = {
+  key: string;
+  model: string; // For reference only, not part of the key
+  request: Pick<LanguageModelV2CallOptions, "prompt" | "responseFormat">;
+  response: {
+    content: unknown[];
+    finishReason: string;
+    usage: unknown;
+    warnings: unknown[];
+  };
+};
+
+/**
+ * Hash everything that shapes the model's answer: messages, output schema and
+ * sampling settings. The model itself is left out so fixtures recorded against
+ * one provider replay under any configuration.
+ */
+export function fixtureKey(params: LanguageModelV2CallOptions) {
+  const { prompt, responseFormat, temperature, maxOutputTokens, tools } =
+    params;
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        prompt,
+        responseFormat,
+        temperature,
+        maxOutputTokens,
+        tools,
+      }),
+    )
+    .digest("hex")
+    .slice(0, 32);
+}
+
+/**
+ * Record/replay layer for non-streaming model calls (everything the
+ * extraction pipeline makes goes through generateObject).
+ * - record: call the model and save each response under its request hash
+ * - replay: answer from saved responses only; a missing fixture is an error
+ */
+export function createFixtureMiddleware(
+  mode: FixtureMode,
+  directory: string,
+): LanguageModelV2Middleware {
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(
+      `Unknown LLM_FIXTURES mode "${mode}" (use record or replay)`,
+    );
+  }
+
+  return {
+    wrapGenerate: async ({ doGenerate, params, model }) => {
+      const key = fixtureKey(params);
+      const file = path.join(directory, `${key}.json`);
+
+      if (mode === "replay") {
+        let fixture: Fixture;
+        try {
+          fixture = JSON.parse(await readFile(file, "utf8"));
+        } catch {
+          throw new Error(
+            `[Fixtures] No recorded response for request ${key} in ${directory}. Re-record with LLM_FIXTURES=record.`,
+          );
+        }
+        console.log(`[Fixtures] Replaying ${key}`);
+        return fixture.response as Awaited<ReturnType<typeof doGenerate>>;
+      }
+
+      const result = await doGenerate();
+      const fixture: Fixture = {
+        key,
+        model: `${model.provider}:${model.modelId}`,
+        request: {
+          prompt: params.prompt,
+          responseFormat: params.responseFormat,
+        },
+        response: {
+          content: result.content,
+          finishReason: result.finishReason,
+          usage: result.usage,
+          warnings: result.warnings,
+        },
+      };
+
+      await mkdir(directory, { recursive: true });
+      await writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+      console.log(`[Fixtures] Recorded ${key}`);
+
+      return result;
+    },
+  };
+}
@@ -1,81 +1,139 @@
 import { chunkTranscript } from "./chunker";
 import { extractFromChunkParallel, type ChunkExtraction } from "./specialized-extractor";
 import { mergeChunkExtractions } from "./specialized-merger";
+import { consolidateExtraction } from "./consolidator";
+import { generateBrief } from "./brief";
 import { AI_CONFIG } from "./config";
+import { getChunkBudget, type ChunkBudget } from "./budget";
+import type { ProcessingEventHandler } from "./progress";
 import type { Transcript, TranscriptSegmentWithTurnId } from "./types";
+import type { CaseTypeDefinition } from "@/db/types";
+import { DEFAULT_CASE_TYPES, findCaseType } from "@/lib/case-types/defaults";
+import { CASE_SECTIONS, getCaseSection } from "@/lib/intake/case-sections";
+
+export type ProcessTranscriptOptions = {
+  // Receives chunk/section progress events as they happen
+  onEvent?: ProcessingEventHandler;
+  // Case types the client info call chooses from (defaults to DEFAULT_CASE_TYPES)
+  caseTypes?: CaseTypeDefinition[];
+};
+
+export type TranscriptSource = {
+  transcript: Transcript;
+  segmentsWithTurnIds?: TranscriptSegmentWithTurnId[]; // For citation tracking
+  label?: string; // Used in logs only
+};
+
+type ChunkWithTurns = {
+  chunk: string;
+  turns: Array<{ turnId: number; speaker: number; content: string }>;
+};
+
+/**
+ * Chunk one transcript on turn boundaries and attach the stored turns each
+ * chunk contains. Turns are matched to segments by turnIndex.
+ */
+function chunkSource(
+  source: TranscriptSource,
+  budget: ChunkBudget
+): ChunkWithTurns[] {
+  const { transcript, segmentsWithTurnIds = [] } = source;
+  const turnsByIndex = new Map(
+    segmentsWithTurnIds.map((seg) => [seg.turnIndex, seg])
+  );
+  const chunks = chunkTranscript(
+    transcript,
+    budget.maxChunkTokens,
+    budget.overlapTokens,
+    transcript.segments.map((_, index) => turnsByIndex.get(index)?.turnId)
+  );
+
+  console.log(
+    `\n📊 ${source.label ?? "Transcript"}: created ${chunks.length} chunk(s) from ${transcript.segments.length} segments`
+  );
+
+  if (turnsByIndex.size === 0) {
+    // No turn IDs available, just use chunks as-is
+    return chunks.map((chunk) => ({ chunk: chunk.text, turns: [] }));
+  }
+
+  return chunks.map((chunk, i) => {
+    const turnsInChunk: ChunkWithTurns["turns"] = [];
+
+    for (const index of chunk.segmentIndices) {
+      const seg = turnsByIndex.get(index);
+      if (seg) {
+        turnsInChunk.push({
+          turnId: seg.turnId,
+          speaker: seg.speaker,
+          content: seg.content,
+        });
+      }
+    }
+
+    console.log(
+      `  Chunk ${i + 1}: Contains ${turnsInChunk.length} turns (IDs: ${turnsInChunk.slice(0, 5).map(t => t.turnId).join(", ")}${turnsInChunk.length > 5 ? "..." : ""})`
+    );
+
+    return { chunk: chunk.text, turns: turnsInChunk };
+  });
+}
 
 /**
  * Process a transcript through chunking, parallel extraction, and merging
  *
  * @param transcript - The transcript to process
  * @param segmentsWithTurnIds - Optional: Segments with turn IDs for citation tracking
+ * @param options - Optional: Progress event handler used by the background job worker
  */
 export async function processTranscript(
   transcript: Transcript,
-  segmentsWithTurnIds?: TranscriptSegmentWithTurnId[]
+  segmentsWithTurnIds?: TranscriptSegmentWithTurnId[],
+  options: ProcessTranscriptOptions = {}
+): Promise<ChunkExtraction> {
+  return processTranscripts([{ transcript, segmentsWithTurnIds }], options);
+}
+
+/**
+ * Process several transcripts of the same matter (e.g. an initial call and a
+ * follow-up) as one extraction. Each transcript is chunked on its own so chunks
+ * and citations never straddle two calls; all chunks are then merged together.
+ */
+export async function processTranscripts(
+  sources: TranscriptSource[],
+  options: ProcessTranscriptOptions = {}
 ): Promise<ChunkExtraction> {
   console.log("\n");
   console.log("=".repeat(60));
   console.log("TRANSCRIPT PROCESSING STARTED (PARALLEL EXTRACTION MODE)");
   console.log("=".repeat(60));
   console.log(`Timestamp: ${new Date().toISOString()}`);
-  console.log(`Total segments: ${transcript.segments.length}`);
-  console.log(`Strategy: 4 parallel LLM calls per chunk`);
+  console.log(`Transcripts: ${sources.length}`);
+  console.log(
+    `Total segments: ${sources.reduce((sum, s) => sum + s.transcript.segments.length, 0)}`
+  );
+  console.log(`Strategy: 4 parallel LLM calls per chunk, +1 for case types with their own section`);
 
   try {
-    // Step 1: Chunk the transcript
-    const chunks = chunkTranscript(
-      transcript,
-      AI_CONFIG.MAX_CHUNK_TOKENS,
-      AI_CONFIG.OVERLAP_TOKENS
+    // Step 1: Chunk each transcript and map chunks to turn information
+    const budget = getChunkBudget(options.caseTypes);
+    console.log(
+      `Chunk budget: ${budget.maxChunkTokens} tokens, ${budget.overlapTokens} overlap`
     );
+    const chunksWithTurns = sources.flatMap((source) =>
+      chunkSource(source, budget)
+    );
+    const chunks = chunksWithTurns.map((c) => c.chunk);
 
     console.log(`\n📊 Created ${chunks.length} chunk(s) for processing`);
     console.log(
-      `🚀 Each chunk will spawn 4 parallel LLM calls (Client Info + Liability + Damages + Coverage)`
-    );
-
-    // Map chunks to turn information (if available)
-    const chunksWithTurns: Array<{
-      chunk: string;
-      turns: Array<{ turnId: number; speaker: number; content: string }>
-    }> = [];
-
-    if (segmentsWithTurnIds && segmentsWithTurnIds.length > 0) {
-      console.log(`\n🔗 Mapping turns to chunks for citation tracking...`);
-
-      // For each chunk, figure out which turns it contains
-      // Simple approach: check which segments' text appears in the chunk
-      for (let i = 0; i < chunks.length; i++) {
-        const chunkText = chunks[i];
-        const turnsInChunk: Array<{ turnId: number; speaker: number; content: string }> = [];
-
-        for (const seg of segmentsWithTurnIds) {
-          // Check if this segment's content appears in the chunk
-          if (chunkText.includes(seg.content)) {
-            turnsInChunk.push({
-              turnId: seg.turnId,
-              speaker: seg.speaker,
-              content: seg.content,
-            });
-          }
-        }
-
-        chunksWithTurns.push({
-          chunk: chunkText,
-          turns: turnsInChunk,
-        });
+      `🚀 Each chunk will spawn 4 parallel LLM calls (Client Info + Liability + Damages + Coverage), plus the case type's own section if it has one`
+    );
 
-        console.log(
-          `  Chunk ${i + 1}: Contains ${turnsInChunk.length} turns (IDs: ${turnsInChunk.slice(0, 5).map(t => t.turnId).join(", ")}${turnsInChunk.length > 5 ? "..." : ""})`
-        );
-      }
-    } else {
-      // No turn IDs available, just use chunks as-is
-      for (const chunk of chunks) {
-        chunksWithTurns.push({ chunk, turns: [] });
-      }
-    }
+    await options.onEvent?.({
+      type: "chunked",
+      totalChunks: chunksWithTurns.length,
+    });
 
     // Step 2: Extract from each chunk with parallel specialized calls
     console.log(
@@ -88,37 +146,71 @@ export async function processTranscript(
       console.log(`PROCESSING CHUNK ${i + 1} of ${chunksWithTurns.length}`);
       console.log("=".repeat(50));
 
-      try {
-        const extraction = await extractFromChunkParallel(
+      const extractChunk = () =>
+        extractFromChunkParallel(
           chunksWithTurns[i].chunk,
           i + 1,
           chunksWithTurns.length,
-          chunksWithTurns[i].turns // Pass full turn info for citation
+          chunksWithTurns[i].turns, // Pass full turn info for citation
+          (section, summary) =>
+            options.onEvent?.({
+              type: "section_complete",
+              chunk: i + 1,
+              totalChunks: chunksWithTurns.length,
+              section,
+              summary,
+            }),
+          options.caseTypes
         );
+
+      try {
+        const extraction = await extractChunk();
         extractions.push(extraction);
         console.log(`✓ Chunk ${i + 1} processed successfully (4/4 extractions)`);
+        await options.onEvent?.({
+          type: "chunk_complete",
+          chunk: i + 1,
+          totalChunks: chunksWithTurns.length,
+          extraction,
+        });
       } catch (error) {
         console.error(`✗ Chunk ${i + 1} failed:`, error);
 
         // Retry logic
+        let retryFailure: unknown = error;
         if (AI_CONFIG.MAX_RETRIES > 0) {
           console.log(`⟳ Retrying chunk ${i + 1}...`);
           try {
-            const extraction = await extractFromChunkParallel(
-              chunksWithTurns[i].chunk,
-              i + 1,
-              chunksWithTurns.length,
-              chunksWithTurns[i].turns
-            );
+            const extraction = await extractChunk();
             extractions.push(extraction);
+            retryFailure = null;
             console.log(`✓ Chunk ${i + 1} succeeded on retry`);
+            await options.onEvent?.({
+              type: "chunk_complete",
+              chunk: i + 1,
+              totalChunks: chunksWithTurns.length,
+              extraction,
+            });
           } catch (retryError) {
+            retryFailure = retryError;
             console.error(
               `✗ Chunk ${i + 1} failed after retry, skipping...`,
               retryError
             );
           }
         }
+
+        if (retryFailure) {
+          await options.onEvent?.({
+            type: "chunk_failed",
+            chunk: i + 1,
+            totalChunks: chunksWithTurns.length,
+            error:
+              retryFailure instanceof Error
+                ? retryFailure.message
+                : String(retryFailure),
+          });
+        }
       }
     }
 
@@ -129,13 +221,68 @@ export async function processTranscript(
     console.log(
       `\n✓ Successfully extracted data from ${extractions.length}/${chunks.length} chunk(s)`
     );
+    const caseSectionCalls = extractions.filter((e) =>
+      CASE_SECTIONS.some((section) => e[section.key])
+    ).length;
     console.log(
-      `  Total LLM calls made: ${extractions.length * 4} (${extractions.length} chunks × 4 sections)`
+      `  Total LLM calls made: ${extractions.length * 4 + caseSectionCalls} (${extractions.length} chunks × 4 sections + ${caseSectionCalls} case section)`
     );
 
     // Step 3: Merge extractions
     console.log(`\n🔀 Merging ${extractions.length} chunk extraction(s)...`);
-    const merged = mergeChunkExtractions(extractions);
+    await options.onEvent?.({ type: "merging", chunkCount: extractions.length });
+    let merged = mergeChunkExtractions(extractions);
+
+    // Keep only the details the chosen case type actually has
+    const caseType = findCaseType(
+      options.caseTypes ?? DEFAULT_CASE_TYPES,
+      merged.clientInfo.caseType
+    );
+    const detailKeys = new Set(caseType?.fields.map((field) => field.key));
+    merged = {
+      ...merged,
+      clientInfo: {
+        ...merged.clientInfo,
+        caseDetails: merged.clientInfo.caseDetails?.filter((detail) =>
+          detailKeys.has(detail.key)
+        ),
+      },
+    };
+
+    // ...and only its own section, when chunks disagreed on the case type
+    const caseSection = getCaseSection(merged.clientInfo.caseType);
+    for (const section of CASE_SECTIONS) {
+      if (section.key === caseSection?.key || !merged[section.key]) continue;
+      console.log(`Dropping ${section.label.toLowerCase()}: not a ${merged.clientInfo.caseType} case`);
+      merged = {
+        ...merged,
+        [section.key]: undefined,
+        confidence: Object.fromEntries(
+          Object.entries(merged.confidence ?? {}).filter(
+            ([key]) => !key.startsWith(`${section.key}.`)
+          )
+        ),
+      };
+    }
+
+    // Step 4 (optional): Semantically dedupe what the chunks restated in different words
+    if (AI_CONFIG.CONSOLIDATE && extractions.length > 1) {
+      merged = await consolidateExtraction(merged);
+    }
+
+    // Step 5: The merged brief only summarises the last chunk that wrote one,
+    // so rewrite it from the whole record (a single chunk already saw everything)
+    if (extractions.length > 1) {
+      try {
+        const brief = await generateBrief(
+          merged,
+          chunksWithTurns.flatMap((c) => c.turns)
+        );
+        merged = { ...merged, clientInfo: { ...merged.clientInfo, brief } };
+      } catch (error) {
+        console.error("✗ Brief generation failed, keeping the last chunk's brief:", error);
+      }
+    }
 
     console.log("\n" + "=".repeat(60));
     console.log("PROCESSING COMPLETE - FINAL RESULTS");
@@ -0,0 +1,35 @@
+import type { CaseSection } from "@/lib/intake/case-sections";
+import type { ChunkExtraction } from "./specialized-extractor";
+
+export type ExtractionSection =
+  | "clientInfo"
+  | "liability"
+  | "damages"
+  | "coverage"
+  | CaseSection; // Only for case types that have one
+
+/**
+ * Structured progress events emitted while a transcript is processed.
+ * The job worker persists these and streams them to the create-matter dialog.
+ */
+export type ProcessingEvent =
+  | { type: "chunked"; totalChunks: number }
+  | {
+      type: "section_complete";
+      chunk: number; // 1-based
+      totalChunks: number;
+      section: ExtractionSection;
+      summary: string; // Short human-readable result, e.g. "At-fault: other_party"
+    }
+  | {
+      type: "chunk_complete";
+      chunk: number;
+      totalChunks: number;
+      extraction: ChunkExtraction; // Partial result for this chunk only
+    }
+  | { type: "chunk_failed"; chunk: number; totalChunks: number; error: string }
+  | { type: "merging"; chunkCount: number };
+
+export type ProcessingEventHandler = (
+  event: ProcessingEvent,
+) => void | Promise<void>;
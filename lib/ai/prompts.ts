@@ -1,3 +1,5 @@
+import { DEFAULT_CASE_TYPES } from "@/lib/case-types/defaults";
+
 export const SYSTEM_PROMPT = `You are a legal intake assistant. Extract structured information from client-lawyer conversation transcripts.
 
 The transcript contains multiple speakers identified by numbers (e.g., Speaker 0, Speaker 1).
@@ -6,7 +8,7 @@ Extract information about the client and their legal matter.
 
 Output valid JSON matching this schema:
 {
-  caseType: "dog_bites" | "mva" | "slip_and_fall",
+  caseType: ${DEFAULT_CASE_TYPES.map((caseType) => `"${caseType.id}"`).join(" | ")},
   clientName, clientDob, clientPhone, clientEmail, clientAddress,
   incidentDate, incidentLocation,
   liability: { content (markdown), hasPoliceReport (bool), evidence (array) },
@@ -27,7 +29,7 @@ Rules:
 - Distinguish "no" (false) from "unknown" (null) for booleans
 - Format dates as YYYY-MM-DD
 - liability.content: markdown bulleted list summarizing liability facts from the client's perspective
-- Case type must be one of: dog_bites, mva, slip_and_fall
+- Case type must be one of: ${DEFAULT_CASE_TYPES.map((caseType) => caseType.id).join(", ")}
 - If uncertain about case type, choose most likely based on context
 - Extract only information about the CLIENT, not the lawyer or law firm`;
 
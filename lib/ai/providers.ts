@@ -0,0 +1,71 @@
+import { anthropic } from "@ai-sdk/anthropic";
+import { azure } from "@ai-sdk/azure";
+import { openai } from "@ai-sdk/openai";
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import {
+  createProviderRegistry,
+  type LanguageModel,
+  wrapLanguageModel,
+} from "ai";
+import { AI_CONFIG } from "./config";
+import { createFakeProvider } from "./fake-provider";
+import { createFixtureMiddleware } from "./fixtures";
+
+export type ModelTask = keyof typeof AI_CONFIG.TASK_MODELS;
+
+/**
+ * Every provider a model spec ("<provider>:<model>") can name:
+ * - openai: OPENAI_API_KEY
+ * - azure: AZURE_RESOURCE_NAME + AZURE_API_KEY, model = deployment name
+ * - anthropic: ANTHROPIC_API_KEY
+ * - local: any OpenAI-compatible server (Ollama, llama.cpp) at LOCAL_LLM_BASE_URL,
+ *   so privileged transcripts never leave the firm's network
+ * - fake: deterministic offline model for tests
+ */
+const registry = createProviderRegistry({
+  openai,
+  azure,
+  anthropic,
+  local: createOpenAICompatible({
+    name: "local",
+    baseURL: AI_CONFIG.LOCAL_BASE_URL,
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+    supportsStructuredOutputs: true,
+  }),
+  fake: createFakeProvider(),
+});
+
+type RegistryModelId = Parameters<typeof registry.languageModel>[0];
+
+/**
+ * The model spec configured for a task, falling back to LLM_MODEL.
+ * A bare model name ("gpt-5") means OpenAI, as before specs had a provider.
+ */
+export function getModelSpec(task?: ModelTask): string {
+  const spec = (task && AI_CONFIG.TASK_MODELS[task]) || AI_CONFIG.MODEL;
+  return spec.includes(":") ? spec : `openai:${spec}`;
+}
+
+/**
+ * Resolve the language model for a task from the environment
+ */
+export function getLanguageModel(task?: ModelTask): LanguageModel {
+  const spec = getModelSpec(task);
+
+  // Unknown providers are rejected by the registry (NoSuchProviderError)
+  if (spec.endsWith(":")) {
+    throw new Error(`Invalid model "${spec}", expected "<provider>:<model>"`);
+  }
+
+  const model = registry.languageModel(spec as RegistryModelId);
+
+  return AI_CONFIG.FIXTURES
+    ? wrapLanguageModel({
+        model,
+        middleware: createFixtureMiddleware(
+          AI_CONFIG.FIXTURES,
+          AI_CONFIG.FIXTURES_DIR,
+        ),
+      })
+    : model;
+}
@@ -16,7 +16,7 @@ const IndicationSchema = z.object({
 });
 
 export const ExtractionSchema = z.object({
-  caseType: z.enum(["dog_bites", "mva", "slip_and_fall"]),
+  caseType: z.string(), // Case type ID, see lib/case-types
   clientName: z.string().nullable().optional(),
   clientDob: z.string().nullable().optional(),
   clientPhone: z.string().nullable().optional(),
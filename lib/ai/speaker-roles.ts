@@ -0,0 +1,85 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import {
+  getSpeaker,
+  listSpeakers,
+  SPEAKER_ROLES,
+} from "@/lib/transcripts/speakers";
+import { getLanguageModel } from "./providers";
+import type { Transcript, TranscriptSpeaker } from "./types";
+
+const SPEAKER_ROLES_SYSTEM_PROMPT = `You are identifying the speakers in a call to a personal injury law firm's intake line.
+
+For every speaker number in the transcript, decide their role:
+- intake_attorney: the firm's attorney or intake specialist running the call
+- client: the prospective client (the injured person, or whoever is seeking representation for them)
+- witness: someone who saw the incident
+- family_member: a relative or partner of the client
+- interpreter: someone translating for another speaker
+- other: anyone else (e.g. a receptionist transferring the call)
+
+Also give each speaker's name if it is stated in the call, otherwise null.
+Use cues such as who asks the intake questions, who describes the incident and injuries, introductions, and how speakers address each other.
+Return exactly one entry per speaker number.`;
+
+const SpeakerRolesSchema = z.object({
+  speakers: z.array(
+    z.object({
+      speaker: z.number().int(),
+      role: z.enum(SPEAKER_ROLES),
+      name: z.string().nullable(),
+    }),
+  ),
+});
+
+// Roles are almost always clear from the opening of the call
+const SAMPLE_SEGMENTS = 80;
+
+/**
+ * Ask the model who each speaker is. Names and roles already on the
+ * transcript (from the import or set by a lawyer) take precedence.
+ */
+export async function identifySpeakerRoles(
+  transcript: Transcript,
+): Promise<TranscriptSpeaker[]> {
+  const speakers = listSpeakers(transcript);
+  const sample = transcript.segments.slice(0, SAMPLE_SEGMENTS);
+
+  console.log(
+    `[Speaker Roles] Identifying ${speakers.length} speaker(s) from ${sample.length} segment(s)...`,
+  );
+
+  const { object } = await generateObject({
+    model: getLanguageModel("speakerRoles"),
+    schema: SpeakerRolesSchema,
+    system: SPEAKER_ROLES_SYSTEM_PROMPT,
+    prompt: `Speakers: ${speakers.map((s) => `Speaker ${s}`).join(", ")}
+
+Transcript:
+${sample
+  .map((segment) => {
+    const name = getSpeaker(transcript, segment.speaker)?.name;
+    return `[Speaker ${segment.speaker}${name ? ` (${name})` : ""}]: ${segment.content}`;
+  })
+  .join("\n\n")}`,
+  });
+
+  const identified = new Map(object.speakers.map((s) => [s.speaker, s]));
+
+  return speakers.map((speaker) => {
+    const existing = getSpeaker(transcript, speaker);
+    const guess = identified.get(speaker);
+    const name = existing?.name || guess?.name || undefined;
+    const role = existing?.role ?? guess?.role;
+
+    console.log(
+      `[Speaker Roles]   Speaker ${speaker}: ${role ?? "unknown"}${name ? ` (${name})` : ""}`,
+    );
+
+    return {
+      speaker,
+      ...(name && { name }),
+      ...(role && { role }),
+    };
+  });
+}
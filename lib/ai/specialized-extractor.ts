@@ -1,29 +1,46 @@
 import { generateObject } from "ai";
-import { openai } from "@ai-sdk/openai";
+import type { CaseTypeDefinition } from "@/db/types";
+import { DEFAULT_CASE_TYPES } from "@/lib/case-types/defaults";
+import { getCaseSection } from "@/lib/intake/case-sections";
+import { verifyCitations } from "./citation-verifier";
+import type { FieldConfidences } from "./confidence";
 import { AI_CONFIG } from "./config";
+import { getLanguageModel } from "./providers";
 import {
-  CLIENT_INFO_SYSTEM_PROMPT,
+  getClientInfoSystemPrompt,
   LIABILITY_SYSTEM_PROMPT,
   DAMAGES_SYSTEM_PROMPT,
   COVERAGE_SYSTEM_PROMPT,
+  CASE_SECTION_SYSTEM_PROMPTS,
   getUserPromptForSection,
 } from "./specialized-prompts";
 import {
-  ClientInfoSchema,
+  createClientInfoSchema,
   LiabilitySchema,
   DamagesSchema,
   CoverageSchema,
+  CASE_SECTION_SCHEMAS,
   type ClientInfo,
   type Liability,
   type Damages,
   type Coverage,
+  type MvaDetails,
+  type DogBiteDetails,
+  type PremisesDetails,
+  type ModelCitation,
 } from "./specialized-schemas";
+import type { ExtractionSection } from "./progress";
 
 export type ChunkExtraction = {
   clientInfo: ClientInfo;
   liability: Liability;
   damages: Damages;
   coverage: Coverage;
+  // The case type's own section, if it has one (see lib/intake/case-sections.ts)
+  mvaDetails?: MvaDetails;
+  dogBiteDetails?: DogBiteDetails;
+  premisesDetails?: PremisesDetails;
+  confidence?: FieldConfidences; // Set on merged results, see confidence.ts
 };
 
 type TurnInfo = {
@@ -33,16 +50,23 @@ type TurnInfo = {
 };
 
 /**
- * Extract all sections from a chunk using parallel specialized LLM calls
+ * Extract all sections from a chunk using parallel specialized LLM calls.
+ * The case-type-specific section waits for the client info call, whose case
+ * type picks which section (if any) to extract.
  */
 export async function extractFromChunkParallel(
   chunkText: string,
   chunkNumber: number,
   totalChunks: number,
-  turns: TurnInfo[] = [] // Turn info for citation tracking
+  turns: TurnInfo[] = [], // Turn info for citation tracking
+  onSectionComplete?: (
+    section: ExtractionSection,
+    summary: string
+  ) => void | Promise<void>,
+  caseTypes: CaseTypeDefinition[] = DEFAULT_CASE_TYPES // From the case type registry
 ): Promise<ChunkExtraction> {
   console.log(
-    `\n[Specialized Extractor] Processing chunk ${chunkNumber}/${totalChunks} with 4 parallel extractions...`
+    `\n[Specialized Extractor] Processing chunk ${chunkNumber}/${totalChunks} with 4 parallel extractions (+1 case section)...`
   );
   console.log(`[Specialized Extractor] Chunk length: ${chunkText.length} characters`);
   if (turns.length > 0) {
@@ -50,99 +74,154 @@ export async function extractFromChunkParallel(
   }
 
   try {
-    // Run all 4 extractions in parallel
-    const [clientInfoResult, liabilityResult, damagesResult, coverageResult] =
-      await Promise.all([
-        // 1. Client Info Extraction
-        generateObject({
-          model: openai(AI_CONFIG.MODEL),
-          schema: ClientInfoSchema,
-          system: CLIENT_INFO_SYSTEM_PROMPT,
-          prompt: getUserPromptForSection(
-            "client basic information",
-            chunkText,
-            chunkNumber,
-            totalChunks,
-            turns
-          ),
-          temperature: AI_CONFIG.TEMPERATURE,
-        }).then((result) => {
-          console.log(
-            `  ✓ [Client Info] Case type: ${result.object.caseType}, Client: ${result.object.clientName || "N/A"}, Citations: ${result.object.citations?.length || 0}`
-          );
-          return result;
-        }),
+    // 1. Client Info Extraction
+    const clientInfoRequest = generateObject({
+      model: getLanguageModel("clientInfo"),
+      schema: createClientInfoSchema(caseTypes),
+      system: getClientInfoSystemPrompt(caseTypes),
+      prompt: getUserPromptForSection(
+        "client basic information",
+        chunkText,
+        chunkNumber,
+        totalChunks,
+        turns
+      ),
+      temperature: AI_CONFIG.TEMPERATURE,
+    }).then(async (result) => {
+      const summary = `Case type: ${result.object.caseType}, Client: ${result.object.clientName || "N/A"}`;
+      console.log(
+        `  ✓ [Client Info] ${summary}, Citations: ${result.object.citations?.length || 0}`
+      );
+      await onSectionComplete?.("clientInfo", summary);
+      return result;
+    });
 
-        // 2. Liability Extraction
-        generateObject({
-          model: openai(AI_CONFIG.MODEL),
-          schema: LiabilitySchema,
-          system: LIABILITY_SYSTEM_PROMPT,
-          prompt: getUserPromptForSection(
-            "liability information",
-            chunkText,
-            chunkNumber,
-            totalChunks,
-            turns
-          ),
-          temperature: AI_CONFIG.TEMPERATURE,
-        }).then((result) => {
-          console.log(
-            `  ✓ [Liability] At-fault: ${result.object.atFault}, Rationale length: ${result.object.rationale.length} chars, Citations: ${result.object.citations?.length || 0}`
-          );
-          return result;
-        }),
+    // Run all extractions in parallel
+    const [
+      clientInfoResult,
+      liabilityResult,
+      damagesResult,
+      coverageResult,
+      caseSectionResult,
+    ] = await Promise.all([
+      clientInfoRequest,
 
-        // 3. Damages Extraction
-        generateObject({
-          model: openai(AI_CONFIG.MODEL),
-          schema: DamagesSchema,
-          system: DAMAGES_SYSTEM_PROMPT,
-          prompt: getUserPromptForSection(
-            "damages information",
-            chunkText,
-            chunkNumber,
-            totalChunks,
-            turns
-          ),
-          temperature: AI_CONFIG.TEMPERATURE,
-        }).then((result) => {
-          console.log(
-            `  ✓ [Damages] Severity: ${result.object.severity}, Indications: ${result.object.indications.length}, Citations: ${result.object.citations?.length || 0}`
-          );
-          return result;
-        }),
+      // 2. Liability Extraction
+      generateObject({
+        model: getLanguageModel("liability"),
+        schema: LiabilitySchema,
+        system: LIABILITY_SYSTEM_PROMPT,
+        prompt: getUserPromptForSection(
+          "liability information",
+          chunkText,
+          chunkNumber,
+          totalChunks,
+          turns
+        ),
+        temperature: AI_CONFIG.TEMPERATURE,
+      }).then(async (result) => {
+        const summary = `At-fault: ${result.object.atFault}, Police report: ${result.object.hasPoliceReport ? "yes" : "no"}`;
+        console.log(
+          `  ✓ [Liability] ${summary}, Rationale length: ${result.object.rationale.length} chars, Citations: ${result.object.citations?.length || 0}`
+        );
+        await onSectionComplete?.("liability", summary);
+        return result;
+      }),
 
-        // 4. Coverage Extraction
-        generateObject({
-          model: openai(AI_CONFIG.MODEL),
-          schema: CoverageSchema,
-          system: COVERAGE_SYSTEM_PROMPT,
+      // 3. Damages Extraction
+      generateObject({
+        model: getLanguageModel("damages"),
+        schema: DamagesSchema,
+        system: DAMAGES_SYSTEM_PROMPT,
+        prompt: getUserPromptForSection(
+          "damages information",
+          chunkText,
+          chunkNumber,
+          totalChunks,
+          turns
+        ),
+        temperature: AI_CONFIG.TEMPERATURE,
+      }).then(async (result) => {
+        const summary = `Severity: ${result.object.severity}, Indications: ${result.object.indications.length}`;
+        console.log(
+          `  ✓ [Damages] ${summary}, Citations: ${result.object.citations?.length || 0}`
+        );
+        await onSectionComplete?.("damages", summary);
+        return result;
+      }),
+
+      // 4. Coverage Extraction
+      generateObject({
+        model: getLanguageModel("coverage"),
+        schema: CoverageSchema,
+        system: COVERAGE_SYSTEM_PROMPT,
+        prompt: getUserPromptForSection(
+          "insurance coverage information",
+          chunkText,
+          chunkNumber,
+          totalChunks,
+          turns
+        ),
+        temperature: AI_CONFIG.TEMPERATURE,
+      }).then(async (result) => {
+        const summary = `Client insurance: ${result.object.clientHasInsurance === null ? "unknown" : result.object.clientHasInsurance}, Other party: ${result.object.otherPartyHasInsurance === null ? "unknown" : result.object.otherPartyHasInsurance}`;
+        console.log(
+          `  ✓ [Coverage] ${summary}, Citations: ${result.object.citations?.length || 0}`
+        );
+        await onSectionComplete?.("coverage", summary);
+        return result;
+      }),
+
+      // 5. Case-Type-Specific Section (vehicle, animal or premises details)
+      clientInfoRequest.then(async (clientInfo) => {
+        const section = getCaseSection(clientInfo.object.caseType);
+        if (!section) {
+          return null;
+        }
+        const result = await generateObject({
+          model: getLanguageModel("caseSection"),
+          schema: CASE_SECTION_SCHEMAS[section.key],
+          system: CASE_SECTION_SYSTEM_PROMPTS[section.key],
           prompt: getUserPromptForSection(
-            "insurance coverage information",
+            section.label.toLowerCase(),
             chunkText,
             chunkNumber,
             totalChunks,
             turns
           ),
           temperature: AI_CONFIG.TEMPERATURE,
-        }).then((result) => {
-          console.log(
-            `  ✓ [Coverage] Client insurance: ${result.object.clientHasInsurance === null ? "unknown" : result.object.clientHasInsurance}, Other party: ${result.object.otherPartyHasInsurance === null ? "unknown" : result.object.otherPartyHasInsurance}, Citations: ${result.object.citations?.length || 0}`
-          );
-          return result;
-        }),
-      ]);
+        });
+        const values = result.object as Record<string, unknown>;
+        const found = section.fields.filter(
+          (field) => values[field.key] !== null && values[field.key] !== undefined
+        ).length;
+        const summary = `${found}/${section.fields.length} ${section.label.toLowerCase()} found`;
+        console.log(
+          `  ✓ [${section.label}] ${summary}, Citations: ${result.object.citations?.length || 0}`
+        );
+        await onSectionComplete?.(section.key, summary);
+        return { key: section.key, object: result.object };
+      }),
+    ]);
 
     console.log(
-      `✓ [Specialized Extractor] All 4 extractions complete for chunk ${chunkNumber}`
+      `✓ [Specialized Extractor] All ${caseSectionResult ? 5 : 4} extractions complete for chunk ${chunkNumber}`
     );
 
+    // Keep only citations whose quotes can be found in the cited turns
+    const verify = <T extends { citations?: ModelCitation[] }>(section: T) => ({
+      ...section,
+      citations: verifyCitations(section.citations, turns),
+    });
+
     return {
-      clientInfo: clientInfoResult.object,
-      liability: liabilityResult.object,
-      damages: damagesResult.object,
-      coverage: coverageResult.object,
+      clientInfo: verify(clientInfoResult.object),
+      liability: verify(liabilityResult.object),
+      damages: verify(damagesResult.object),
+      coverage: verify(coverageResult.object),
+      ...(caseSectionResult && {
+        [caseSectionResult.key]: verify(caseSectionResult.object),
+      }),
     };
   } catch (error) {
     console.error(
@@ -1,5 +1,40 @@
 import type { ChunkExtraction } from "./specialized-extractor";
-import type { ClientInfo, Liability, Damages, Coverage } from "./specialized-schemas";
+import { CASE_SECTIONS, type CaseSectionDefinition } from "@/lib/intake/case-sections";
+import { REVIEW_CONFIDENCE_THRESHOLD } from "@/lib/intake/review";
+import { mergeCitations, renumberListCitations } from "./citation-verifier";
+import {
+  citeSupportedValues,
+  pickSupportedValue,
+  scoreFieldConfidence,
+} from "./confidence";
+import type {
+  ClientInfo,
+  Liability,
+  Damages,
+  Coverage,
+  CaseSectionData,
+} from "./specialized-schemas";
+
+/**
+ * Merge the case type's own fields key by key, keeping the best-supported
+ * value of each
+ */
+function mergeCaseDetails(infos: ClientInfo[]): ClientInfo["caseDetails"] {
+  const keys = new Set(infos.flatMap((i) => (i.caseDetails ?? []).map((d) => d.key)));
+  const details = Array.from(keys).map((key) => ({
+    key,
+    value: pickSupportedValue(
+      infos.map((i) => ({
+        value: i.caseDetails?.find((d) => d.key === key)?.value ?? null,
+        fieldConfidence: i.fieldConfidence
+          ?.filter((c) => c.field === `caseDetails[${key}]`)
+          .map((c) => ({ ...c, field: "value" })),
+      })),
+      "value"
+    ),
+  }));
+  return details.length > 0 ? details : undefined;
+}
 
 /**
  * Merge client info from multiple chunks
@@ -7,38 +42,31 @@ import type { ClientInfo, Liability, Damages, Coverage } from "./specialized-sch
 function mergeClientInfo(infos: ClientInfo[]): ClientInfo {
   console.log(`[Merger] Merging ${infos.length} client info objects`);
 
-  // Use first non-null value found (prefer later chunks for conflicts)
+  // Brief: the latest chunk's summary; other fields: the best-supported value
   const reversed = [...infos].reverse();
 
-  // Merge citations from all chunks
-  const allCitations = infos.flatMap((i) => i.citations || []);
-  // Combine citations for same field
-  const citationMap = new Map<string, Set<number>>();
-  for (const citation of allCitations) {
-    if (!citationMap.has(citation.field)) {
-      citationMap.set(citation.field, new Set());
-    }
-    citation.turnIds.forEach((id) => citationMap.get(citation.field)!.add(id));
-  }
-  const mergedCitations = Array.from(citationMap.entries()).map(([field, turnIds]) => ({
-    field,
-    turnIds: Array.from(turnIds).sort((a, b) => a - b),
-  }));
-
   const merged: ClientInfo = {
-    caseType: reversed.find((i) => i.caseType)?.caseType || "mva",
-    clientName: reversed.find((i) => i.clientName)?.clientName || null,
-    clientDob: reversed.find((i) => i.clientDob)?.clientDob || null,
-    clientPhone: reversed.find((i) => i.clientPhone)?.clientPhone || null,
-    clientEmail: reversed.find((i) => i.clientEmail)?.clientEmail || null,
-    clientAddress: reversed.find((i) => i.clientAddress)?.clientAddress || null,
-    incidentDate: reversed.find((i) => i.incidentDate)?.incidentDate || null,
-    incidentLocation:
-      reversed.find((i) => i.incidentLocation)?.incidentLocation || null,
+    caseType: pickSupportedValue(infos, "caseType") || "mva",
+    clientName: pickSupportedValue(infos, "clientName"),
+    clientDob: pickSupportedValue(infos, "clientDob"),
+    clientPhone: pickSupportedValue(infos, "clientPhone"),
+    clientEmail: pickSupportedValue(infos, "clientEmail"),
+    clientAddress: pickSupportedValue(infos, "clientAddress"),
+    incidentDate: pickSupportedValue(infos, "incidentDate"),
+    incidentLocation: pickSupportedValue(infos, "incidentLocation"),
     brief: reversed.find((i) => i.brief)?.brief || null,
-    citations: mergedCitations.length > 0 ? mergedCitations : undefined,
+    caseDetails: mergeCaseDetails(infos),
   };
 
+  // Merge citations from all chunks, citing only the chosen value of each field
+  const mergedCitations = citeSupportedValues(
+    infos,
+    Object.keys(merged).filter(
+      (field) => field !== "brief" && field !== "caseDetails"
+    )
+  );
+  merged.citations = mergedCitations.length > 0 ? mergedCitations : undefined;
+
   console.log(`[Merger] Client: ${merged.clientName || "N/A"}, Case: ${merged.caseType}, Citations: ${mergedCitations.length}`);
   return merged;
 }
@@ -97,19 +125,8 @@ function mergeLiability(liabilities: Liability[]): Liability {
     }
   }
 
-  // Merge citations
-  const allCitations = liabilities.flatMap((l) => l.citations || []);
-  const citationMap = new Map<string, Set<number>>();
-  for (const citation of allCitations) {
-    if (!citationMap.has(citation.field)) {
-      citationMap.set(citation.field, new Set());
-    }
-    citation.turnIds.forEach((id) => citationMap.get(citation.field)!.add(id));
-  }
-  const mergedCitations = Array.from(citationMap.entries()).map(([field, turnIds]) => ({
-    field,
-    turnIds: Array.from(turnIds).sort((a, b) => a - b),
-  }));
+  // Merge citations from all chunks
+  const mergedCitations = mergeCitations(liabilities.flatMap((l) => l.citations || []));
 
   console.log(`[Merger] Liability citations: ${mergedCitations.length}`);
 
@@ -137,29 +154,25 @@ function mergeDamages(damages: Damages[]): Damages {
     "low" as "low" | "medium" | "high"
   );
 
-  // Combine and deduplicate indications
-  const allIndications = damages.flatMap((d) => d.indications);
-  const seen = new Set<string>();
-  const uniqueIndications = allIndications.filter((indication) => {
-    const key = indication.description.toLowerCase().trim();
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
+  // Combine and deduplicate indications, pointing each chunk's per-item
+  // citations at the item's position in the combined list
+  const uniqueIndications: Damages["indications"] = [];
+  const indexByKey = new Map<string, number>();
+  const allCitations = damages.flatMap((d) => {
+    const newIndex = new Map<number, number>();
+    d.indications.forEach((indication, i) => {
+      const key = indication.description.toLowerCase().trim();
+      if (!indexByKey.has(key)) {
+        indexByKey.set(key, uniqueIndications.length);
+        uniqueIndications.push(indication);
+      }
+      newIndex.set(i, indexByKey.get(key) as number);
+    });
+    return renumberListCitations(d.citations || [], "indications", newIndex);
   });
 
-  // Merge citations
-  const allCitations = damages.flatMap((d) => d.citations || []);
-  const citationMap = new Map<string, Set<number>>();
-  for (const citation of allCitations) {
-    if (!citationMap.has(citation.field)) {
-      citationMap.set(citation.field, new Set());
-    }
-    citation.turnIds.forEach((id) => citationMap.get(citation.field)!.add(id));
-  }
-  const mergedCitations = Array.from(citationMap.entries()).map(([field, turnIds]) => ({
-    field,
-    turnIds: Array.from(turnIds).sort((a, b) => a - b),
-  }));
+  // Merge citations from all chunks
+  const mergedCitations = mergeCitations(allCitations);
 
   console.log(
     `[Merger] Severity: ${severity}, Indications: ${uniqueIndications.length}, Citations: ${mergedCitations.length}`
@@ -178,63 +191,60 @@ function mergeDamages(damages: Damages[]): Damages {
 function mergeCoverage(coverages: Coverage[]): Coverage {
   console.log(`[Merger] Merging ${coverages.length} coverage objects`);
 
-  // Merge citations
-  const allCitations = coverages.flatMap((c) => c.citations || []);
-  const citationMap = new Map<string, Set<number>>();
-  for (const citation of allCitations) {
-    if (!citationMap.has(citation.field)) {
-      citationMap.set(citation.field, new Set());
-    }
-    citation.turnIds.forEach((id) => citationMap.get(citation.field)!.add(id));
-  }
-  const mergedCitations = Array.from(citationMap.entries()).map(([field, turnIds]) => ({
-    field,
-    turnIds: Array.from(turnIds).sort((a, b) => a - b),
-  }));
+  // Take the best-supported value for each field across chunks
+  const merged: Coverage = {
+    clientHasInsurance: pickSupportedValue(coverages, "clientHasInsurance"),
+    clientInsuranceProvider: pickSupportedValue(coverages, "clientInsuranceProvider"),
+    clientPolicyNumber: pickSupportedValue(coverages, "clientPolicyNumber"),
+    clientCoverageEffectiveDate: pickSupportedValue(coverages, "clientCoverageEffectiveDate"),
+    clientCoverageExpirationDate: pickSupportedValue(coverages, "clientCoverageExpirationDate"),
+    clientCoverageDetails: pickSupportedValue(coverages, "clientCoverageDetails"),
+    otherPartyHasInsurance: pickSupportedValue(coverages, "otherPartyHasInsurance"),
+    otherPartyInsuranceProvider: pickSupportedValue(coverages, "otherPartyInsuranceProvider"),
+    otherPartyPolicyNumber: pickSupportedValue(coverages, "otherPartyPolicyNumber"),
+    otherPartyCoverageEffectiveDate: pickSupportedValue(coverages, "otherPartyCoverageEffectiveDate"),
+    otherPartyCoverageExpirationDate: pickSupportedValue(coverages, "otherPartyCoverageExpirationDate"),
+    otherPartyCoverageDetails: pickSupportedValue(coverages, "otherPartyCoverageDetails"),
+    medicalCoverageAvailable: pickSupportedValue(coverages, "medicalCoverageAvailable"),
+    medicalCoverageDetails: pickSupportedValue(coverages, "medicalCoverageDetails"),
+    underinsuredMotoristCoverage: pickSupportedValue(coverages, "underinsuredMotoristCoverage"),
+    policyLimits: pickSupportedValue(coverages, "policyLimits"),
+    notes: pickSupportedValue(coverages, "notes"),
+  };
 
-  const merged = coverages.reduce((acc, curr) => ({
-    clientHasInsurance: curr.clientHasInsurance ?? acc.clientHasInsurance,
-    clientInsuranceProvider:
-      curr.clientInsuranceProvider ?? acc.clientInsuranceProvider,
-    clientPolicyNumber: curr.clientPolicyNumber ?? acc.clientPolicyNumber,
-    clientCoverageEffectiveDate:
-      curr.clientCoverageEffectiveDate ?? acc.clientCoverageEffectiveDate,
-    clientCoverageExpirationDate:
-      curr.clientCoverageExpirationDate ?? acc.clientCoverageExpirationDate,
-    clientCoverageDetails:
-      curr.clientCoverageDetails ?? acc.clientCoverageDetails,
-
-    otherPartyHasInsurance:
-      curr.otherPartyHasInsurance ?? acc.otherPartyHasInsurance,
-    otherPartyInsuranceProvider:
-      curr.otherPartyInsuranceProvider ?? acc.otherPartyInsuranceProvider,
-    otherPartyPolicyNumber:
-      curr.otherPartyPolicyNumber ?? acc.otherPartyPolicyNumber,
-    otherPartyCoverageEffectiveDate:
-      curr.otherPartyCoverageEffectiveDate ??
-      acc.otherPartyCoverageEffectiveDate,
-    otherPartyCoverageExpirationDate:
-      curr.otherPartyCoverageExpirationDate ??
-      acc.otherPartyCoverageExpirationDate,
-    otherPartyCoverageDetails:
-      curr.otherPartyCoverageDetails ?? acc.otherPartyCoverageDetails,
-
-    medicalCoverageAvailable:
-      curr.medicalCoverageAvailable ?? acc.medicalCoverageAvailable,
-    medicalCoverageDetails:
-      curr.medicalCoverageDetails ?? acc.medicalCoverageDetails,
-
-    underinsuredMotoristCoverage:
-      curr.underinsuredMotoristCoverage ?? acc.underinsuredMotoristCoverage,
-    policyLimits: curr.policyLimits ?? acc.policyLimits,
-    notes: curr.notes ?? acc.notes,
-    citations: mergedCitations.length > 0 ? mergedCitations : undefined,
-  }));
+  // Merge citations from all chunks, citing only the chosen value of each field
+  const mergedCitations = citeSupportedValues(coverages, Object.keys(merged));
+  merged.citations = mergedCitations.length > 0 ? mergedCitations : undefined;
 
   console.log(`[Merger] Coverage citations: ${mergedCitations.length}`);
   return merged;
 }
 
+/**
+ * Merge a case-type-specific section from the chunks that extracted it
+ */
+function mergeCaseSection(
+  section: CaseSectionDefinition,
+  extracted: CaseSectionData[]
+): CaseSectionData {
+  console.log(`[Merger] Merging ${extracted.length} ${section.label.toLowerCase()} objects`);
+
+  // Take the best-supported value for each field across chunks
+  const merged: Record<string, unknown> = Object.fromEntries(
+    section.fields.map((field) => [
+      field.key,
+      pickSupportedValue(extracted as Record<string, unknown>[], field.key),
+    ])
+  );
+
+  // Merge citations from all chunks, citing only the chosen value of each field
+  const mergedCitations = citeSupportedValues(extracted, Object.keys(merged));
+  merged.citations = mergedCitations.length > 0 ? mergedCitations : undefined;
+
+  console.log(`[Merger] ${section.label} citations: ${mergedCitations.length}`);
+  return merged as CaseSectionData;
+}
+
 /**
  * Merge multiple chunk extractions into final result
  */
@@ -247,19 +257,52 @@ export function mergeChunkExtractions(
     throw new Error("No extractions to merge");
   }
 
+  let merged: ChunkExtraction;
   if (extractions.length === 1) {
     console.log("Only one extraction, returning as-is");
-    console.log("=== Merge Complete ===\n");
-    return extractions[0];
+    // The model's per-field scores are summarised in `confidence` below
+    const { clientInfo, liability, damages, coverage } = extractions[0];
+    merged = {
+      clientInfo: { ...clientInfo, fieldConfidence: undefined },
+      liability: { ...liability, fieldConfidence: undefined },
+      damages: { ...damages, fieldConfidence: undefined },
+      coverage: { ...coverage, fieldConfidence: undefined },
+    };
+    for (const section of CASE_SECTIONS) {
+      const extracted = extractions[0][section.key];
+      if (extracted) {
+        Object.assign(merged, {
+          [section.key]: { ...extracted, fieldConfidence: undefined },
+        });
+      }
+    }
+  } else {
+    merged = {
+      clientInfo: mergeClientInfo(extractions.map((e) => e.clientInfo)),
+      liability: mergeLiability(extractions.map((e) => e.liability)),
+      damages: mergeDamages(extractions.map((e) => e.damages)),
+      coverage: mergeCoverage(extractions.map((e) => e.coverage)),
+    };
+    // Chunks only extract the section of the case type they settled on
+    for (const section of CASE_SECTIONS) {
+      const extracted = extractions.flatMap((e) => e[section.key] ?? []);
+      if (extracted.length > 0) {
+        Object.assign(merged, {
+          [section.key]: mergeCaseSection(section, extracted),
+        });
+      }
+    }
   }
 
-  const merged: ChunkExtraction = {
-    clientInfo: mergeClientInfo(extractions.map((e) => e.clientInfo)),
-    liability: mergeLiability(extractions.map((e) => e.liability)),
-    damages: mergeDamages(extractions.map((e) => e.damages)),
-    coverage: mergeCoverage(extractions.map((e) => e.coverage)),
-  };
+  const confidence = scoreFieldConfidence(extractions, merged);
+  const flagged = Object.values(confidence).filter(
+    (c) => c.score < REVIEW_CONFIDENCE_THRESHOLD || c.candidates
+  ).length;
+  const contested = Object.values(confidence).filter((c) => c.candidates).length;
+  console.log(
+    `[Merger] Field confidence: ${flagged} field(s) flagged for review, ${contested} with conflicting values`
+  );
 
   console.log("=== Merge Complete ===\n");
-  return merged;
+  return { ...merged, confidence };
 }
@@ -1,11 +1,44 @@
-export const CLIENT_INFO_SYSTEM_PROMPT = `You are a legal intake assistant extracting CLIENT BASIC INFORMATION from conversation transcripts.
+import type { CaseTypeDefinition } from "@/db/types";
+import type { CaseSection } from "@/lib/intake/case-sections";
 
-The transcript contains multiple speakers. Infer from context which is the lawyer and which is the client.
+// Speaker labels carry roles and names once the speaker-roles step has run
+const SPEAKER_CONTEXT = `The transcript contains multiple speakers, labelled like [Speaker 1 (Client, Jane Doe)] when their role and name are known.
+Trust those roles. Only for speakers labelled with just a number, infer from context which is the lawyer and which is the client.`;
+
+// Quotes are checked against the transcript; citations whose quotes can't be found are flagged
+const QUOTE_RULES = `- quotes: For every turn you cite, copy a short verbatim excerpt (a few words, at most one sentence) from that turn that supports the field. Copy the words exactly as they appear; do not paraphrase or combine turns`;
+
+// Low scores send a field to the lawyer's review checklist
+const CONFIDENCE_RULES = `- fieldConfidence: For each field you filled in, give a score from 0 to 1: close to 1 when the transcript states it plainly, around 0.5 when you had to infer or the speaker was unsure, below 0.3 when it is a guess`;
+
+/**
+ * The registry's case types as the model sees them: ID, label and how to
+ * recognise each one, followed by the fields only that type has
+ */
+export function describeCaseTypes(caseTypes: CaseTypeDefinition[]): string {
+  return caseTypes
+    .map((caseType) => {
+      const hints = caseType.promptHints ? `: ${caseType.promptHints}` : "";
+      const fields = caseType.fields.map(
+        (field) =>
+          `\n    - ${field.key} (${field.kind}${field.kind === "date" ? ", YYYY-MM-DD" : ""})${field.description ? `: ${field.description}` : ""}`,
+      );
+      return `  - ${caseType.id} (${caseType.label})${hints}${fields.join("")}`;
+    })
+    .join("\n");
+}
+
+export function getClientInfoSystemPrompt(
+  caseTypes: CaseTypeDefinition[],
+): string {
+  return `You are a legal intake assistant extracting CLIENT BASIC INFORMATION from conversation transcripts.
+
+${SPEAKER_CONTEXT}
 Extract ONLY basic client information and case details.
 
 Output valid JSON matching this schema:
 {
-  caseType: "dog_bites" | "mva" | "slip_and_fall",
+  caseType: ${caseTypes.map((caseType) => `"${caseType.id}"`).join(" | ")},
   clientName (string|null),
   clientDob (string|null in YYYY-MM-DD format),
   clientPhone (string|null),
@@ -14,20 +47,29 @@ Output valid JSON matching this schema:
   incidentDate (string|null in YYYY-MM-DD format),
   incidentLocation (string|null),
   brief (string|null - AI-generated case summary, 5 sentences max),
-  citations: [{ field: string, turnIds: number[] }] (optional - cite which turn IDs support each extracted field)
+  caseDetails: [{ key: string, value: string | number | boolean | null }] (optional - the chosen case type's own fields),
+  citations: [{ field: string, turnIds: number[], quotes: [{ turnId: number, text: string }] }] (optional - cite which turn IDs support each extracted field),
+  fieldConfidence: [{ field: string, score: number (0-1) }] (optional - how certain you are of each extracted value)
 }
 
+Case types (with the fields only that case type has):
+${describeCaseTypes(caseTypes)}
+
 Rules:
 - Use null for unknown/unmentioned fields
 - Dates must be YYYY-MM-DD format
 - Extract only CLIENT information, not lawyer details
-- Case type must be one of: dog_bites, mva, slip_and_fall
+- Case type must be one of the IDs listed above; if uncertain, choose the most likely
+- caseDetails: Only for the case type you chose, one entry per listed field that the transcript mentions. Cite and score them as "caseDetails[<key>]"
 - brief: Generate a concise 5-sentence summary of the case covering: what happened, when, where, injuries/damages, and potential fault
-- citations: For each extracted field (clientName, clientDob, etc.), cite which turn IDs contain the supporting information`;
+- citations: For each extracted field (clientName, clientDob, etc.), cite which turn IDs contain the supporting information
+${QUOTE_RULES}
+${CONFIDENCE_RULES}`;
+}
 
 export const LIABILITY_SYSTEM_PROMPT = `You are a legal intake assistant extracting LIABILITY INFORMATION from conversation transcripts.
 
-The transcript contains multiple speakers. Infer from context which is the lawyer and which is the client.
+${SPEAKER_CONTEXT}
 Extract liability-related facts and determine fault.
 
 Output valid JSON matching this schema:
@@ -37,7 +79,8 @@ Output valid JSON matching this schema:
   rationale: string (markdown bulleted list justifying fault determination),
   hasPoliceReport: boolean,
   evidence: array (optional),
-  citations: [{ field: string, turnIds: number[] }] (optional - cite which turn IDs support liability findings)
+  citations: [{ field: string, turnIds: number[], quotes: [{ turnId: number, text: string }] }] (optional - cite which turn IDs support liability findings),
+  fieldConfidence: [{ field: string, score: number (0-1) }] (optional - how certain you are of each extracted value)
 }
 
 Rules:
@@ -54,11 +97,13 @@ Rules:
   - Include what happened, witness statements, traffic violations, right of way, etc.
   - Focus on legal liability factors
 - hasPoliceReport: true if police report mentioned, false otherwise
-- citations: Cite which turn IDs support your fault determination and key liability facts`;
+- citations: Cite which turn IDs support your fault determination and key liability facts
+${QUOTE_RULES}
+${CONFIDENCE_RULES}`;
 
 export const DAMAGES_SYSTEM_PROMPT = `You are a legal intake assistant extracting DAMAGES INFORMATION from conversation transcripts.
 
-The transcript contains multiple speakers. Infer from context which is the lawyer and which is the client.
+${SPEAKER_CONTEXT}
 Extract information about injuries, harm, and damages.
 
 Output valid JSON matching this schema:
@@ -67,7 +112,8 @@ Output valid JSON matching this schema:
   indications: [
     { description: string, severity: "low"|"medium"|"high", evidence: array (optional) }
   ],
-  citations: [{ field: string, turnIds: number[] }] (optional - cite which turn IDs describe damages)
+  citations: [{ field: string, turnIds: number[], quotes: [{ turnId: number, text: string }] }] (optional - cite which turn IDs describe damages),
+  fieldConfidence: [{ field: string, score: number (0-1) }] (optional - how certain you are of each extracted value)
 }
 
 Rules:
@@ -75,11 +121,13 @@ Rules:
 - indications: array of specific injuries/damages mentioned
 - Each indication should have its own severity level
 - Extract physical injuries, emotional distress, property damage, etc.
-- citations: Cite which turn IDs describe the injuries and damages`;
+- citations: Cite which turn IDs describe the injuries and damages
+${QUOTE_RULES}
+${CONFIDENCE_RULES}`;
 
 export const COVERAGE_SYSTEM_PROMPT = `You are a legal intake assistant extracting INSURANCE COVERAGE INFORMATION from conversation transcripts.
 
-The transcript contains multiple speakers. Infer from context which is the lawyer and which is the client.
+${SPEAKER_CONTEXT}
 Extract all insurance-related information.
 
 Output valid JSON matching this schema:
@@ -104,7 +152,8 @@ Output valid JSON matching this schema:
   underinsuredMotoristCoverage: bool|null,
   policyLimits: string|null,
   notes: string|null,
-  citations: [{ field: string, turnIds: number[] }] (optional - cite which turn IDs discuss insurance coverage)
+  citations: [{ field: string, turnIds: number[], quotes: [{ turnId: number, text: string }] }] (optional - cite which turn IDs discuss insurance coverage),
+  fieldConfidence: [{ field: string, score: number (0-1) }] (optional - how certain you are of each extracted value)
 }
 
 Rules:
@@ -112,7 +161,109 @@ Rules:
 - Dates in YYYY-MM-DD format
 - Extract coverage for both client and other party
 - Include policy limits, coverage types, effective dates
-- citations: Cite which turn IDs mention insurance information`;
+- citations: Cite which turn IDs mention insurance information
+${QUOTE_RULES}
+${CONFIDENCE_RULES}`;
+
+export const MVA_DETAILS_SYSTEM_PROMPT = `You are a legal intake assistant extracting VEHICLE DETAILS for a motor vehicle accident from conversation transcripts.
+
+${SPEAKER_CONTEXT}
+Extract details about the vehicles and people involved in the collision.
+
+Output valid JSON matching this schema:
+{
+  clientRole: "driver" | "passenger" | "pedestrian" | "cyclist" | "motorcyclist" | null,
+  clientVehicle: string|null (year, make, model, color),
+  clientLicensePlate: string|null,
+  otherDriverName: string|null,
+  otherVehicle: string|null (year, make, model, color),
+  otherLicensePlate: string|null,
+  seatbeltWorn: bool|null,
+  airbagsDeployed: bool|null,
+  vehicleTowed: bool|null,
+  otherDriverCited: bool|null,
+  citations: [{ field: string, turnIds: number[], quotes: [{ turnId: number, text: string }] }] (optional - cite which turn IDs support each extracted field),
+  fieldConfidence: [{ field: string, score: number (0-1) }] (optional - how certain you are of each extracted value)
+}
+
+Rules:
+- Use null for unknown/unmentioned (distinguish from "no" which is false)
+- clientVehicle/otherVehicle: Combine whatever was said about the vehicle, e.g. "2018 silver Honda Civic"
+- seatbeltWorn: For motorcyclists and cyclists, whether they wore a helmet
+- vehicleTowed: The client's vehicle
+- otherDriverCited: true only if the client says police ticketed or cited the other driver
+- citations: Cite which turn IDs mention each vehicle detail
+${QUOTE_RULES}
+${CONFIDENCE_RULES}`;
+
+export const DOG_BITE_DETAILS_SYSTEM_PROMPT = `You are a legal intake assistant extracting ANIMAL DETAILS for a dog bite from conversation transcripts.
+
+${SPEAKER_CONTEXT}
+Extract details about the animal, its owner and its history.
+
+Output valid JSON matching this schema:
+{
+  dogBreed: string|null,
+  dogDescription: string|null (size, color, the dog's name),
+  ownerName: string|null,
+  ownerAddress: string|null,
+  priorBiteHistory: bool|null,
+  priorBiteDetails: string|null,
+  leashed: bool|null,
+  provoked: bool|null,
+  animalControlReported: bool|null,
+  rabiesVaccinated: bool|null,
+  citations: [{ field: string, turnIds: number[], quotes: [{ turnId: number, text: string }] }] (optional - cite which turn IDs support each extracted field),
+  fieldConfidence: [{ field: string, score: number (0-1) }] (optional - how certain you are of each extracted value)
+}
+
+Rules:
+- Use null for unknown/unmentioned (distinguish from "no" which is false)
+- priorBiteHistory: true if the dog bit, attacked or menaced anyone before, or the owner was warned about it
+- priorBiteDetails: What the client knows about those earlier incidents
+- leashed: false if the dog was loose or got out of a fence or yard
+- provoked: Whether the client touched, fed, teased or startled the dog first
+- If the animal is not a dog, still fill in the fields and name the animal in dogDescription
+- citations: Cite which turn IDs mention each animal detail
+${QUOTE_RULES}
+${CONFIDENCE_RULES}`;
+
+export const PREMISES_DETAILS_SYSTEM_PROMPT = `You are a legal intake assistant extracting PREMISES DETAILS for a slip and fall or premises liability case from conversation transcripts.
+
+${SPEAKER_CONTEXT}
+Extract details about the property and the condition that caused the injury.
+
+Output valid JSON matching this schema:
+{
+  propertyType: string|null (store, restaurant, apartment complex, private home, ...),
+  propertyOwner: string|null,
+  hazard: string|null,
+  warningSignsPresent: bool|null,
+  ownerAwareOfHazard: bool|null,
+  incidentReportFiled: bool|null,
+  surveillanceFootage: bool|null,
+  photosTaken: bool|null,
+  citations: [{ field: string, turnIds: number[], quotes: [{ turnId: number, text: string }] }] (optional - cite which turn IDs support each extracted field),
+  fieldConfidence: [{ field: string, score: number (0-1) }] (optional - how certain you are of each extracted value)
+}
+
+Rules:
+- Use null for unknown/unmentioned (distinguish from "no" which is false)
+- propertyOwner: The owner, landlord or business running the property
+- hazard: The specific condition, e.g. "spilled liquid in aisle 5, no cone", "broken handrail on back stairs"
+- ownerAwareOfHazard: true if the condition had been there a while, was reported before or staff were seen near it
+- incidentReportFiled: Whether a report was made with the property (store manager, landlord), not the police
+- surveillanceFootage: true if the client mentions cameras in the area
+- photosTaken: Whether anyone photographed the hazard or the scene
+- citations: Cite which turn IDs mention each premises detail
+${QUOTE_RULES}
+${CONFIDENCE_RULES}`;
+
+export const CASE_SECTION_SYSTEM_PROMPTS: Record<CaseSection, string> = {
+  mvaDetails: MVA_DETAILS_SYSTEM_PROMPT,
+  dogBiteDetails: DOG_BITE_DETAILS_SYSTEM_PROMPT,
+  premisesDetails: PREMISES_DETAILS_SYSTEM_PROMPT,
+};
 
 type TurnInfo = {
   turnId: number;
@@ -136,7 +287,7 @@ export function getUserPromptForSection(
     ? `\n\nTurns in this chunk (with IDs for citation):
 ${turns.map((t) => `Turn ${t.turnId} (Speaker ${t.speaker}): ${t.content}`).join("\n")}
 
-When extracting data, cite the turn IDs that support each piece of information.`
+When extracting data, cite the turn IDs that support each piece of information and quote the exact words you relied on.`
     : "";
 
   return `Extract ${sectionName} from this transcript segment${chunkInfo}.
@@ -1,14 +1,35 @@
 import { z } from "zod";
+import type { CaseTypeDefinition, Citation } from "@/db/types";
+import type { CaseSection } from "@/lib/intake/case-sections";
+
+// Verbatim excerpt from a cited turn, checked against the transcript after extraction
+const CitationQuoteSchema = z.object({
+  turnId: z.number(),
+  text: z.string(),
+});
 
 // Citation schema - references to turn IDs
 const CitationSchema = z.object({
   field: z.string(), // Field name being cited (e.g., "clientName", "incidentDate")
   turnIds: z.array(z.number()), // Turn IDs that support this field
+  quotes: z.array(CitationQuoteSchema).optional(), // One short quote per cited turn
+});
+
+// The model's own certainty in each value it extracted
+const FieldConfidenceSchema = z.object({
+  field: z.string(), // Same field names as citations
+  score: z.number().min(0).max(1),
+});
+
+// One of the chosen case type's own fields (see CaseTypeField)
+const CaseDetailSchema = z.object({
+  key: z.string(),
+  value: z.union([z.string(), z.number(), z.boolean()]).nullable(),
 });
 
 // Client basic information schema
 export const ClientInfoSchema = z.object({
-  caseType: z.enum(["dog_bites", "mva", "slip_and_fall"]),
+  caseType: z.string(), // Case type ID, limited to the registry by createClientInfoSchema
   clientName: z.string().nullable().optional(),
   clientDob: z.string().nullable().optional(),
   clientPhone: z.string().nullable().optional(),
@@ -17,9 +38,21 @@ export const ClientInfoSchema = z.object({
   incidentDate: z.string().nullable().optional(),
   incidentLocation: z.string().nullable().optional(),
   brief: z.string().nullable().optional(), // AI-generated case summary (5 sentences max)
+  caseDetails: z.array(CaseDetailSchema).optional(), // Type-specific fields of the chosen case type
   citations: z.array(CitationSchema).optional(), // Turn IDs supporting extracted client info
+  fieldConfidence: z.array(FieldConfidenceSchema).optional(),
 });
 
+/**
+ * The client info schema with caseType limited to the registry's case types
+ */
+export function createClientInfoSchema(caseTypes: CaseTypeDefinition[]) {
+  const [first, ...rest] = caseTypes.map((caseType) => caseType.id);
+  return first
+    ? ClientInfoSchema.extend({ caseType: z.enum([first, ...rest]) })
+    : ClientInfoSchema;
+}
+
 // Liability schema
 const EvidenceSchema = z
   .object({
@@ -42,6 +75,7 @@ export const LiabilitySchema = z.object({
   hasPoliceReport: z.boolean(),
   evidence: z.array(EvidenceSchema).optional(),
   citations: z.array(CitationSchema).optional(), // Turn IDs supporting liability findings
+  fieldConfidence: z.array(FieldConfidenceSchema).optional(),
 });
 
 // Damages schema
@@ -55,6 +89,7 @@ export const DamagesSchema = z.object({
   severity: z.enum(["low", "medium", "high"]),
   indications: z.array(IndicationSchema),
   citations: z.array(CitationSchema).optional(), // Turn IDs supporting damage assessments
+  fieldConfidence: z.array(FieldConfidenceSchema).optional(),
 });
 
 // Coverage schema
@@ -81,9 +116,91 @@ export const CoverageSchema = z.object({
 
   notes: z.string().nullable().optional(),
   citations: z.array(CitationSchema).optional(), // Turn IDs supporting coverage information
+  fieldConfidence: z.array(FieldConfidenceSchema).optional(),
+});
+
+// Case-type-specific sections (see lib/intake/case-sections.ts); only the one
+// matching the chunk's case type is extracted
+export const MvaDetailsSchema = z.object({
+  clientRole: z
+    .enum(["driver", "passenger", "pedestrian", "cyclist", "motorcyclist"])
+    .nullable()
+    .optional(),
+  clientVehicle: z.string().nullable().optional(),
+  clientLicensePlate: z.string().nullable().optional(),
+  otherDriverName: z.string().nullable().optional(),
+  otherVehicle: z.string().nullable().optional(),
+  otherLicensePlate: z.string().nullable().optional(),
+  seatbeltWorn: z.boolean().nullable(),
+  airbagsDeployed: z.boolean().nullable(),
+  vehicleTowed: z.boolean().nullable(),
+  otherDriverCited: z.boolean().nullable(),
+  citations: z.array(CitationSchema).optional(), // Turn IDs supporting vehicle details
+  fieldConfidence: z.array(FieldConfidenceSchema).optional(),
 });
 
-export type ClientInfo = z.infer<typeof ClientInfoSchema>;
-export type Liability = z.infer<typeof LiabilitySchema>;
-export type Damages = z.infer<typeof DamagesSchema>;
-export type Coverage = z.infer<typeof CoverageSchema>;
+export const DogBiteDetailsSchema = z.object({
+  dogBreed: z.string().nullable().optional(),
+  dogDescription: z.string().nullable().optional(),
+  ownerName: z.string().nullable().optional(),
+  ownerAddress: z.string().nullable().optional(),
+  priorBiteHistory: z.boolean().nullable(),
+  priorBiteDetails: z.string().nullable().optional(),
+  leashed: z.boolean().nullable(),
+  provoked: z.boolean().nullable(),
+  animalControlReported: z.boolean().nullable(),
+  rabiesVaccinated: z.boolean().nullable(),
+  citations: z.array(CitationSchema).optional(), // Turn IDs supporting animal details
+  fieldConfidence: z.array(FieldConfidenceSchema).optional(),
+});
+
+export const PremisesDetailsSchema = z.object({
+  propertyType: z.string().nullable().optional(),
+  propertyOwner: z.string().nullable().optional(),
+  hazard: z.string().nullable().optional(),
+  warningSignsPresent: z.boolean().nullable(),
+  ownerAwareOfHazard: z.boolean().nullable(),
+  incidentReportFiled: z.boolean().nullable(),
+  surveillanceFootage: z.boolean().nullable(),
+  photosTaken: z.boolean().nullable(),
+  citations: z.array(CitationSchema).optional(), // Turn IDs supporting premises details
+  fieldConfidence: z.array(FieldConfidenceSchema).optional(),
+});
+
+export const CASE_SECTION_SCHEMAS: Record<
+  CaseSection,
+  z.ZodType<CaseSectionOutput>
+> = {
+  mvaDetails: MvaDetailsSchema,
+  dogBiteDetails: DogBiteDetailsSchema,
+  premisesDetails: PremisesDetailsSchema,
+};
+
+export type ModelCitation = z.infer<typeof CitationSchema>;
+
+// Sections as the model returns them, with quotes still unchecked
+export type ClientInfoOutput = z.infer<typeof ClientInfoSchema>;
+export type LiabilityOutput = z.infer<typeof LiabilitySchema>;
+export type DamagesOutput = z.infer<typeof DamagesSchema>;
+export type CoverageOutput = z.infer<typeof CoverageSchema>;
+export type MvaDetailsOutput = z.infer<typeof MvaDetailsSchema>;
+export type DogBiteDetailsOutput = z.infer<typeof DogBiteDetailsSchema>;
+export type PremisesDetailsOutput = z.infer<typeof PremisesDetailsSchema>;
+export type CaseSectionOutput =
+  | MvaDetailsOutput
+  | DogBiteDetailsOutput
+  | PremisesDetailsOutput;
+
+// Sections after citation verification (see citation-verifier.ts)
+type WithCitations<T> = Omit<T, "citations"> & { citations?: Citation[] };
+
+export type ModelFieldConfidence = z.infer<typeof FieldConfidenceSchema>;
+
+export type ClientInfo = WithCitations<ClientInfoOutput>;
+export type Liability = WithCitations<LiabilityOutput>;
+export type Damages = WithCitations<DamagesOutput>;
+export type Coverage = WithCitations<CoverageOutput>;
+export type MvaDetails = WithCitations<MvaDetailsOutput>;
+export type DogBiteDetails = WithCitations<DogBiteDetailsOutput>;
+export type PremisesDetails = WithCitations<PremisesDetailsOutput>;
+export type CaseSectionData = WithCitations<CaseSectionOutput>;
@@ -1,16 +1,44 @@
-import { AI_CONFIG } from "./config";
+import { Tiktoken } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+import { getModelSpec } from "./providers";
+
+export type TokenizerName = "o200k_base" | "cl100k_base";
+
+const RANKS = { o200k_base, cl100k_base };
+const encoders = new Map<TokenizerName, Tiktoken>();
 
 /**
- * Estimate the number of tokens in a text string
- * Uses a rough heuristic: ~4 characters per token
+ * Pick the tokenizer for a model spec. OpenAI's current models use o200k;
+ * for providers whose tokenizer we don't ship (Anthropic, local models)
+ * cl100k is a close enough stand-in for budgeting.
  */
-export function estimateTokens(text: string): number {
-  return Math.ceil(text.length * AI_CONFIG.ESTIMATED_TOKENS_PER_CHAR);
+export function tokenizerForModel(
+  spec: string = getModelSpec(),
+): TokenizerName {
+  const [provider, model = ""] = spec.split(/:(.*)/);
+  if (
+    (provider === "openai" || provider === "azure") &&
+    /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/.test(model)
+  ) {
+    return "o200k_base";
+  }
+  return "cl100k_base";
+}
+
+function getEncoder(spec?: string) {
+  const name = tokenizerForModel(spec);
+  let encoder = encoders.get(name);
+  if (!encoder) {
+    encoder = new Tiktoken(RANKS[name]);
+    encoders.set(name, encoder);
+  }
+  return encoder;
 }
 
 /**
- * Estimate the number of characters for a given token count
+ * Count the tokens in a text string with the model's tokenizer
  */
-export function estimateCharactersForTokens(tokens: number): number {
-  return Math.floor(tokens / AI_CONFIG.ESTIMATED_TOKENS_PER_CHAR);
+export function estimateTokens(text: string, model?: string): number {
+  return getEncoder(model).encode(text).length;
 }
@@ -2,7 +2,24 @@ export type Transcript = {
   segments: Array<{
     speaker: number;
     content: string;
+    start?: number; // Seconds from the start of the recording (when the source has timings)
+    end?: number;
   }>;
+  speakers?: TranscriptSpeaker[]; // Names from the source and identified roles
+};
+
+export type SpeakerRole =
+  | "intake_attorney"
+  | "client"
+  | "witness"
+  | "family_member"
+  | "interpreter"
+  | "other";
+
+export type TranscriptSpeaker = {
+  speaker: number;
+  name?: string;
+  role?: SpeakerRole;
 };
 
 export type TranscriptSegmentWithTurnId = {
@@ -0,0 +1,105 @@
+import { and, eq, inArray, isNull, or } from "drizzle-orm";
+import { db } from "@/db";
+import { matterAssignments, matters } from "@/db/schema";
+import type { Permission } from "./permissions";
+import { requirePermission, requireUser, type SessionUser } from "./session";
+
+// Matters created before sign-in existed have neither an owner nor a creator
+const isLegacyMatter = and(
+  isNull(matters.ownerId),
+  isNull(matters.createdById),
+);
+
+/**
+ * Matters a user may see and work on: the ones they own, the ones they're
+ * assigned to, and legacy matters nobody has taken on. A matter that doesn't
+ * have an owner yet is reached through its creator's assignment. Deleted
+ * matters are nobody's.
+ */
+export function accessibleMatters(userId: number) {
+  return and(
+    isNull(matters.deletedAt),
+    or(
+      isLegacyMatter,
+      eq(matters.ownerId, userId),
+      inArray(
+        matters.id,
+        db
+          .select({ matterId: matterAssignments.matterId })
+          .from(matterAssignments)
+          .where(eq(matterAssignments.userId, userId)),
+      ),
+    ),
+  );
+}
+
+export async function canAccessMatter(userId: number, matterId: number) {
+  const matter = await db.query.matters.findFirst({
+    where: and(eq(matters.id, matterId), accessibleMatters(userId)),
+    columns: { id: true },
+  });
+  return Boolean(matter);
+}
+
+/**
+ * The signed-in user, provided they may work on the matter and, when given,
+ * their role grants the permission. Matters they can't access are reported as
+ * missing so their existence isn't leaked.
+ */
+export async function requireMatterAccess(
+  matterId: number,
+  permission?: Permission,
+): Promise<SessionUser> {
+  const user = permission
+    ? await requirePermission(permission)
+    : await requireUser();
+  if (!(await canAccessMatter(user.id, matterId))) {
+    throw new Error(`Matter ${matterId} not found`);
+  }
+  return user;
+}
+
+/**
+ * Whether a user may change a matter's team: its owner, or its creator until
+ * an attorney owns it. Anyone with access may take on a legacy matter.
+ */
+export function canManageMatterTeam(
+  matter: { ownerId: number | null; createdById: number | null },
+  userId: number,
+) {
+  const manager = matter.ownerId ?? matter.createdById;
+  return manager === null || manager === userId;
+}
+
+/**
+ * Like requireMatterAccess, for actions only the matter's owner may take
+ * (see canManageMatterTeam)
+ */
+export async function requireMatterOwner(
+  matterId: number,
+): Promise<SessionUser> {
+  const user = await requireMatterAccess(matterId);
+  const matter = await db.query.matters.findFirst({
+    where: eq(matters.id, matterId),
+    columns: { ownerId: true, createdById: true },
+  });
+  if (!matter || !canManageMatterTeam(matter, user.id)) {
+    throw new Error("Only the matter's owner can do that");
+  }
+  return user;
+}
+
+/**
+ * Attorneys own the matters they create. Anyone else is assigned to theirs,
+ * so only they (and whoever they add) can see it until an attorney takes it on.
+ */
+export async function assignNewMatter(matterId: number, user: SessionUser) {
+  const isAttorney = user.role === "attorney";
+  await db
+    .update(matters)
+    .set({ createdById: user.id, ...(isAttorney && { ownerId: user.id }) })
+    .where(eq(matters.id, matterId));
+  if (!isAttorney) {
+    await db.insert(matterAssignments).values({ matterId, userId: user.id });
+  }
+}
@@ -0,0 +1,5 @@
+export const AUTH_CONFIG = {
+  SESSION_COOKIE: "finch_session",
+  SESSION_TTL_MS: 14 * 24 * 60 * 60 * 1000, // Users sign in again after two weeks
+  MIN_PASSWORD_LENGTH: 10,
+} as const;
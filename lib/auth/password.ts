@@ -0,0 +1,45 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+import { AUTH_CONFIG } from "./config";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a password for storage as "scrypt$<salt>$<hash>" (base64url)
+ */
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "base64url"),
+    expected.length,
+  );
+  return timingSafeEqual(actual, expected);
+}
+
+/**
+ * Why a password can't be used, or null when it's acceptable
+ */
+export function checkPasswordStrength(password: string): string | null {
+  if (password.length < AUTH_CONFIG.MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${AUTH_CONFIG.MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
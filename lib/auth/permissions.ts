@@ -0,0 +1,69 @@
+import type { UserRole } from "@/db/types";
+
+export type Permission =
+  | "matter:create"
+  | "transcript:upload"
+  | "matter:edit"
+  | "matter:decide"
+  | "matter:delete"
+  | "caseTypes:manage"
+  | "users:manage";
+
+// Completes "Paralegals can't ..." in permission errors
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  "matter:create": "create matters",
+  "transcript:upload": "upload transcripts or run extraction",
+  "matter:edit": "edit intake data",
+  "matter:decide": "make retention decisions",
+  "matter:delete": "delete matters",
+  "caseTypes:manage": "change case types",
+  "users:manage": "manage users",
+};
+
+export const USER_ROLES: UserRole[] = [
+  "intake_specialist",
+  "paralegal",
+  "attorney",
+  "admin",
+];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  intake_specialist: "Intake Specialist",
+  paralegal: "Paralegal",
+  attorney: "Attorney",
+  admin: "Admin",
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  intake_specialist: ["matter:create", "transcript:upload"],
+  paralegal: ["matter:create", "transcript:upload", "matter:edit"],
+  attorney: [
+    "matter:create",
+    "transcript:upload",
+    "matter:edit",
+    "matter:decide",
+    "matter:delete",
+    "caseTypes:manage",
+  ],
+  // Admins run the firm's setup, not its cases
+  admin: ["users:manage", "caseTypes:manage"],
+};
+
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+export function hasPermission(role: UserRole, permission: Permission) {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Throw the error a user sees when their role doesn't grant the permission
+ */
+export function assertPermission(role: UserRole, permission: Permission) {
+  if (!hasPermission(role, permission)) {
+    throw new Error(
+      `${ROLE_LABELS[role]}s can't ${PERMISSION_LABELS[permission]}`,
+    );
+  }
+}
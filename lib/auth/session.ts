@@ -0,0 +1,123 @@
+import { createHash, randomBytes } from "node:crypto";
+import { eq, lt } from "drizzle-orm";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { cache } from "react";
+import { db } from "@/db";
+import { sessions, users } from "@/db/schema";
+import type { UserRole } from "@/db/types";
+import { AUTH_CONFIG } from "./config";
+import { assertPermission, type Permission } from "./permissions";
+
+export type SessionUser = {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  role: UserRole;
+};
+
+/**
+ * Only a hash of the cookie's token is stored, so a leaked database can't be
+ * used to sign in
+ */
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Start a session for a user who just proved who they are, and set its cookie.
+ * Only callable from server actions and route handlers.
+ */
+export async function createSession(userId: number) {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + AUTH_CONFIG.SESSION_TTL_MS);
+
+  await db.delete(sessions).where(lt(sessions.expiresAt, new Date()));
+  await db.insert(sessions).values({ id: hashToken(token), userId, expiresAt });
+
+  const cookieStore = await cookies();
+  cookieStore.set(AUTH_CONFIG.SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+/**
+ * End the current session, if any, and clear its cookie
+ */
+export async function destroySession() {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(AUTH_CONFIG.SESSION_COOKIE)?.value;
+  if (token) {
+    await db.delete(sessions).where(eq(sessions.id, hashToken(token)));
+  }
+  cookieStore.delete(AUTH_CONFIG.SESSION_COOKIE);
+}
+
+/**
+ * The signed-in user, or null. Cached for the duration of a request.
+ */
+export const getCurrentUser = cache(async (): Promise<SessionUser | null> => {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(AUTH_CONFIG.SESSION_COOKIE)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const [row] = await db
+    .select({
+      user: {
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        role: users.role,
+      },
+      expiresAt: sessions.expiresAt,
+    })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(eq(sessions.id, hashToken(token)))
+    .limit(1);
+
+  if (!row || row.expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+
+  return { ...row.user, role: row.user.role as UserRole };
+});
+
+export async function requireUser(): Promise<SessionUser> {
+  const user = await getCurrentUser();
+  if (!user) {
+    throw new Error("You must be signed in");
+  }
+  return user;
+}
+
+/**
+ * The signed-in user, provided their role grants the permission
+ */
+export async function requirePermission(
+  permission: Permission,
+): Promise<SessionUser> {
+  const user = await requireUser();
+  assertPermission(user.role, permission);
+  return user;
+}
+
+/**
+ * For pages: the signed-in user, or a redirect to the login page when the
+ * session cookie is stale
+ */
+export async function requirePageUser(): Promise<SessionUser> {
+  const user = await getCurrentUser();
+  if (!user) {
+    redirect("/login");
+  }
+  return user;
+}
@@ -0,0 +1,176 @@
+import type { CaseTypeDefinition } from "@/db/types";
+
+/**
+ * The case types a new install starts with. The registry lives in the
+ * case_types table, where the firm can edit these and add its own.
+ */
+export const DEFAULT_CASE_TYPES: CaseTypeDefinition[] = [
+  {
+    id: "mva",
+    label: "Motor Vehicle Accident",
+    promptHints:
+      "Collisions involving cars, trucks, motorcycles, bicycles or pedestrians hit by a vehicle",
+    fields: [],
+    scoring: null,
+    sortOrder: 0,
+  },
+  {
+    id: "dog_bites",
+    label: "Dog Bites",
+    promptHints: "Bites or attacks by a dog or other animal",
+    fields: [],
+    scoring: null,
+    sortOrder: 1,
+  },
+  {
+    id: "slip_and_fall",
+    label: "Slip and Fall",
+    promptHints:
+      "Falls caused by wet floors, ice, uneven surfaces, poor lighting or obstacles",
+    fields: [],
+    scoring: null,
+    sortOrder: 2,
+  },
+  {
+    id: "premises_liability",
+    label: "Premises Liability",
+    promptHints:
+      "Injuries from unsafe property conditions other than a fall: negligent security, falling objects, pool or elevator accidents",
+    fields: [],
+    scoring: null,
+    sortOrder: 3,
+  },
+  {
+    id: "medical_malpractice",
+    label: "Medical Malpractice",
+    promptHints:
+      "Harm caused by a doctor, nurse, hospital or other provider: misdiagnosis, surgical errors, medication errors",
+    fields: [
+      {
+        key: "providerName",
+        label: "Provider",
+        kind: "text",
+        description: "Doctor or other provider responsible",
+      },
+      {
+        key: "facilityName",
+        label: "Facility",
+        kind: "text",
+        description: "Hospital or clinic where the treatment happened",
+      },
+      {
+        key: "treatment",
+        label: "Treatment",
+        kind: "text",
+        description: "Procedure, diagnosis or medication that went wrong",
+      },
+      {
+        key: "discoveryDate",
+        label: "Date harm discovered",
+        kind: "date",
+        description: "When the client learned of the harm (YYYY-MM-DD)",
+      },
+    ],
+    // Negligence is hard to prove and needs expert support, so liability counts most
+    scoring: {
+      weights: {
+        liability: 45,
+        damages: 30,
+        coverage: 10,
+        statuteOfLimitations: 15,
+      },
+      statuteOfLimitationsYears: 2,
+      acceptThreshold: 70,
+      declineThreshold: 45,
+    },
+    sortOrder: 4,
+  },
+  {
+    id: "workplace_injury",
+    label: "Workplace Injury",
+    promptHints:
+      "Injuries on the job or while working, including construction accidents",
+    fields: [
+      { key: "employerName", label: "Employer", kind: "text" },
+      { key: "jobTitle", label: "Job title", kind: "text" },
+      {
+        key: "reportedToEmployer",
+        label: "Reported to employer",
+        kind: "boolean",
+      },
+      {
+        key: "workersCompClaimFiled",
+        label: "Workers' comp claim filed",
+        kind: "boolean",
+      },
+    ],
+    // Workers' comp covers the employer, so insurance matters less than injuries
+    scoring: {
+      weights: {
+        liability: 30,
+        damages: 45,
+        coverage: 10,
+        statuteOfLimitations: 15,
+      },
+      statuteOfLimitationsYears: 2,
+      acceptThreshold: 65,
+      declineThreshold: 40,
+    },
+    sortOrder: 5,
+  },
+  {
+    id: "product_liability",
+    label: "Product Liability",
+    promptHints:
+      "Injuries caused by a defective or dangerous product, device, vehicle part or drug",
+    fields: [
+      { key: "productName", label: "Product", kind: "text" },
+      { key: "manufacturer", label: "Manufacturer", kind: "text" },
+      {
+        key: "productRetained",
+        label: "Client still has the product",
+        kind: "boolean",
+      },
+    ],
+    scoring: null,
+    sortOrder: 6,
+  },
+  {
+    id: "wrongful_death",
+    label: "Wrongful Death",
+    promptHints:
+      "The caller is a family member or representative of someone who died because of another's negligence",
+    fields: [
+      { key: "decedentName", label: "Decedent", kind: "text" },
+      {
+        key: "relationshipToClient",
+        label: "Relationship to client",
+        kind: "text",
+      },
+      {
+        key: "dateOfDeath",
+        label: "Date of death",
+        kind: "date",
+        description: "YYYY-MM-DD",
+      },
+      { key: "causeOfDeath", label: "Cause of death", kind: "text" },
+    ],
+    scoring: null,
+    sortOrder: 7,
+  },
+];
+
+export function findCaseType(
+  caseTypes: CaseTypeDefinition[],
+  id: string,
+): CaseTypeDefinition | undefined {
+  return caseTypes.find((caseType) => caseType.id === id);
+}
+
+/**
+ * Display name for a case type, falling back to its ID for types that have
+ * since been removed from the registry
+ */
+export function getCaseTypeLabel(caseTypes: CaseTypeDefinition[], id: string) {
+  return findCaseType(caseTypes, id)?.label ?? id.replace(/_/g, " ");
+}
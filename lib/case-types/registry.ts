@@ -0,0 +1,35 @@
+import { asc } from "drizzle-orm";
+import { db } from "@/db";
+import { caseTypes } from "@/db/schema";
+import type {
+  CaseTypeDefinition,
+  CaseTypeField,
+  CaseTypeScoring,
+} from "@/db/types";
+import { DEFAULT_CASE_TYPES } from "./defaults";
+
+/**
+ * Every case type in the registry, in display order. An empty registry is
+ * seeded with the defaults so a fresh database works out of the box. Two
+ * requests can both find it empty, so the seed skips rows already inserted.
+ */
+export async function listCaseTypes(): Promise<CaseTypeDefinition[]> {
+  const rows = await db
+    .select()
+    .from(caseTypes)
+    .orderBy(asc(caseTypes.sortOrder), asc(caseTypes.label));
+
+  if (rows.length === 0) {
+    console.log(
+      `[Case Types] Registry is empty, seeding ${DEFAULT_CASE_TYPES.length} default case type(s)`,
+    );
+    await db.insert(caseTypes).values(DEFAULT_CASE_TYPES).onConflictDoNothing();
+    return DEFAULT_CASE_TYPES;
+  }
+
+  return rows.map((row) => ({
+    ...row,
+    fields: row.fields as CaseTypeField[],
+    scoring: row.scoring as CaseTypeScoring | null,
+  }));
+}
@@ -0,0 +1,57 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { processTranscripts } from "@/lib/ai/processor";
+import type { ChunkExtraction } from "@/lib/ai/specialized-extractor";
+import { parseTranscriptText } from "@/lib/transcripts/parsers";
+import type { GoldCase } from "./score";
+
+const GOLD_SUFFIX = ".gold.json";
+
+/**
+ * Run the extraction pipeline on a transcript file (any importable text
+ * format). Turn IDs are the 1-based segment numbers, which is what gold
+ * citations refer to.
+ */
+export async function processTranscriptFile(
+  file: string,
+): Promise<ChunkExtraction> {
+  const { transcript } = parseTranscriptText(
+    await readFile(file, "utf8"),
+    file,
+  );
+
+  return processTranscripts([
+    {
+      transcript,
+      segmentsWithTurnIds: transcript.segments.map((segment, index) => ({
+        turnId: index + 1,
+        turnIndex: index,
+        speaker: segment.speaker,
+        content: segment.content,
+      })),
+      label: path.basename(file),
+    },
+  ]);
+}
+
+/**
+ * Load every `<name>.gold.json` in a folder, resolving transcript paths
+ */
+export async function loadGoldCases(directory: string): Promise<GoldCase[]> {
+  const files = (await readdir(directory))
+    .filter((file) => file.endsWith(GOLD_SUFFIX))
+    .sort();
+
+  return Promise.all(
+    files.map(async (file) => {
+      const gold = JSON.parse(
+        await readFile(path.join(directory, file), "utf8"),
+      ) as Omit<GoldCase, "name">;
+      return {
+        ...gold,
+        name: file.slice(0, -GOLD_SUFFIX.length),
+        transcript: path.resolve(directory, gold.transcript),
+      };
+    }),
+  );
+}
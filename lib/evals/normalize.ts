@@ -0,0 +1,54 @@
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function normalizeText(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}@.\s]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function tokens(value: string) {
+  return new Set(normalizeText(value).split(" ").filter(Boolean));
+}
+
+/**
+ * Share of the expected text's words that appear in the actual text, so
+ * "Big Star Grocery, Milton Ave" still credits "Big Star Grocery Store on Milton Ave"
+ */
+export function textOverlap(expected: string, actual: string) {
+  const want = tokens(expected);
+  if (want.size === 0) return 0;
+  const have = tokens(actual);
+  let found = 0;
+  for (const token of want) {
+    if (have.has(token)) found++;
+  }
+  return found / want.size;
+}
+
+export function isIsoDate(value: string) {
+  return ISO_DATE.test(value);
+}
+
+/**
+ * Any parseable date → YYYY-MM-DD (null if it can't be read)
+ */
+export function normalizeDate(value: string) {
+  if (isIsoDate(value)) return value;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) return null;
+  const month = String(parsed.getMonth() + 1).padStart(2, "0");
+  const day = String(parsed.getDate()).padStart(2, "0");
+  return `${parsed.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Digits only, dropping a leading US country code
+ */
+export function normalizePhone(value: string) {
+  const digits = value.replace(/\D/g, "");
+  return digits.length === 11 && digits.startsWith("1")
+    ? digits.slice(1)
+    : digits;
+}
@@ -0,0 +1,191 @@
+import type { CaseResult, FieldOutcome } from "./score";
+
+type Counts = { tp: number; fp: number; fn: number };
+
+type Rate = { correct: number; total: number };
+
+export type FieldStats = Counts & {
+  precision: number | null;
+  recall: number | null;
+};
+
+export type EvalReport = {
+  createdAt: string;
+  cases: CaseResult[];
+  fields: Record<string, FieldStats>;
+  normalization: { date: Rate; phone: Rate };
+  citations: {
+    accuracy: Rate; // Labelled fields where at least one cited turn is right
+    turnPrecision: number | null;
+    turnRecall: number | null;
+  };
+};
+
+const OUTCOME_COUNTS: Record<FieldOutcome, Counts> = {
+  tp: { tp: 1, fp: 0, fn: 0 },
+  tn: { tp: 0, fp: 0, fn: 0 },
+  fp: { tp: 0, fp: 1, fn: 0 },
+  fn: { tp: 0, fp: 0, fn: 1 },
+  wrong: { tp: 0, fp: 1, fn: 1 },
+};
+
+function ratio(numerator: number, denominator: number) {
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+function withRates(counts: Counts): FieldStats {
+  return {
+    ...counts,
+    precision: ratio(counts.tp, counts.tp + counts.fp),
+    recall: ratio(counts.tp, counts.tp + counts.fn),
+  };
+}
+
+function add(a: Counts, b: Counts): Counts {
+  return { tp: a.tp + b.tp, fp: a.fp + b.fp, fn: a.fn + b.fn };
+}
+
+export function summarize(cases: CaseResult[]): EvalReport {
+  const counts: Record<string, Counts> = {};
+  const normalization = {
+    date: { correct: 0, total: 0 },
+    phone: { correct: 0, total: 0 },
+  };
+  const accuracy = { correct: 0, total: 0 };
+  let citedRight = 0;
+  let cited = 0;
+  let expectedTurns = 0;
+
+  for (const result of cases) {
+    if (result.error) continue;
+
+    for (const [key, field] of Object.entries(result.fields)) {
+      counts[key] = add(
+        counts[key] ?? { tp: 0, fp: 0, fn: 0 },
+        OUTCOME_COUNTS[field.outcome],
+      );
+      if (field.exactFormat !== undefined) {
+        const rate = normalization[field.kind as "date" | "phone"];
+        rate.total++;
+        if (field.exactFormat) rate.correct++;
+      }
+    }
+
+    counts["damages.indications"] = add(
+      counts["damages.indications"] ?? { tp: 0, fp: 0, fn: 0 },
+      result.indications,
+    );
+
+    for (const { expected, actual } of Object.values(result.citations)) {
+      const overlap = actual.filter((id) => expected.includes(id)).length;
+      accuracy.total++;
+      if (overlap > 0) accuracy.correct++;
+      citedRight += overlap;
+      cited += actual.length;
+      expectedTurns += expected.length;
+    }
+  }
+
+  return {
+    createdAt: new Date().toISOString(),
+    cases,
+    fields: Object.fromEntries(
+      Object.entries(counts).map(([key, c]) => [key, withRates(c)]),
+    ),
+    normalization,
+    citations: {
+      accuracy,
+      turnPrecision: ratio(citedRight, cited),
+      turnRecall: ratio(citedRight, expectedTurns),
+    },
+  };
+}
+
+function percent(value: number | null) {
+  return value === null ? "   -" : `${Math.round(value * 100)}%`.padStart(4);
+}
+
+function rate({ correct, total }: Rate) {
+  return `${percent(ratio(correct, total))} (${correct}/${total})`;
+}
+
+export function formatReport(report: EvalReport) {
+  const failed = report.cases.filter((c) => c.error);
+  const keyWidth = Math.max(
+    5,
+    ...Object.keys(report.fields).map((key) => key.length),
+  );
+
+  const lines = [
+    `Cases: ${report.cases.length - failed.length} scored${failed.length > 0 ? `, ${failed.length} failed` : ""}`,
+    ...failed.map((c) => `  ✗ ${c.name}: ${c.error}`),
+    "",
+    `${"Field".padEnd(keyWidth)}  Prec  Rec   TP  FP  FN`,
+    ...Object.entries(report.fields).map(
+      ([key, s]) =>
+        `${key.padEnd(keyWidth)}  ${percent(s.precision)}  ${percent(s.recall)}  ${String(s.tp).padStart(3)} ${String(s.fp).padStart(3)} ${String(s.fn).padStart(3)}`,
+    ),
+    "",
+    `Date format accuracy:   ${rate(report.normalization.date)}`,
+    `Phone format accuracy:  ${rate(report.normalization.phone)}`,
+    `Citation accuracy:      ${rate(report.citations.accuracy)}`,
+    `Cited turn precision:   ${percent(report.citations.turnPrecision)}`,
+    `Cited turn recall:      ${percent(report.citations.turnRecall)}`,
+  ];
+
+  return lines.join("\n");
+}
+
+function isPass(outcome: FieldOutcome) {
+  return outcome === "tp" || outcome === "tn";
+}
+
+function f1(stats?: FieldStats) {
+  if (!stats || stats.precision === null || stats.recall === null) return null;
+  const sum = stats.precision + stats.recall;
+  return sum === 0 ? 0 : (2 * stats.precision * stats.recall) / sum;
+}
+
+/**
+ * What changed since the previous run: field-level F1 moves and individual
+ * case/field results that flipped between pass and fail
+ */
+export function formatDiff(previous: EvalReport, current: EvalReport) {
+  const lines: string[] = [];
+
+  const keys = new Set([
+    ...Object.keys(previous.fields),
+    ...Object.keys(current.fields),
+  ]);
+  for (const key of keys) {
+    const before = f1(previous.fields[key]);
+    const after = f1(current.fields[key]);
+    if (before === after) continue;
+    if (before !== null && after !== null && Math.abs(after - before) < 0.005) {
+      continue;
+    }
+    const arrow =
+      before === null || (after !== null && after > before) ? "▲" : "▼";
+    lines.push(`  ${arrow} ${key}: F1 ${percent(before)} → ${percent(after)}`);
+  }
+
+  const previousCases = new Map(previous.cases.map((c) => [c.name, c]));
+  for (const result of current.cases) {
+    const before = previousCases.get(result.name);
+    if (!before) continue;
+
+    for (const [key, field] of Object.entries(result.fields)) {
+      const old = before.fields[key];
+      if (!old || isPass(old.outcome) === isPass(field.outcome)) continue;
+      lines.push(
+        isPass(field.outcome)
+          ? `  + ${result.name} ${key}: now ${JSON.stringify(field.actual)}`
+          : `  - ${result.name} ${key}: ${JSON.stringify(old.actual)} → ${JSON.stringify(field.actual)} (expected ${JSON.stringify(field.expected)})`,
+      );
+    }
+  }
+
+  return lines.length > 0
+    ? [`Changes since ${previous.createdAt}:`, ...lines].join("\n")
+    : `No changes since ${previous.createdAt}`;
+}
@@ -0,0 +1,206 @@
+import type { ChunkExtraction } from "@/lib/ai/specialized-extractor";
+import {
+  normalizeDate,
+  normalizePhone,
+  normalizeText,
+  textOverlap,
+} from "./normalize";
+
+type Section = Exclude<keyof ChunkExtraction, "confidence">;
+
+// How a field's value is compared against the label
+type FieldKind = "exact" | "text" | "date" | "phone" | "email";
+
+type EvalField = { section: Section; field: string; kind: FieldKind };
+
+const TEXT_MATCH_THRESHOLD = 0.6; // Share of labelled words the extraction must contain
+
+export const EVAL_FIELDS: EvalField[] = [
+  { section: "clientInfo", field: "caseType", kind: "exact" },
+  { section: "clientInfo", field: "clientName", kind: "text" },
+  { section: "clientInfo", field: "clientDob", kind: "date" },
+  { section: "clientInfo", field: "clientPhone", kind: "phone" },
+  { section: "clientInfo", field: "clientEmail", kind: "email" },
+  { section: "clientInfo", field: "clientAddress", kind: "text" },
+  { section: "clientInfo", field: "incidentDate", kind: "date" },
+  { section: "clientInfo", field: "incidentLocation", kind: "text" },
+  { section: "liability", field: "atFault", kind: "exact" },
+  { section: "liability", field: "hasPoliceReport", kind: "exact" },
+  { section: "damages", field: "severity", kind: "exact" },
+  { section: "coverage", field: "clientHasInsurance", kind: "exact" },
+  { section: "coverage", field: "clientInsuranceProvider", kind: "text" },
+  { section: "coverage", field: "clientPolicyNumber", kind: "text" },
+  { section: "coverage", field: "clientCoverageEffectiveDate", kind: "date" },
+  { section: "coverage", field: "clientCoverageExpirationDate", kind: "date" },
+  { section: "coverage", field: "otherPartyHasInsurance", kind: "exact" },
+  { section: "coverage", field: "otherPartyInsuranceProvider", kind: "text" },
+  { section: "coverage", field: "otherPartyPolicyNumber", kind: "text" },
+  {
+    section: "coverage",
+    field: "otherPartyCoverageEffectiveDate",
+    kind: "date",
+  },
+  {
+    section: "coverage",
+    field: "otherPartyCoverageExpirationDate",
+    kind: "date",
+  },
+  { section: "coverage", field: "medicalCoverageAvailable", kind: "exact" },
+  { section: "coverage", field: "underinsuredMotoristCoverage", kind: "exact" },
+  { section: "coverage", field: "policyLimits", kind: "text" },
+];
+
+/**
+ * A hand-labelled transcript. Only labelled fields are scored: a value means
+ * "should extract this", null means "should extract nothing", and a missing
+ * key means the field isn't graded for this case.
+ */
+export type GoldCase = {
+  name: string;
+  transcript: string; // Path, relative to the gold file
+  expected: {
+    [S in Section]?: Record<string, unknown> & {
+      indications?: string[]; // Damages only: expected injury descriptions
+    };
+  };
+  // "section.field" → turn IDs (1-based segment numbers) that support it
+  citations?: Record<string, number[]>;
+};
+
+// tp: right value, tn: correctly empty, fp: extracted something not expected,
+// fn: missed a labelled value, wrong: extracted a different value (fp + fn)
+export type FieldOutcome = "tp" | "tn" | "fp" | "fn" | "wrong";
+
+export type FieldResult = {
+  outcome: FieldOutcome;
+  expected: unknown;
+  actual: unknown;
+  kind: FieldKind;
+  exactFormat?: boolean; // For matched dates/phones: already in the labelled format
+};
+
+export type CitationResult = {
+  expected: number[];
+  actual: number[];
+};
+
+export type CaseResult = {
+  name: string;
+  error?: string;
+  fields: Record<string, FieldResult>;
+  indications: { tp: number; fp: number; fn: number };
+  citations: Record<string, CitationResult>;
+};
+
+function isEmpty(value: unknown) {
+  return value === null || value === undefined || value === "";
+}
+
+function valuesMatch(kind: FieldKind, expected: unknown, actual: unknown) {
+  if (typeof expected !== "string" || typeof actual !== "string") {
+    return expected === actual;
+  }
+  switch (kind) {
+    case "text":
+      return textOverlap(expected, actual) >= TEXT_MATCH_THRESHOLD;
+    case "date":
+      return normalizeDate(expected) === normalizeDate(actual);
+    case "phone":
+      return normalizePhone(expected) === normalizePhone(actual);
+    case "email":
+      return expected.trim().toLowerCase() === actual.trim().toLowerCase();
+    default:
+      return expected === actual;
+  }
+}
+
+function scoreField(
+  kind: FieldKind,
+  expected: unknown,
+  actual: unknown,
+): FieldResult {
+  const result = { expected, actual: actual ?? null, kind };
+
+  if (isEmpty(expected)) {
+    return { ...result, outcome: isEmpty(actual) ? "tn" : "fp" };
+  }
+  if (isEmpty(actual)) {
+    return { ...result, outcome: "fn" };
+  }
+  if (!valuesMatch(kind, expected, actual)) {
+    return { ...result, outcome: "wrong" };
+  }
+  return {
+    ...result,
+    outcome: "tp",
+    ...((kind === "date" || kind === "phone") && {
+      exactFormat: expected === actual,
+    }),
+  };
+}
+
+/**
+ * Greedily pair expected injuries with extracted indications by word overlap
+ */
+function scoreIndications(expected: string[], actual: string[]) {
+  const unmatched = [...actual];
+  let tp = 0;
+
+  for (const description of expected) {
+    const index = unmatched.findIndex(
+      (candidate) =>
+        textOverlap(description, candidate) >= TEXT_MATCH_THRESHOLD,
+    );
+    if (index !== -1) {
+      tp++;
+      unmatched.splice(index, 1);
+    }
+  }
+
+  return { tp, fp: unmatched.length, fn: expected.length - tp };
+}
+
+function citedTurns(extraction: ChunkExtraction, key: string) {
+  const [section, field] = key.split(".") as [Section, string];
+  const citations = extraction[section]?.citations ?? [];
+  const turnIds = citations
+    .filter(
+      (citation) => normalizeText(citation.field) === normalizeText(field),
+    )
+    .flatMap((citation) => citation.turnIds);
+  return Array.from(new Set(turnIds)).sort((a, b) => a - b);
+}
+
+export function scoreCase(
+  gold: GoldCase,
+  extraction: ChunkExtraction,
+): CaseResult {
+  const fields: Record<string, FieldResult> = {};
+
+  for (const { section, field, kind } of EVAL_FIELDS) {
+    const expectedSection = gold.expected[section];
+    if (!expectedSection || !(field in expectedSection)) continue;
+
+    const actual = (extraction[section] as Record<string, unknown>)[field];
+    fields[`${section}.${field}`] = scoreField(
+      kind,
+      expectedSection[field],
+      actual,
+    );
+  }
+
+  const expectedIndications = gold.expected.damages?.indications;
+  const indications = expectedIndications
+    ? scoreIndications(
+        expectedIndications,
+        extraction.damages.indications.map((i) => i.description),
+      )
+    : { tp: 0, fp: 0, fn: 0 };
+
+  const citations: Record<string, CitationResult> = {};
+  for (const [key, expected] of Object.entries(gold.citations ?? {})) {
+    citations[key] = { expected, actual: citedTurns(extraction, key) };
+  }
+
+  return { name: gold.name, fields, indications, citations };
+}
@@ -0,0 +1,29 @@
+/**
+ * Lengths and registers the case brief can be (re)generated in
+ */
+export const BRIEF_STYLES = {
+  standard: {
+    label: "Standard",
+    instructions:
+      "Write a concise summary of at most 5 sentences covering what happened, when, where, the injuries/damages, and potential fault.",
+  },
+  short: {
+    label: "Short",
+    instructions:
+      "Write 2 to 3 sentences: what happened, the main injury, and who appears to be at fault.",
+  },
+  detailed: {
+    label: "Detailed",
+    instructions:
+      "Write two paragraphs of at most 10 sentences in total. The first covers the incident, the injuries and treatment; the second covers liability, evidence such as a police report, and insurance coverage.",
+  },
+  plain: {
+    label: "Plain language",
+    instructions:
+      "Write at most 5 sentences in plain language a client could read, avoiding legal jargon and speculation about case value.",
+  },
+} as const;
+
+export type BriefStyle = keyof typeof BRIEF_STYLES;
+
+export const DEFAULT_BRIEF_STYLE: BriefStyle = "standard";
@@ -0,0 +1,96 @@
+import type { CaseTypeField } from "@/db/types";
+
+/**
+ * Structured intake sections for the built-in case types. Unlike the
+ * registry's free-form case type fields, each has its own schema, prompt and
+ * extraction call; case types without a section rely on their registry fields.
+ */
+export type CaseSection = "mvaDetails" | "dogBiteDetails" | "premisesDetails";
+
+export type CaseSectionDefinition = {
+  key: CaseSection;
+  label: string;
+  caseTypes: string[]; // Case type IDs the section is extracted and shown for
+  fields: CaseTypeField[]; // Labels for the keys of the section's Zod schemas
+};
+
+export const CASE_SECTIONS: CaseSectionDefinition[] = [
+  {
+    key: "mvaDetails",
+    label: "Vehicle Details",
+    caseTypes: ["mva"],
+    fields: [
+      { key: "clientRole", label: "Client Was", kind: "text" },
+      { key: "clientVehicle", label: "Client Vehicle", kind: "text" },
+      { key: "clientLicensePlate", label: "Client Plate", kind: "text" },
+      { key: "otherDriverName", label: "Other Driver", kind: "text" },
+      { key: "otherVehicle", label: "Other Vehicle", kind: "text" },
+      { key: "otherLicensePlate", label: "Other Plate", kind: "text" },
+      { key: "seatbeltWorn", label: "Seatbelt Worn", kind: "boolean" },
+      { key: "airbagsDeployed", label: "Airbags Deployed", kind: "boolean" },
+      { key: "vehicleTowed", label: "Vehicle Towed", kind: "boolean" },
+      {
+        key: "otherDriverCited",
+        label: "Other Driver Ticketed",
+        kind: "boolean",
+      },
+    ],
+  },
+  {
+    key: "dogBiteDetails",
+    label: "Animal Details",
+    caseTypes: ["dog_bites"],
+    fields: [
+      { key: "dogBreed", label: "Dog Breed", kind: "text" },
+      { key: "dogDescription", label: "Dog Description", kind: "text" },
+      { key: "ownerName", label: "Dog Owner", kind: "text" },
+      { key: "ownerAddress", label: "Dog Owner Address", kind: "text" },
+      { key: "priorBiteHistory", label: "Prior Bites", kind: "boolean" },
+      { key: "priorBiteDetails", label: "Prior Bite Details", kind: "text" },
+      { key: "leashed", label: "Dog Leashed", kind: "boolean" },
+      { key: "provoked", label: "Dog Provoked", kind: "boolean" },
+      {
+        key: "animalControlReported",
+        label: "Reported to Animal Control",
+        kind: "boolean",
+      },
+      { key: "rabiesVaccinated", label: "Rabies Vaccinated", kind: "boolean" },
+    ],
+  },
+  {
+    key: "premisesDetails",
+    label: "Premises Details",
+    caseTypes: ["slip_and_fall", "premises_liability"],
+    fields: [
+      { key: "propertyType", label: "Property Type", kind: "text" },
+      { key: "propertyOwner", label: "Property Owner", kind: "text" },
+      { key: "hazard", label: "Hazard", kind: "text" },
+      {
+        key: "warningSignsPresent",
+        label: "Warning Signs Posted",
+        kind: "boolean",
+      },
+      {
+        key: "ownerAwareOfHazard",
+        label: "Owner Knew of Hazard",
+        kind: "boolean",
+      },
+      {
+        key: "incidentReportFiled",
+        label: "Incident Report Filed",
+        kind: "boolean",
+      },
+      { key: "surveillanceFootage", label: "Camera Footage", kind: "boolean" },
+      { key: "photosTaken", label: "Photos Taken", kind: "boolean" },
+    ],
+  },
+];
+
+/**
+ * The structured section a case type has, if any
+ */
+export function getCaseSection(
+  caseType: string,
+): CaseSectionDefinition | undefined {
+  return CASE_SECTIONS.find((section) => section.caseTypes.includes(caseType));
+}
@@ -0,0 +1,407 @@
+import type {
+  CaseDetails,
+  Citation,
+  Coverage,
+  Damages,
+  DogBiteDetails,
+  FieldConfidence,
+  FieldSource,
+  FieldSources,
+  Liability,
+  MvaDetails,
+  PremisesDetails,
+} from "@/db/types";
+import { CASE_SECTIONS, type CaseSection } from "./case-sections";
+
+/**
+ * Flattened view of everything a lawyer can edit on a matter: the client/incident
+ * columns on `matters` plus the liability/damages/coverage JSON on `intake_form_data`
+ * and the case type's own section, if it has one.
+ */
+export type MatterSnapshot = {
+  clientName: string | null;
+  clientDob: string | null;
+  clientPhone: string | null;
+  clientEmail: string | null;
+  clientAddress: string | null;
+  incidentDate: string | null;
+  incidentLocation: string | null;
+  brief: string | null;
+  caseType: string;
+  caseDetails: CaseDetails | null; // The case type's own fields, see the case type registry
+  liability: Liability;
+  damages: Damages;
+  coverage: Coverage;
+  mvaDetails: MvaDetails | null;
+  dogBiteDetails: DogBiteDetails | null;
+  premisesDetails: PremisesDetails | null;
+  citations: SectionCitations | null;
+};
+
+export type IntakeSection =
+  | "clientInfo"
+  | "liability"
+  | "damages"
+  | "coverage"
+  | CaseSection;
+
+export type SectionCitations = Partial<Record<IntakeSection, Citation[]>>;
+
+export type MatterColumnField =
+  | "clientName"
+  | "clientDob"
+  | "clientPhone"
+  | "clientEmail"
+  | "clientAddress"
+  | "incidentDate"
+  | "incidentLocation"
+  | "brief"
+  | "caseType"
+  | "caseDetails";
+
+export type IntakeField = {
+  key: string; // "clientName", "liability.atFault", "coverage.policyLimits", ...
+  label: string;
+  section: IntakeSection;
+  citationField: string; // Field name used by the extractor's citations
+};
+
+const clientInfoField = (
+  key: MatterColumnField,
+  label: string,
+): IntakeField => ({ key, label, section: "clientInfo", citationField: key });
+
+const jsonField = (
+  section: Exclude<IntakeSection, "clientInfo">,
+  field: string,
+  label: string,
+): IntakeField => ({
+  key: `${section}.${field}`,
+  label,
+  section,
+  citationField: field,
+});
+
+export const INTAKE_FIELDS: IntakeField[] = [
+  clientInfoField("caseType", "Case Type"),
+  clientInfoField("clientName", "Client Name"),
+  clientInfoField("clientDob", "Date of Birth"),
+  clientInfoField("clientPhone", "Phone"),
+  clientInfoField("clientEmail", "Email"),
+  clientInfoField("clientAddress", "Address"),
+  clientInfoField("incidentDate", "Incident Date"),
+  clientInfoField("incidentLocation", "Incident Location"),
+  clientInfoField("brief", "Case Brief"),
+  clientInfoField("caseDetails", "Case Details"),
+
+  jsonField("liability", "atFault", "At Fault"),
+  jsonField("liability", "faultPercentages", "Fault Distribution"),
+  jsonField("liability", "rationale", "Liability Rationale"),
+  jsonField("liability", "hasPoliceReport", "Police Report"),
+
+  jsonField("damages", "severity", "Overall Severity"),
+  jsonField("damages", "indications", "Indications"),
+
+  jsonField("coverage", "clientHasInsurance", "Client Has Insurance"),
+  jsonField("coverage", "clientInsuranceProvider", "Client Insurance Provider"),
+  jsonField("coverage", "clientPolicyNumber", "Client Policy #"),
+  jsonField(
+    "coverage",
+    "clientCoverageEffectiveDate",
+    "Client Coverage Effective",
+  ),
+  jsonField(
+    "coverage",
+    "clientCoverageExpirationDate",
+    "Client Coverage Expiration",
+  ),
+  jsonField("coverage", "clientCoverageDetails", "Client Coverage Details"),
+  jsonField("coverage", "otherPartyHasInsurance", "Other Party Has Insurance"),
+  jsonField(
+    "coverage",
+    "otherPartyInsuranceProvider",
+    "Other Party Insurance Provider",
+  ),
+  jsonField("coverage", "otherPartyPolicyNumber", "Other Party Policy #"),
+  jsonField(
+    "coverage",
+    "otherPartyCoverageEffectiveDate",
+    "Other Party Coverage Effective",
+  ),
+  jsonField(
+    "coverage",
+    "otherPartyCoverageExpirationDate",
+    "Other Party Coverage Expiration",
+  ),
+  jsonField(
+    "coverage",
+    "otherPartyCoverageDetails",
+    "Other Party Coverage Details",
+  ),
+  jsonField("coverage", "medicalCoverageAvailable", "Medical Coverage"),
+  jsonField("coverage", "medicalCoverageDetails", "Medical Coverage Details"),
+  jsonField("coverage", "underinsuredMotoristCoverage", "UM/UIM Coverage"),
+  jsonField("coverage", "policyLimits", "Policy Limits"),
+  jsonField("coverage", "notes", "Coverage Notes"),
+
+  ...CASE_SECTIONS.flatMap((section) =>
+    section.fields.map((field) =>
+      jsonField(section.key, field.key, field.label),
+    ),
+  ),
+];
+
+const FIELDS_BY_KEY = new Map(INTAKE_FIELDS.map((field) => [field.key, field]));
+
+export function getIntakeField(key: string): IntakeField | undefined {
+  return FIELDS_BY_KEY.get(key);
+}
+
+function splitKey(key: string): [string, string | null] {
+  const dot = key.indexOf(".");
+  return dot === -1 ? [key, null] : [key.slice(0, dot), key.slice(dot + 1)];
+}
+
+export function getFieldValue(snapshot: MatterSnapshot, key: string): unknown {
+  const [head, tail] = splitKey(key);
+  const value = snapshot[head as keyof MatterSnapshot];
+  if (tail === null) {
+    return value;
+  }
+  return (value as Record<string, unknown> | null)?.[tail];
+}
+
+/**
+ * Return a copy of the snapshot with one field replaced
+ */
+export function setFieldValue(
+  snapshot: MatterSnapshot,
+  key: string,
+  value: unknown,
+): MatterSnapshot {
+  const [head, tail] = splitKey(key);
+  if (tail === null) {
+    return { ...snapshot, [head]: value };
+  }
+  const section = snapshot[head as keyof MatterSnapshot] as Record<
+    string,
+    unknown
+  > | null;
+  // Leave a case type's section empty until it has a value
+  if (!section && fieldValuesEqual(value, null)) {
+    return snapshot;
+  }
+  return { ...snapshot, [head]: { ...section, [tail]: value } };
+}
+
+/**
+ * Empty strings, nulls and missing values are all "not provided"
+ */
+function normalizeForComparison(value: unknown): unknown {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeForComparison);
+  }
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .map(([k, v]) => [k, normalizeForComparison(v)] as const)
+        .filter(([, v]) => v !== null)
+        .sort(([a], [b]) => a.localeCompare(b)),
+    );
+  }
+  return value;
+}
+
+export function fieldValuesEqual(a: unknown, b: unknown) {
+  return (
+    JSON.stringify(normalizeForComparison(a)) ===
+    JSON.stringify(normalizeForComparison(b))
+  );
+}
+
+export type FieldChange = IntakeField & {
+  current: unknown;
+  proposed: unknown;
+};
+
+/**
+ * List every field whose value differs between two snapshots
+ */
+export function diffSnapshots(
+  current: MatterSnapshot,
+  proposed: MatterSnapshot,
+): FieldChange[] {
+  return INTAKE_FIELDS.flatMap((field) => {
+    const currentValue = getFieldValue(current, field.key);
+    const proposedValue = getFieldValue(proposed, field.key);
+    if (fieldValuesEqual(currentValue, proposedValue)) {
+      return [];
+    }
+    return [{ ...field, current: currentValue, proposed: proposedValue }];
+  });
+}
+
+function citationMatchesField(citation: Citation, field: IntakeField) {
+  // Indication citations are recorded per item, e.g. "indications[2]"
+  return (
+    citation.field === field.citationField ||
+    citation.field.startsWith(`${field.citationField}[`)
+  );
+}
+
+function getSectionCitations(
+  snapshot: MatterSnapshot,
+  section: IntakeSection,
+): Citation[] {
+  if (section === "clientInfo") {
+    return snapshot.citations?.clientInfo ?? [];
+  }
+  return snapshot[section]?.citations ?? snapshot.citations?.[section] ?? [];
+}
+
+/**
+ * Return a copy of the snapshot with one field's citations replaced
+ */
+export function setFieldCitations(
+  snapshot: MatterSnapshot,
+  key: string,
+  fieldCitations: Citation[],
+): MatterSnapshot {
+  const field = getIntakeField(key);
+  if (!field) {
+    return snapshot;
+  }
+
+  const citations = [
+    ...getSectionCitations(snapshot, field.section).filter(
+      (c) => !citationMatchesField(c, field),
+    ),
+    ...fieldCitations,
+  ];
+
+  const result = {
+    ...snapshot,
+    citations: { ...snapshot.citations, [field.section]: citations },
+  };
+  if (field.section === "clientInfo" || !result[field.section]) {
+    return result;
+  }
+  return {
+    ...result,
+    [field.section]: { ...result[field.section], citations },
+  };
+}
+
+/**
+ * Copy the given fields (values and their citations) from one snapshot onto another
+ */
+export function applyFields(
+  target: MatterSnapshot,
+  source: MatterSnapshot,
+  keys: string[],
+): MatterSnapshot {
+  let result = target;
+
+  for (const key of keys) {
+    const field = getIntakeField(key);
+    if (!field) continue;
+
+    result = setFieldValue(result, key, getFieldValue(source, key));
+    result = setFieldCitations(
+      result,
+      key,
+      getSectionCitations(source, field.section).filter((c) =>
+        citationMatchesField(c, field),
+      ),
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Record the origin of the given fields, leaving every other field's provenance intact
+ */
+export function markFieldSources(
+  sources: FieldSources | null | undefined,
+  keys: string[],
+  source: FieldSource,
+): FieldSources {
+  const result = { ...sources };
+  for (const key of keys) {
+    result[key] = source;
+  }
+  return result;
+}
+
+/**
+ * Record that an extraction run set the given fields, with its confidence in each
+ */
+export function markExtractedFields(
+  sources: FieldSources | null | undefined,
+  keys: string[],
+  jobId: number,
+  confidence: Record<string, FieldConfidence> = {},
+): FieldSources {
+  const updatedAt = new Date().toISOString();
+  const result = { ...sources };
+  for (const key of keys) {
+    result[key] = {
+      origin: "ai",
+      jobId,
+      updatedAt,
+      ...(confidence[key] && { confidence: confidence[key] }),
+    };
+  }
+  return result;
+}
+
+export function isUserEdited(
+  sources: FieldSources | null | undefined,
+  key: string,
+) {
+  return sources?.[key]?.origin === "user";
+}
+
+/**
+ * Human-readable rendering of a field value for previews and history
+ */
+export function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return "Not provided";
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "None";
+    return value
+      .map((item) =>
+        typeof item === "object" && item !== null && "description" in item
+          ? `${(item as { description: string }).description}${
+              "severity" in item
+                ? ` (${(item as { severity: string }).severity})`
+                : ""
+            }`
+          : formatFieldValue(item),
+      )
+      .join("; ");
+  }
+  if (typeof value === "object") {
+    const percentages = value as { client?: number; otherParty?: number };
+    if ("client" in percentages && "otherParty" in percentages) {
+      return `Client ${percentages.client}% / Other Party ${percentages.otherParty}%`;
+    }
+    const entries = Object.entries(value).filter(
+      ([, item]) => item !== null && item !== undefined && item !== "",
+    );
+    if (entries.length === 0) return "Not provided";
+    return entries
+      .map(([key, item]) => `${key}: ${formatFieldValue(item)}`)
+      .join("; ");
+  }
+  return String(value);
+}
@@ -0,0 +1,150 @@
+import type {
+  FieldCandidate,
+  FieldConfidence,
+  FieldSource,
+  FieldSources,
+} from "@/db/types";
+import {
+  fieldValuesEqual,
+  getFieldValue,
+  INTAKE_FIELDS,
+  type IntakeField,
+  type MatterSnapshot,
+  setFieldCitations,
+  setFieldValue,
+} from "./fields";
+
+// AI values scored below this go on the review checklist
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
+
+export type ReviewReason = "conflict" | "low_confidence";
+
+export type ReviewItem = IntakeField & {
+  value: unknown;
+  reason: ReviewReason;
+  confidence: FieldConfidence;
+};
+
+export type FieldConflict = IntakeField & {
+  value: unknown;
+  candidates: FieldCandidate[];
+};
+
+/**
+ * The values transcript chunks disagreed on for an AI field, the kept value
+ * first, or null when they agreed or the field is no longer the AI's value
+ */
+export function getConflictCandidates(
+  source?: FieldSource,
+): FieldCandidate[] | null {
+  if (source?.origin !== "ai") {
+    return null;
+  }
+  const candidates = source.confidence?.candidates ?? [];
+  return candidates.length > 1 ? candidates : null;
+}
+
+/**
+ * Why an AI value still needs a lawyer's eyes, or null when it doesn't:
+ * manual edits, confirmed values and confident, uncontested extractions pass
+ */
+export function getReviewReason(source?: FieldSource): ReviewReason | null {
+  if (source?.origin !== "ai" || !source.confidence || source.reviewedAt) {
+    return null;
+  }
+  if (getConflictCandidates(source)) {
+    return "conflict";
+  }
+  if (source.confidence.score < REVIEW_CONFIDENCE_THRESHOLD) {
+    return "low_confidence";
+  }
+  return null;
+}
+
+/**
+ * Fields that must be confirmed or corrected before the matter can be marked reviewed
+ */
+export function getReviewChecklist(
+  snapshot: MatterSnapshot,
+  sources: FieldSources | null | undefined,
+): ReviewItem[] {
+  return INTAKE_FIELDS.flatMap((field) => {
+    const source = sources?.[field.key];
+    const reason = getReviewReason(source);
+    if (!reason || !source?.confidence) {
+      return [];
+    }
+    return [
+      {
+        ...field,
+        value: getFieldValue(snapshot, field.key),
+        reason,
+        confidence: source.confidence,
+      },
+    ];
+  });
+}
+
+/**
+ * Every field whose transcript chunks disagreed and that a lawyer hasn't
+ * settled yet, with the candidate values to pick from
+ */
+export function getFieldConflicts(
+  snapshot: MatterSnapshot,
+  sources: FieldSources | null | undefined,
+): FieldConflict[] {
+  return INTAKE_FIELDS.flatMap((field) => {
+    const source = sources?.[field.key];
+    const candidates = getConflictCandidates(source);
+    if (!candidates || source?.reviewedAt) {
+      return [];
+    }
+    return [
+      { ...field, value: getFieldValue(snapshot, field.key), candidates },
+    ];
+  });
+}
+
+/**
+ * Settle a conflicting AI field with one of the values the transcript chunks
+ * disagreed on. The field takes that value and its citation; the kept value
+ * stays the AI's and counts as confirmed, anything else becomes user-owned
+ * like a manual edit. Returns null when the field has no such candidate.
+ */
+export function pickConflictCandidate(
+  snapshot: MatterSnapshot,
+  sources: FieldSources,
+  key: string,
+  candidateIndex: number,
+): {
+  snapshot: MatterSnapshot;
+  fieldSources: FieldSources;
+  changed: boolean;
+} | null {
+  const source = sources[key];
+  const candidate = getConflictCandidates(source)?.[candidateIndex];
+  if (!source || !candidate) {
+    return null;
+  }
+
+  const changed = !fieldValuesEqual(
+    getFieldValue(snapshot, key),
+    candidate.value,
+  );
+  const updatedAt = new Date().toISOString();
+
+  return {
+    snapshot: setFieldCitations(
+      setFieldValue(snapshot, key, candidate.value),
+      key,
+      candidate.citation ? [candidate.citation] : [],
+    ),
+    fieldSources: {
+      ...sources,
+      [key]: changed
+        ? { origin: "user", updatedAt }
+        : { ...source, reviewedAt: updatedAt },
+    },
+    changed,
+  };
+}
@@ -0,0 +1,290 @@
+import type {
+  CaseTypeDefinition,
+  CaseTypeScoring,
+  Coverage,
+  Damages,
+  Liability,
+  ScoringFactor,
+  Severity,
+} from "@/db/types";
+import { DEFAULT_CASE_TYPES, findCaseType } from "@/lib/case-types/defaults";
+import type { MatterSnapshot } from "./fields";
+
+/**
+ * Rules for case types that don't set their own
+ */
+export const DEFAULT_SCORING: CaseTypeScoring = {
+  weights: {
+    liability: 35,
+    damages: 30,
+    coverage: 20,
+    statuteOfLimitations: 15,
+  },
+  statuteOfLimitationsYears: 2,
+  acceptThreshold: 65,
+  declineThreshold: 40,
+};
+
+export const SCORING_FACTORS: ScoringFactor[] = [
+  "liability",
+  "damages",
+  "coverage",
+  "statuteOfLimitations",
+];
+
+export const SCORING_FACTOR_LABELS: Record<ScoringFactor, string> = {
+  liability: "Liability",
+  damages: "Damages",
+  coverage: "Coverage",
+  statuteOfLimitations: "Statute of Limitations",
+};
+
+export type RetentionRecommendation = "accept" | "review" | "decline";
+
+export const RECOMMENDATION_LABELS: Record<RetentionRecommendation, string> = {
+  accept: "Retain",
+  review: "Attorney Review",
+  decline: "Decline",
+};
+
+export const RECOMMENDATION_STYLES: Record<RetentionRecommendation, string> = {
+  accept: "bg-green-100 text-green-800",
+  review: "bg-amber-100 text-amber-800",
+  decline: "bg-red-100 text-red-700",
+};
+
+export type ScoringInput = Pick<
+  MatterSnapshot,
+  "caseType" | "incidentDate" | "liability" | "damages" | "coverage"
+>;
+
+export type FactorScore = {
+  factor: ScoringFactor;
+  weight: number;
+  score: number; // 0-1
+  detail: string; // What the score is based on, for the breakdown
+};
+
+export type MatterScore = {
+  total: number; // 0-100
+  recommendation: RetentionRecommendation;
+  factors: FactorScore[];
+  filingDeadline: string | null; // YYYY-MM-DD, when the incident date is known
+};
+
+const SEVERITY_SCORES: Record<Severity, number> = {
+  low: 0.25,
+  medium: 0.6,
+  high: 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The scoring rules a case type uses. Registry entries saved before scoring
+ * existed fall back to the built-in rules for their type.
+ */
+export function getScoringRules(
+  caseTypes: CaseTypeDefinition[],
+  caseType: string,
+): CaseTypeScoring {
+  return (
+    findCaseType(caseTypes, caseType)?.scoring ??
+    findCaseType(DEFAULT_CASE_TYPES, caseType)?.scoring ??
+    DEFAULT_SCORING
+  );
+}
+
+function scoreLiability(liability: Partial<Liability>) {
+  let score: number;
+  let detail: string;
+
+  switch (liability.atFault) {
+    case "other_party":
+      score = 1;
+      detail = "Other party at fault";
+      break;
+    case "shared": {
+      const percentages = liability.faultPercentages;
+      const total = percentages
+        ? percentages.client + percentages.otherParty
+        : 0;
+      if (percentages && total > 0) {
+        score = percentages.otherParty / total;
+        detail = `Shared fault, client ${percentages.client}% / other party ${percentages.otherParty}%`;
+      } else {
+        score = 0.5;
+        detail = "Shared fault, split unknown";
+      }
+      break;
+    }
+    case "client":
+      score = 0;
+      detail = "Client at fault";
+      break;
+    default:
+      score = 0.3;
+      detail = "Fault unclear";
+  }
+
+  if (liability.hasPoliceReport && score > 0) {
+    score = Math.min(1, score + 0.1);
+    detail += ", police report filed";
+  }
+  return { score, detail };
+}
+
+function scoreDamages(damages: Partial<Damages>) {
+  const indications = damages.indications ?? [];
+  if (!damages.severity && indications.length === 0) {
+    return { score: 0, detail: "No injuries recorded" };
+  }
+
+  const serious = indications.filter((i) => i.severity === "high").length;
+  // Each documented injury adds a little on top of the overall severity
+  const base = damages.severity ? SEVERITY_SCORES[damages.severity] : 0.25;
+  const score = Math.min(1, base + 0.05 * indications.length);
+
+  const parts = [
+    damages.severity ? `Severity ${damages.severity}` : "Severity unknown",
+    `${indications.length} injur${indications.length === 1 ? "y" : "ies"}`,
+    ...(serious > 0 ? [`${serious} serious`] : []),
+  ];
+  return { score, detail: parts.join(", ") };
+}
+
+/**
+ * The per-person limit from a policy limits note: "$100,000/$300,000",
+ * "25/50/25" (thousands) or "$1 million". Null when no amount is given.
+ */
+export function parsePolicyLimit(policyLimits: string | undefined | null) {
+  const match = policyLimits?.match(
+    /\$?\s*(\d[\d,]*(?:\.\d+)?)\s*(k|thousand|m|mil|million)?\b/i,
+  );
+  if (!match) {
+    return null;
+  }
+
+  const amount = Number(match[1].replace(/,/g, ""));
+  const unit = match[2]?.toLowerCase();
+  if (unit === "k" || unit === "thousand") return amount * 1_000;
+  if (unit?.startsWith("m")) return amount * 1_000_000;
+  // Split limits are quoted in thousands
+  return amount < 1_000 ? amount * 1_000 : amount;
+}
+
+function scoreCoverage(coverage: Partial<Coverage>) {
+  if (coverage.otherPartyHasInsurance) {
+    const limit = parsePolicyLimit(coverage.policyLimits);
+    if (limit === null) {
+      return { score: 0.7, detail: "Other party insured, limits unknown" };
+    }
+    const score = limit >= 100_000 ? 1 : limit >= 50_000 ? 0.85 : 0.6;
+    return {
+      score,
+      detail: `Other party insured, $${limit.toLocaleString("en-US")} limit`,
+    };
+  }
+
+  const insured =
+    coverage.otherPartyHasInsurance === false
+      ? "Other party uninsured"
+      : "Other party's insurance unknown";
+  if (coverage.underinsuredMotoristCoverage) {
+    return { score: 0.5, detail: `${insured}, client has UM/UIM coverage` };
+  }
+  return {
+    score: coverage.otherPartyHasInsurance === false ? 0.1 : 0.35,
+    detail: insured,
+  };
+}
+
+function scoreStatuteOfLimitations(
+  incidentDate: string | null,
+  years: number,
+  today: Date,
+) {
+  const incident = incidentDate ? new Date(incidentDate) : null;
+  if (!incident || Number.isNaN(incident.getTime())) {
+    return {
+      score: 0.5,
+      detail: "Incident date unknown",
+      filingDeadline: null,
+    };
+  }
+
+  const deadline = new Date(incident);
+  deadline.setUTCMonth(deadline.getUTCMonth() + Math.round(years * 12));
+  const filingDeadline = deadline.toISOString().slice(0, 10);
+  const daysLeft = Math.floor((deadline.getTime() - today.getTime()) / DAY_MS);
+
+  if (daysLeft < 0) {
+    return {
+      score: 0,
+      detail: `Expired on ${filingDeadline}`,
+      filingDeadline,
+    };
+  }
+  const score =
+    daysLeft <= 90 ? 0.3 : daysLeft <= 180 ? 0.6 : daysLeft <= 365 ? 0.85 : 1;
+  return {
+    score,
+    detail: `${daysLeft} days left to file (by ${filingDeadline})`,
+    filingDeadline,
+  };
+}
+
+/**
+ * Score how viable a matter is from its structured intake, weighting each
+ * factor by the case type's rules, and recommend whether to retain it. A
+ * matter past its filing deadline is always recommended for declination.
+ */
+export function scoreMatter(
+  intake: ScoringInput,
+  caseTypes: CaseTypeDefinition[],
+  today = new Date(),
+): MatterScore {
+  const rules = getScoringRules(caseTypes, intake.caseType);
+  const statute = scoreStatuteOfLimitations(
+    intake.incidentDate,
+    rules.statuteOfLimitationsYears,
+    today,
+  );
+  // Manual matters start with empty liability/damages/coverage objects
+  const results: Record<ScoringFactor, { score: number; detail: string }> = {
+    liability: scoreLiability(intake.liability ?? {}),
+    damages: scoreDamages(intake.damages ?? {}),
+    coverage: scoreCoverage(intake.coverage ?? {}),
+    statuteOfLimitations: statute,
+  };
+
+  const factors = SCORING_FACTORS.map((factor) => ({
+    factor,
+    weight: rules.weights[factor],
+    score: Math.round(results[factor].score * 100) / 100,
+    detail: results[factor].detail,
+  }));
+  const totalWeight = factors.reduce((sum, f) => sum + f.weight, 0);
+  const total =
+    totalWeight > 0
+      ? Math.round(
+          (100 * factors.reduce((sum, f) => sum + f.weight * f.score, 0)) /
+            totalWeight,
+        )
+      : 0;
+
+  const expired = statute.filingDeadline !== null && statute.score === 0;
+  const recommendation: RetentionRecommendation =
+    expired || total < rules.declineThreshold
+      ? "decline"
+      : total >= rules.acceptThreshold
+        ? "accept"
+        : "review";
+
+  return {
+    total,
+    recommendation,
+    factors,
+    filingDeadline: statute.filingDeadline,
+  };
+}
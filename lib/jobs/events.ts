@@ -0,0 +1,95 @@
+import { EventEmitter } from "node:events";
+import { eq, sql } from "drizzle-orm";
+import { db } from "@/db";
+import { processingJobs } from "@/db/schema";
+import type { ProcessingEvent } from "@/lib/ai/progress";
+
+export type JobEventPayload =
+  | ProcessingEvent
+  | { type: "complete"; matterId: number }
+  | { type: "failed"; error: string };
+
+export type JobEvent = JobEventPayload & {
+  seq: number; // Monotonic per job, lets subscribers skip replayed duplicates
+  at: string; // ISO timestamp
+};
+
+export function isTerminalJobEvent(event: JobEventPayload) {
+  return event.type === "complete" || event.type === "failed";
+}
+
+type EventBus = {
+  emitter: EventEmitter;
+  nextSeq: Map<number, number>;
+};
+
+// Route handlers and the worker are bundled separately, so share the bus via globalThis
+const globalForEvents = globalThis as unknown as {
+  jobEventBus?: EventBus;
+};
+if (!globalForEvents.jobEventBus) {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0);
+  globalForEvents.jobEventBus = { emitter, nextSeq: new Map() };
+}
+const bus: EventBus = globalForEvents.jobEventBus;
+
+/**
+ * Get the events already recorded for a job, oldest first
+ */
+export async function getJobEvents(jobId: number): Promise<JobEvent[]> {
+  const job = await db.query.processingJobs.findFirst({
+    where: eq(processingJobs.id, jobId),
+    columns: { events: true },
+  });
+
+  return (job?.events as JobEvent[] | null) ?? [];
+}
+
+/**
+ * Record a job event and notify live subscribers
+ */
+export async function publishJobEvent(jobId: number, payload: JobEventPayload) {
+  let seq = bus.nextSeq.get(jobId);
+  if (seq === undefined) {
+    // Counted synchronously so no other event can take the same seq before it's claimed
+    const row = db
+      .select({
+        count: sql<number>`json_array_length(coalesce(${processingJobs.events}, '[]'))`,
+      })
+      .from(processingJobs)
+      .where(eq(processingJobs.id, jobId))
+      .get();
+    seq = row?.count ?? 0;
+  }
+  bus.nextSeq.set(jobId, seq + 1);
+
+  const event = { ...payload, seq, at: new Date().toISOString() } as JobEvent;
+
+  // Append in a single statement so concurrent section events can't overwrite each other
+  await db
+    .update(processingJobs)
+    .set({
+      events: sql`json_insert(coalesce(${processingJobs.events}, '[]'), '$[#]', json(${JSON.stringify(event)}))`,
+    })
+    .where(eq(processingJobs.id, jobId));
+
+  bus.emitter.emit(`job:${jobId}`, event);
+
+  if (isTerminalJobEvent(payload)) {
+    bus.nextSeq.delete(jobId);
+  }
+}
+
+/**
+ * Listen for live events on a job. Returns an unsubscribe function.
+ */
+export function subscribeToJobEvents(
+  jobId: number,
+  listener: (event: JobEvent) => void,
+) {
+  bus.emitter.on(`job:${jobId}`, listener);
+  return () => {
+    bus.emitter.off(`job:${jobId}`, listener);
+  };
+}
@@ -0,0 +1,151 @@
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { matters, processingJobs } from "@/db/schema";
+import type { ProcessingJobMode } from "@/db/types";
+import { advanceMatterStatus } from "@/lib/matters/status";
+import { runTranscriptJob } from "./transcript-job";
+
+const POLL_INTERVAL_MS = 5000;
+
+type WorkerState = {
+  started: boolean;
+  draining: boolean;
+};
+
+// Kept on globalThis so dev-mode module reloads don't start a second worker loop
+const globalForWorker = globalThis as unknown as {
+  transcriptWorker?: WorkerState;
+};
+if (!globalForWorker.transcriptWorker) {
+  globalForWorker.transcriptWorker = { started: false, draining: false };
+}
+const worker: WorkerState = globalForWorker.transcriptWorker;
+
+/**
+ * Queue a transcript for background processing and mark the matter as queued
+ */
+export async function enqueueTranscriptJob(
+  matterId: number,
+  transcriptId: number,
+  mode: ProcessingJobMode = "apply",
+) {
+  const [job] = await db
+    .insert(processingJobs)
+    .values({ matterId, transcriptId, status: "queued", mode })
+    .returning();
+
+  await db
+    .update(matters)
+    .set({ processingStatus: "queued" })
+    .where(eq(matters.id, matterId));
+  // Previews leave the matter alone until their values are applied
+  if (mode === "apply") {
+    await advanceMatterStatus(matterId, "extraction_queued");
+  }
+
+  console.log(
+    `[Job Queue] Queued ${mode} job ${job.id} for matter ${matterId} (transcript ${transcriptId})`,
+  );
+
+  kickWorker();
+  return job;
+}
+
+/**
+ * Atomically move the oldest queued job to running
+ */
+async function claimNextJob() {
+  const next = await db.query.processingJobs.findFirst({
+    where: eq(processingJobs.status, "queued"),
+    orderBy: [asc(processingJobs.createdAt), asc(processingJobs.id)],
+  });
+
+  if (!next) {
+    return null;
+  }
+
+  const [claimed] = await db
+    .update(processingJobs)
+    .set({ status: "running", startedAt: new Date() })
+    .where(
+      and(eq(processingJobs.id, next.id), eq(processingJobs.status, "queued")),
+    )
+    .returning();
+
+  return claimed ?? null;
+}
+
+/**
+ * Process queued jobs one at a time until the queue is empty
+ */
+async function drainQueue() {
+  if (worker.draining) {
+    return;
+  }
+  worker.draining = true;
+
+  try {
+    let job = await claimNextJob();
+    while (job) {
+      await runTranscriptJob(job.id);
+      job = await claimNextJob();
+    }
+  } catch (error) {
+    console.error("[Job Queue] Worker loop failed:", error);
+  } finally {
+    worker.draining = false;
+  }
+}
+
+/**
+ * Wake the worker without waiting for it (no-op if it is already draining)
+ */
+export function kickWorker() {
+  void drainQueue();
+}
+
+/**
+ * Jobs left "running" belong to a server process that died mid-extraction;
+ * put them back on the queue so they are picked up again.
+ */
+async function requeueInterruptedJobs() {
+  const interrupted = await db
+    .update(processingJobs)
+    .set({
+      status: "queued",
+      startedAt: null,
+      completedChunks: 0,
+      events: null,
+    })
+    .where(eq(processingJobs.status, "running"))
+    .returning();
+
+  for (const job of interrupted) {
+    await db
+      .update(matters)
+      .set({ processingStatus: "queued" })
+      .where(eq(matters.id, job.matterId));
+  }
+
+  if (interrupted.length > 0) {
+    console.log(
+      `[Job Queue] Re-queued ${interrupted.length} interrupted job(s)`,
+    );
+  }
+}
+
+/**
+ * Start the in-process worker: recover interrupted jobs, then poll for new ones.
+ * Called once per server process from instrumentation.ts.
+ */
+export async function startWorker() {
+  if (worker.started) {
+    return;
+  }
+  worker.started = true;
+
+  console.log("[Job Queue] Starting transcript processing worker");
+  await requeueInterruptedJobs();
+  kickWorker();
+  setInterval(kickWorker, POLL_INTERVAL_MS).unref();
+}
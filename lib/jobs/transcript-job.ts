@@ -0,0 +1,243 @@
+import { asc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { matters, processingJobs, transcripts, turns } from "@/db/schema";
+import { processTranscripts, type TranscriptSource } from "@/lib/ai/processor";
+import { identifySpeakerRoles } from "@/lib/ai/speaker-roles";
+import type { ChunkExtraction } from "@/lib/ai/specialized-extractor";
+import type { Transcript } from "@/lib/ai/types";
+import { listCaseTypes } from "@/lib/case-types/registry";
+import {
+  applyFields,
+  INTAKE_FIELDS,
+  isUserEdited,
+  markExtractedFields,
+} from "@/lib/intake/fields";
+import { saveMatterRevision } from "@/lib/matters/revisions";
+import {
+  extractionToSnapshot,
+  loadMatterSnapshot,
+} from "@/lib/matters/snapshot";
+import { advanceMatterStatus } from "@/lib/matters/status";
+import { needsSpeakerRoles } from "@/lib/transcripts/speakers";
+import { publishJobEvent } from "./events";
+
+/**
+ * Write a merged extraction onto the matter and its intake form.
+ * Fields a lawyer has edited by hand are left untouched.
+ */
+async function applyExtractionToMatter(
+  jobId: number,
+  matterId: number,
+  extracted: ChunkExtraction,
+) {
+  const current = await loadMatterSnapshot(matterId);
+  if (!current) {
+    throw new Error(`Matter ${matterId} no longer exists`);
+  }
+
+  const snapshot = extractionToSnapshot(extracted);
+
+  console.log(`[Transcript Job] Citations collected:`);
+  console.log(`  - Client Info: ${snapshot.citations?.clientInfo?.length}`);
+  console.log(`  - Liability: ${snapshot.citations?.liability?.length}`);
+  console.log(`  - Damages: ${snapshot.citations?.damages?.length}`);
+  console.log(`  - Coverage: ${snapshot.citations?.coverage?.length}`);
+
+  const keys = INTAKE_FIELDS.map((field) => field.key).filter(
+    (key) => !isUserEdited(current.fieldSources, key),
+  );
+  const preserved = INTAKE_FIELDS.length - keys.length;
+  if (preserved > 0) {
+    console.log(
+      `[Transcript Job] Preserving ${preserved} manually edited field(s)`,
+    );
+  }
+
+  await saveMatterRevision(
+    matterId,
+    current,
+    {
+      snapshot: applyFields(current.snapshot, snapshot, keys),
+      fieldSources: markExtractedFields(
+        current.fieldSources,
+        keys,
+        jobId,
+        extracted.confidence,
+      ),
+    },
+    { kind: "extraction", jobId },
+  );
+}
+
+/**
+ * Label speakers (attorney, client, witness...) before extraction so the
+ * prompts don't have to guess. The result is saved on the transcript, where
+ * lawyers can correct it; a failure here only costs the labels, not the job.
+ */
+async function ensureSpeakerRoles(
+  transcriptId: number,
+  transcript: Transcript,
+): Promise<Transcript> {
+  if (!needsSpeakerRoles(transcript)) return transcript;
+
+  try {
+    const speakers = await identifySpeakerRoles(transcript);
+    const updated = { ...transcript, speakers };
+    await db
+      .update(transcripts)
+      .set({ content: updated })
+      .where(eq(transcripts.id, transcriptId));
+    return updated;
+  } catch (error) {
+    console.warn(
+      `[Transcript Job] Could not identify speakers for transcript ${transcriptId}:`,
+      error,
+    );
+    return transcript;
+  }
+}
+
+/**
+ * Load every transcript on a matter (oldest first) with its stored turns,
+ * so citations can reference turn IDs in whichever call they came from
+ */
+async function loadTranscriptSources(
+  matterId: number,
+): Promise<TranscriptSource[]> {
+  const matterTranscripts = await db
+    .select()
+    .from(transcripts)
+    .where(eq(transcripts.matterId, matterId))
+    .orderBy(asc(transcripts.uploadedAt), asc(transcripts.id));
+
+  const sources: TranscriptSource[] = [];
+  for (const [index, transcript] of matterTranscripts.entries()) {
+    const transcriptTurns = await db
+      .select()
+      .from(turns)
+      .where(eq(turns.transcriptId, transcript.id))
+      .orderBy(asc(turns.turnIndex));
+
+    sources.push({
+      transcript: await ensureSpeakerRoles(
+        transcript.id,
+        transcript.content as Transcript,
+      ),
+      // Map stored turns to segments with turn IDs for citation tracking
+      segmentsWithTurnIds: transcriptTurns.map((turn) => ({
+        turnId: turn.id,
+        turnIndex: turn.turnIndex,
+        speaker: turn.speaker,
+        content: turn.content,
+      })),
+      label: transcript.label ?? `Transcript ${index + 1}`,
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Run a claimed processing job: chunk every transcript → 4×LLM per chunk → merge → update matter
+ * (or, for preview jobs, store the result for review).
+ * Progress and the final outcome are persisted on the job row so the UI can poll.
+ */
+export async function runTranscriptJob(jobId: number) {
+  const job = await db.query.processingJobs.findFirst({
+    where: eq(processingJobs.id, jobId),
+  });
+
+  if (!job) {
+    console.warn(`[Transcript Job] Job ${jobId} not found, skipping`);
+    return;
+  }
+
+  console.log(
+    `\n[Transcript Job] Running job ${job.id} for matter ${job.matterId} (transcript ${job.transcriptId})`,
+  );
+
+  await db
+    .update(matters)
+    .set({ processingStatus: "running" })
+    .where(eq(matters.id, job.matterId));
+
+  try {
+    const sources = await loadTranscriptSources(job.matterId);
+
+    if (sources.length === 0) {
+      throw new Error(`Matter ${job.matterId} has no transcripts`);
+    }
+
+    const extracted = await processTranscripts(sources, {
+      caseTypes: await listCaseTypes(),
+      onEvent: async (event) => {
+        if (event.type === "chunked") {
+          await db
+            .update(processingJobs)
+            .set({ totalChunks: event.totalChunks })
+            .where(eq(processingJobs.id, job.id));
+        } else if (
+          event.type === "chunk_complete" ||
+          event.type === "chunk_failed"
+        ) {
+          await db
+            .update(processingJobs)
+            .set({ completedChunks: event.chunk })
+            .where(eq(processingJobs.id, job.id));
+        }
+        await publishJobEvent(job.id, event);
+      },
+    });
+
+    if (job.mode === "preview") {
+      // Hold the result until the lawyer accepts or rejects each field
+      console.log(`\n[Transcript Job] Storing extraction for preview...`);
+      await db
+        .update(processingJobs)
+        .set({ status: "succeeded", result: extracted, finishedAt: new Date() })
+        .where(eq(processingJobs.id, job.id));
+    } else {
+      console.log(`\n[Transcript Job] Updating matter with extracted data...`);
+      await applyExtractionToMatter(job.id, job.matterId, extracted);
+
+      await db
+        .update(processingJobs)
+        .set({ status: "succeeded", finishedAt: new Date() })
+        .where(eq(processingJobs.id, job.id));
+    }
+    await db
+      .update(matters)
+      .set({ processingStatus: "succeeded" })
+      .where(eq(matters.id, job.matterId));
+    if (job.mode === "apply") {
+      await advanceMatterStatus(job.matterId, "extraction_succeeded");
+    }
+
+    await publishJobEvent(job.id, {
+      type: "complete",
+      matterId: job.matterId,
+    });
+
+    console.log(`[Transcript Job] ✓ Job ${job.id} succeeded\n`);
+  } catch (error) {
+    console.error(`[Transcript Job] ✗ Job ${job.id} failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+
+    await db
+      .update(processingJobs)
+      .set({
+        status: "failed",
+        error: message,
+        finishedAt: new Date(),
+      })
+      .where(eq(processingJobs.id, job.id));
+    await db
+      .update(matters)
+      .set({ processingStatus: "failed" })
+      .where(eq(matters.id, job.matterId));
+    if (job.mode === "apply") {
+      await advanceMatterStatus(job.matterId, "extraction_failed");
+    }
+    await publishJobEvent(job.id, { type: "failed", error: message });
+  }
+}
@@ -0,0 +1,284 @@
+import { asc, desc, eq } from "drizzle-orm";
+import { db } from "@/db";
+import {
+  matterAssignments,
+  matterRevisions,
+  matters,
+  users,
+} from "@/db/schema";
+import type { MatterRevisionKind } from "@/db/types";
+import {
+  diffSnapshots,
+  fieldValuesEqual,
+  getFieldValue,
+  INTAKE_FIELDS,
+} from "@/lib/intake/fields";
+import {
+  type MatterState,
+  saveMatterSnapshot,
+  type Transaction,
+} from "./snapshot";
+
+export type RevisionDetails = {
+  kind: MatterRevisionKind;
+  userId?: number | null;
+  jobId?: number | null;
+  restoredFromId?: number | null;
+};
+
+/**
+ * The parts of a matter outside its intake fields that revisions also log
+ */
+export type MatterRecord = {
+  name: string;
+  reviewed: boolean;
+  owner: string | null; // Owner's name
+  assignees: string[]; // Assigned staff's names, in the order they were added
+};
+
+/**
+ * What a revision stores before and after a change: the intake fields for
+ * edits, extractions and reviews, the matter record for renames, review marks
+ * and team changes
+ */
+export type RevisionState = Partial<MatterState> & { record?: MatterRecord };
+
+export type RevisionChange = {
+  key: string;
+  label: string;
+  current: unknown;
+  proposed: unknown;
+};
+
+const RECORD_LABELS: Record<keyof MatterRecord, string> = {
+  name: "Matter Name",
+  reviewed: "Marked Reviewed",
+  owner: "Owner",
+  assignees: "Assigned Staff",
+};
+
+// Changes from a lawyer's own hand don't reopen the matter's review
+const REOPENS_REVIEW = new Set<MatterRevisionKind>([
+  "extraction",
+  "restore",
+  "brief",
+]);
+
+/**
+ * Everything a revision changed: field values, AI values a lawyer confirmed
+ * (keyed "<field>.confirmed"), and the matter's name, review mark and team
+ */
+export function diffRevision(
+  before: RevisionState,
+  after: RevisionState,
+): RevisionChange[] {
+  const changes: RevisionChange[] = [];
+
+  if (before.snapshot && after.snapshot) {
+    const { snapshot: current } = before;
+    const { snapshot: proposed } = after;
+    changes.push(...diffSnapshots(current, proposed));
+
+    for (const field of INTAKE_FIELDS) {
+      const wasConfirmed = Boolean(
+        before.fieldSources?.[field.key]?.reviewedAt,
+      );
+      const isConfirmed = Boolean(after.fieldSources?.[field.key]?.reviewedAt);
+      if (
+        wasConfirmed !== isConfirmed &&
+        fieldValuesEqual(
+          getFieldValue(current, field.key),
+          getFieldValue(proposed, field.key),
+        )
+      ) {
+        changes.push({
+          key: `${field.key}.confirmed`,
+          label: `${field.label} Confirmed`,
+          current: wasConfirmed,
+          proposed: isConfirmed,
+        });
+      }
+    }
+  }
+
+  if (before.record && after.record) {
+    for (const [key, label] of Object.entries(RECORD_LABELS)) {
+      const current = before.record[key as keyof MatterRecord];
+      const proposed = after.record[key as keyof MatterRecord];
+      if (!fieldValuesEqual(current, proposed)) {
+        changes.push({ key, label, current, proposed });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Save a new state for a matter and log the change with before/after snapshots.
+ * Only value changes and confirmations are logged, but provenance and
+ * citations are saved on their own too, e.g. a re-extraction's new confidence
+ * scores for the same values. Changes that don't come from a lawyer's own
+ * hand reopen the matter's review.
+ */
+export async function saveMatterRevision(
+  matterId: number,
+  before: MatterState,
+  after: MatterState,
+  details: RevisionDetails,
+) {
+  const changedFields = diffRevision(before, after).map((change) => change.key);
+
+  if (changedFields.length === 0) {
+    if (
+      !fieldValuesEqual(before.fieldSources, after.fieldSources) ||
+      !fieldValuesEqual(before.snapshot.citations, after.snapshot.citations)
+    ) {
+      db.transaction((tx) =>
+        saveMatterSnapshot(tx, matterId, after.snapshot, after.fieldSources),
+      );
+      console.log(
+        `[Revisions] Matter ${matterId}: ${details.kind} updated field sources and citations only`,
+      );
+    }
+    return null;
+  }
+
+  // Values, review reset and log entry are written together or not at all
+  const revision = db.transaction((tx) => {
+    saveMatterSnapshot(tx, matterId, after.snapshot, after.fieldSources);
+
+    if (REOPENS_REVIEW.has(details.kind)) {
+      tx.update(matters)
+        .set({ reviewedAt: null })
+        .where(eq(matters.id, matterId))
+        .run();
+    }
+
+    return insertRevision(
+      tx,
+      matterId,
+      details,
+      changedFields,
+      { snapshot: before.snapshot, fieldSources: before.fieldSources },
+      { snapshot: after.snapshot, fieldSources: after.fieldSources },
+    );
+  });
+
+  console.log(
+    `[Revisions] Matter ${matterId}: ${details.kind} changed ${changedFields.length} field(s) (revision ${revision.id})`,
+  );
+
+  return revision.id;
+}
+
+function readMatterRecord(tx: Transaction, matterId: number): MatterRecord {
+  const matter = tx
+    .select({
+      name: matters.name,
+      reviewedAt: matters.reviewedAt,
+      ownerFirstName: users.firstName,
+      ownerLastName: users.lastName,
+    })
+    .from(matters)
+    .leftJoin(users, eq(matters.ownerId, users.id))
+    .where(eq(matters.id, matterId))
+    .get();
+  if (!matter) {
+    throw new Error(`Matter ${matterId} no longer exists`);
+  }
+
+  const assignees = tx
+    .select({ firstName: users.firstName, lastName: users.lastName })
+    .from(matterAssignments)
+    .innerJoin(users, eq(matterAssignments.userId, users.id))
+    .where(eq(matterAssignments.matterId, matterId))
+    .orderBy(asc(matterAssignments.assignedAt), asc(matterAssignments.id))
+    .all();
+
+  return {
+    name: matter.name,
+    reviewed: matter.reviewedAt !== null,
+    owner:
+      matter.ownerFirstName !== null
+        ? `${matter.ownerFirstName} ${matter.ownerLastName}`
+        : null,
+    assignees: assignees.map((user) => `${user.firstName} ${user.lastName}`),
+  };
+}
+
+/**
+ * Change a matter's name, review mark or team and log it, both in one
+ * transaction. The record is read on either side of the write, so the log
+ * shows what actually changed; nothing is logged when nothing did.
+ */
+export function saveMatterRecordChange(
+  matterId: number,
+  details: RevisionDetails,
+  write: (tx: Transaction) => void,
+) {
+  const revision = db.transaction((tx) => {
+    const before = readMatterRecord(tx, matterId);
+    write(tx);
+    const after = readMatterRecord(tx, matterId);
+
+    const changedFields = diffRevision(
+      { record: before },
+      { record: after },
+    ).map((change) => change.key);
+    if (changedFields.length === 0) {
+      return null;
+    }
+    return insertRevision(
+      tx,
+      matterId,
+      details,
+      changedFields,
+      { record: before },
+      { record: after },
+    );
+  });
+
+  if (revision) {
+    console.log(
+      `[Revisions] Matter ${matterId}: ${details.kind} (revision ${revision.id})`,
+    );
+  }
+
+  return revision?.id ?? null;
+}
+
+function insertRevision(
+  tx: Transaction,
+  matterId: number,
+  details: RevisionDetails,
+  changedFields: string[],
+  before: RevisionState,
+  after: RevisionState,
+) {
+  return tx
+    .insert(matterRevisions)
+    .values({
+      matterId,
+      kind: details.kind,
+      userId: details.userId ?? null,
+      jobId: details.jobId ?? null,
+      restoredFromId: details.restoredFromId ?? null,
+      changedFields,
+      before,
+      after,
+    })
+    .returning({ id: matterRevisions.id })
+    .get();
+}
+
+/**
+ * All revisions for a matter, newest first, with who made each one
+ */
+export async function listMatterRevisions(matterId: number) {
+  return await db.query.matterRevisions.findMany({
+    where: eq(matterRevisions.matterId, matterId),
+    orderBy: [desc(matterRevisions.createdAt), desc(matterRevisions.id)],
+    with: { user: { columns: { firstName: true, lastName: true } } },
+  });
+}
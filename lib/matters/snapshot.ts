@@ -0,0 +1,237 @@
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { intakeFormData, matters } from "@/db/schema";
+import type {
+  CaseDetails,
+  Coverage,
+  Damages,
+  DogBiteDetails,
+  FieldSources,
+  Liability,
+  MvaDetails,
+  PremisesDetails,
+} from "@/db/types";
+import type { ChunkExtraction } from "@/lib/ai/specialized-extractor";
+import type { MatterSnapshot, SectionCitations } from "@/lib/intake/fields";
+
+/**
+ * Everything a revision captures: field values plus where each one came from
+ */
+export type MatterState = {
+  snapshot: MatterSnapshot;
+  fieldSources: FieldSources;
+};
+
+/**
+ * Load the editable state of a matter as a single snapshot
+ */
+export async function loadMatterSnapshot(
+  matterId: number,
+): Promise<(MatterState & { intakeFormDataId: number }) | null> {
+  const [row] = await db
+    .select({
+      clientName: matters.clientName,
+      clientDob: matters.clientDob,
+      clientPhone: matters.clientPhone,
+      clientEmail: matters.clientEmail,
+      clientAddress: matters.clientAddress,
+      incidentDate: matters.incidentDate,
+      incidentLocation: matters.incidentLocation,
+      brief: matters.brief,
+      citations: matters.citations,
+      fieldSources: matters.fieldSources,
+      intakeFormDataId: matters.intakeFormDataId,
+      caseType: intakeFormData.caseType,
+      caseDetails: intakeFormData.caseDetails,
+      liability: intakeFormData.liability,
+      damages: intakeFormData.damages,
+      coverage: intakeFormData.coverage,
+      mvaDetails: intakeFormData.mvaDetails,
+      dogBiteDetails: intakeFormData.dogBiteDetails,
+      premisesDetails: intakeFormData.premisesDetails,
+    })
+    .from(matters)
+    .innerJoin(intakeFormData, eq(matters.intakeFormDataId, intakeFormData.id))
+    .where(eq(matters.id, matterId))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  const { intakeFormDataId, fieldSources, ...fields } = row;
+  const snapshot: MatterSnapshot = {
+    ...fields,
+    caseDetails: fields.caseDetails as CaseDetails | null,
+    liability: fields.liability as Liability,
+    damages: fields.damages as Damages,
+    coverage: fields.coverage as Coverage,
+    mvaDetails: fields.mvaDetails as MvaDetails | null,
+    dogBiteDetails: fields.dogBiteDetails as DogBiteDetails | null,
+    premisesDetails: fields.premisesDetails as PremisesDetails | null,
+    citations: fields.citations as SectionCitations | null,
+  };
+
+  return {
+    snapshot,
+    intakeFormDataId,
+    fieldSources: (fieldSources ?? {}) as FieldSources,
+  };
+}
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Write a snapshot back to the matter and its intake form, optionally
+ * replacing the matter's field provenance at the same time. Runs inside the
+ * caller's transaction, so it's synchronous like the rest of better-sqlite3's.
+ */
+export function saveMatterSnapshot(
+  tx: Transaction,
+  matterId: number,
+  snapshot: MatterSnapshot,
+  fieldSources?: FieldSources,
+) {
+  const matter = tx
+    .update(matters)
+    .set({
+      clientName: snapshot.clientName,
+      clientDob: snapshot.clientDob,
+      clientPhone: snapshot.clientPhone,
+      clientEmail: snapshot.clientEmail,
+      clientAddress: snapshot.clientAddress,
+      incidentDate: snapshot.incidentDate,
+      incidentLocation: snapshot.incidentLocation,
+      brief: snapshot.brief,
+      citations: snapshot.citations,
+      ...(fieldSources && { fieldSources }),
+      updatedAt: new Date(),
+    })
+    .where(eq(matters.id, matterId))
+    .returning({ intakeFormDataId: matters.intakeFormDataId })
+    .get();
+
+  if (!matter) {
+    throw new Error(`Matter ${matterId} no longer exists`);
+  }
+
+  tx.update(intakeFormData)
+    .set({
+      caseType: snapshot.caseType,
+      caseDetails: snapshot.caseDetails,
+      liability: snapshot.liability,
+      damages: snapshot.damages,
+      coverage: snapshot.coverage,
+      mvaDetails: snapshot.mvaDetails ?? null,
+      dogBiteDetails: snapshot.dogBiteDetails ?? null,
+      premisesDetails: snapshot.premisesDetails ?? null,
+    })
+    .where(eq(intakeFormData.id, matter.intakeFormDataId))
+    .run();
+}
+
+/**
+ * Convert a merged AI extraction into snapshot form
+ */
+export function extractionToSnapshot(
+  extracted: ChunkExtraction,
+): MatterSnapshot {
+  return {
+    clientName: extracted.clientInfo.clientName ?? null,
+    clientDob: extracted.clientInfo.clientDob ?? null,
+    clientPhone: extracted.clientInfo.clientPhone ?? null,
+    clientEmail: extracted.clientInfo.clientEmail ?? null,
+    clientAddress: extracted.clientInfo.clientAddress ?? null,
+    incidentDate: extracted.clientInfo.incidentDate ?? null,
+    incidentLocation: extracted.clientInfo.incidentLocation ?? null,
+    brief: extracted.clientInfo.brief ?? null,
+    caseType: extracted.clientInfo.caseType,
+    caseDetails: extracted.clientInfo.caseDetails
+      ? Object.fromEntries(
+          extracted.clientInfo.caseDetails.map((d) => [d.key, d.value]),
+        )
+      : null,
+    liability: extracted.liability as Liability,
+    damages: extracted.damages as Damages,
+    coverage: extracted.coverage as Coverage,
+    mvaDetails: (extracted.mvaDetails as MvaDetails) ?? null,
+    dogBiteDetails: (extracted.dogBiteDetails as DogBiteDetails) ?? null,
+    premisesDetails: (extracted.premisesDetails as PremisesDetails) ?? null,
+    citations: {
+      clientInfo: extracted.clientInfo.citations || [],
+      liability: extracted.liability.citations || [],
+      damages: extracted.damages.citations || [],
+      coverage: extracted.coverage.citations || [],
+      ...(extracted.mvaDetails && {
+        mvaDetails: extracted.mvaDetails.citations || [],
+      }),
+      ...(extracted.dogBiteDetails && {
+        dogBiteDetails: extracted.dogBiteDetails.citations || [],
+      }),
+      ...(extracted.premisesDetails && {
+        premisesDetails: extracted.premisesDetails.citations || [],
+      }),
+    },
+  };
+}
+
+/**
+ * The reverse of extractionToSnapshot, for AI passes over a matter's current
+ * values (including a lawyer's corrections)
+ */
+export function snapshotToExtraction(
+  snapshot: MatterSnapshot,
+): ChunkExtraction {
+  return {
+    clientInfo: {
+      caseType: snapshot.caseType,
+      clientName: snapshot.clientName,
+      clientDob: snapshot.clientDob,
+      clientPhone: snapshot.clientPhone,
+      clientEmail: snapshot.clientEmail,
+      clientAddress: snapshot.clientAddress,
+      incidentDate: snapshot.incidentDate,
+      incidentLocation: snapshot.incidentLocation,
+      brief: snapshot.brief,
+      caseDetails: Object.entries(snapshot.caseDetails ?? {}).map(
+        ([key, value]) => ({ key, value }),
+      ),
+      citations: snapshot.citations?.clientInfo,
+    },
+    liability: {
+      ...snapshot.liability,
+      citations: snapshot.liability.citations ?? snapshot.citations?.liability,
+    },
+    damages: {
+      ...snapshot.damages,
+      citations: snapshot.damages.citations ?? snapshot.citations?.damages,
+    },
+    coverage: {
+      ...snapshot.coverage,
+      citations: snapshot.coverage.citations ?? snapshot.citations?.coverage,
+    },
+    ...(snapshot.mvaDetails && {
+      mvaDetails: {
+        ...snapshot.mvaDetails,
+        citations:
+          snapshot.mvaDetails.citations ?? snapshot.citations?.mvaDetails,
+      } as ChunkExtraction["mvaDetails"],
+    }),
+    ...(snapshot.dogBiteDetails && {
+      dogBiteDetails: {
+        ...snapshot.dogBiteDetails,
+        citations:
+          snapshot.dogBiteDetails.citations ??
+          snapshot.citations?.dogBiteDetails,
+      } as ChunkExtraction["dogBiteDetails"],
+    }),
+    ...(snapshot.premisesDetails && {
+      premisesDetails: {
+        ...snapshot.premisesDetails,
+        citations:
+          snapshot.premisesDetails.citations ??
+          snapshot.citations?.premisesDetails,
+      } as ChunkExtraction["premisesDetails"],
+    }),
+  };
+}
@@ -0,0 +1,112 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "@/db";
+import { matters } from "@/db/schema";
+import type { DecisionOutcome, LetterMethod, MatterStatus } from "@/db/types";
+
+export const MATTER_STATUSES: MatterStatus[] = [
+  "new",
+  "processing",
+  "in_review",
+  "accepted",
+  "declined",
+  "referred_out",
+  "conflict",
+];
+
+export const MATTER_STATUS_LABELS: Record<MatterStatus, string> = {
+  new: "New",
+  processing: "Processing",
+  in_review: "In Review",
+  accepted: "Accepted",
+  declined: "Declined",
+  referred_out: "Referred Out",
+  conflict: "Conflict",
+};
+
+export const MATTER_STATUS_STYLES: Record<MatterStatus, string> = {
+  new: "bg-gray-100 text-gray-700",
+  processing: "bg-blue-100 text-blue-700",
+  in_review: "bg-amber-100 text-amber-800",
+  accepted: "bg-green-100 text-green-800",
+  declined: "bg-red-100 text-red-700",
+  referred_out: "bg-violet-100 text-violet-700",
+  conflict: "bg-orange-100 text-orange-700",
+};
+
+export const DECISION_OUTCOMES: DecisionOutcome[] = [
+  "accepted",
+  "declined",
+  "referred_out",
+  "conflict",
+];
+
+export const LETTER_METHODS: LetterMethod[] = ["email", "mail"];
+
+export const LETTER_METHOD_LABELS: Record<LetterMethod, string> = {
+  email: "Email",
+  mail: "Mail",
+};
+
+export function isMatterStatus(value: unknown): value is MatterStatus {
+  return MATTER_STATUSES.includes(value as MatterStatus);
+}
+
+export function isLetterMethod(value: unknown): value is LetterMethod {
+  return LETTER_METHODS.includes(value as LetterMethod);
+}
+
+export function isDecided(status: MatterStatus): status is DecisionOutcome {
+  return DECISION_OUTCOMES.includes(status as DecisionOutcome);
+}
+
+/**
+ * Anyone the firm doesn't take on is told so in writing
+ */
+export function needsDeclinationLetter(outcome: DecisionOutcome) {
+  return outcome !== "accepted";
+}
+
+export type MatterEvent =
+  | "extraction_queued"
+  | "extraction_succeeded"
+  | "extraction_failed"
+  | "extraction_applied"
+  | "edited";
+
+// Automatic moves only; decisions and reopening are made explicitly
+const TRANSITIONS: Record<
+  MatterEvent,
+  Partial<Record<MatterStatus, MatterStatus>>
+> = {
+  // Only the first extraction counts; re-runs don't take a matter out of review
+  extraction_queued: { new: "processing" },
+  extraction_succeeded: { processing: "in_review" },
+  extraction_failed: { processing: "new" },
+  // A preview's values were accepted into a matter nobody had extracted yet
+  extraction_applied: { new: "in_review" },
+  // Someone started filling in a manual matter
+  edited: { new: "in_review" },
+};
+
+/**
+ * Move a matter along its lifecycle when something happens to it. Events
+ * that don't apply to the matter's current status are ignored.
+ */
+export async function advanceMatterStatus(
+  matterId: number,
+  event: MatterEvent,
+) {
+  for (const [from, to] of Object.entries(TRANSITIONS[event])) {
+    const updated = await db
+      .update(matters)
+      .set({ status: to })
+      .where(and(eq(matters.id, matterId), eq(matters.status, from)))
+      .returning({ id: matters.id });
+
+    if (updated.length > 0) {
+      console.log(`[Matter Status] Matter ${matterId}: ${from} → ${to}`);
+      return to;
+    }
+  }
+  return null;
+}
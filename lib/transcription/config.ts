@@ -0,0 +1,13 @@
+export const TRANSCRIPTION_CONFIG = {
+  PROVIDER: process.env.TRANSCRIPTION_PROVIDER ?? "openai", // "openai" | "whisper-cpp"
+  OPENAI_MODEL: "whisper-1", // Returns per-segment timestamps
+  DIARIZATION_BATCH_SIZE: 200, // Segments per diarization call
+  WHISPER_CPP_BIN: process.env.WHISPER_CPP_BIN ?? "whisper-cli",
+  WHISPER_CPP_MODEL: process.env.WHISPER_CPP_MODEL, // e.g. models/ggml-small.en-tdrz.bin
+  WHISPER_CPP_TINYDIARIZE: process.env.WHISPER_CPP_TINYDIARIZE === "true", // Requires a -tdrz model
+  FFMPEG_BIN: process.env.FFMPEG_BIN ?? "ffmpeg",
+  LOCAL_TIMEOUT_MS: 30 * 60 * 1000, // Local transcription of long calls is slow
+  OPENAI_MAX_AUDIO_BYTES: 25 * 1024 * 1024, // The OpenAI audio API rejects larger files
+  LOCAL_MAX_AUDIO_BYTES: 200 * 1024 * 1024,
+  UPLOAD_OVERHEAD_BYTES: 64 * 1024, // Multipart boundaries and headers around the file
+} as const;
@@ -0,0 +1,85 @@
+import { generateObject } from "ai";
+import { z } from "zod";
+import { getLanguageModel } from "@/lib/ai/providers";
+import { TRANSCRIPTION_CONFIG } from "./config";
+import type { TimedSegment } from "./types";
+
+const DIARIZATION_SYSTEM_PROMPT = `You are labelling speakers in a transcribed phone call to a personal injury law firm's intake line.
+
+The call is usually between an intake specialist and a prospective client, but family members or others may join.
+
+You will receive numbered transcript segments in order. For every segment, decide who is speaking and assign a speaker number:
+- Speaker numbers start at 0 and are assigned in order of first appearance
+- Keep the same number for the same person throughout the call
+- Use conversational cues: questions vs. answers, greetings, who introduces themselves, who describes the incident
+- A segment that continues the previous sentence is almost always the same speaker
+
+Return exactly one assignment per segment.`;
+
+const SpeakerAssignmentSchema = z.object({
+  assignments: z.array(
+    z.object({
+      index: z.number().int().describe("Segment number as given"),
+      speaker: z.number().int().min(0),
+    }),
+  ),
+});
+
+const CONTEXT_SEGMENTS = 10; // Already-labelled segments shown to the next batch
+
+function formatSegment(index: number, segment: TimedSegment) {
+  return `[${index}]${segment.speaker !== undefined ? ` (Speaker ${segment.speaker})` : ""} ${segment.text}`;
+}
+
+/**
+ * Assign speakers to segments from a provider that doesn't diarize, using an
+ * LLM over the text. Long calls are labelled in batches, each seeing the tail
+ * of the previous batch so speaker numbers stay consistent.
+ */
+export async function diarizeSegments(
+  segments: TimedSegment[],
+): Promise<TimedSegment[]> {
+  const labelled: TimedSegment[] = [];
+  const batchSize = TRANSCRIPTION_CONFIG.DIARIZATION_BATCH_SIZE;
+
+  for (let offset = 0; offset < segments.length; offset += batchSize) {
+    const batch = segments.slice(offset, offset + batchSize);
+    const context = labelled.slice(-CONTEXT_SEGMENTS);
+
+    console.log(
+      `[Diarization] Labelling segments ${offset + 1}-${offset + batch.length} of ${segments.length}`,
+    );
+
+    const { object } = await generateObject({
+      model: getLanguageModel("diarization"),
+      schema: SpeakerAssignmentSchema,
+      system: DIARIZATION_SYSTEM_PROMPT,
+      prompt: `${
+        context.length > 0
+          ? `Already labelled (for context only, do not return these):\n${context
+              .map((segment, i) =>
+                formatSegment(offset - context.length + i, segment),
+              )
+              .join("\n")}\n\n`
+          : ""
+      }Segments to label:\n${batch
+        .map((segment, i) => formatSegment(offset + i, segment))
+        .join("\n")}`,
+    });
+
+    const speakerByIndex = new Map(
+      object.assignments.map((a) => [a.index, a.speaker]),
+    );
+
+    batch.forEach((segment, i) => {
+      // Fall back to the previous speaker for anything the model skipped
+      const previous = labelled[labelled.length - 1]?.speaker ?? 0;
+      labelled.push({
+        ...segment,
+        speaker: speakerByIndex.get(offset + i) ?? previous,
+      });
+    });
+  }
+
+  return labelled;
+}
@@ -0,0 +1,106 @@
+import type { Transcript } from "@/lib/ai/types";
+import { TRANSCRIPTION_CONFIG } from "./config";
+import { diarizeSegments } from "./diarize";
+import { createOpenAITranscriptionProvider } from "./providers/openai";
+import { createWhisperCppProvider } from "./providers/whisper-cpp";
+import type { AudioInput, TimedSegment, TranscriptionProvider } from "./types";
+
+export type { AudioInput, TimedSegment, TranscriptionProvider } from "./types";
+
+/**
+ * Resolve the configured transcription provider (TRANSCRIPTION_PROVIDER env var)
+ */
+export function getTranscriptionProvider(
+  name: string = TRANSCRIPTION_CONFIG.PROVIDER,
+): TranscriptionProvider {
+  switch (name) {
+    case "openai":
+      return createOpenAITranscriptionProvider(
+        TRANSCRIPTION_CONFIG.OPENAI_MODEL,
+        TRANSCRIPTION_CONFIG.OPENAI_MAX_AUDIO_BYTES,
+      );
+    case "whisper-cpp":
+      if (!TRANSCRIPTION_CONFIG.WHISPER_CPP_MODEL) {
+        throw new Error(
+          "WHISPER_CPP_MODEL must point to a whisper.cpp model file",
+        );
+      }
+      return createWhisperCppProvider({
+        binary: TRANSCRIPTION_CONFIG.WHISPER_CPP_BIN,
+        model: TRANSCRIPTION_CONFIG.WHISPER_CPP_MODEL,
+        ffmpeg: TRANSCRIPTION_CONFIG.FFMPEG_BIN,
+        tinydiarize: TRANSCRIPTION_CONFIG.WHISPER_CPP_TINYDIARIZE,
+        timeoutMs: TRANSCRIPTION_CONFIG.LOCAL_TIMEOUT_MS,
+        maxAudioBytes: TRANSCRIPTION_CONFIG.LOCAL_MAX_AUDIO_BYTES,
+      });
+    default:
+      throw new Error(`Unknown transcription provider: ${name}`);
+  }
+}
+
+/**
+ * Collapse consecutive segments from the same speaker into one transcript segment
+ */
+export function segmentsToTranscript(segments: TimedSegment[]): Transcript {
+  const merged: Transcript["segments"] = [];
+
+  for (const segment of segments) {
+    const speaker = segment.speaker ?? 0;
+    const last = merged[merged.length - 1];
+
+    if (last && last.speaker === speaker) {
+      last.content = `${last.content} ${segment.text}`;
+      last.end = segment.end;
+    } else {
+      merged.push({
+        speaker,
+        content: segment.text,
+        start: segment.start,
+        end: segment.end,
+      });
+    }
+  }
+
+  return { segments: merged };
+}
+
+export function audioTooLargeMessage(provider: TranscriptionProvider) {
+  const limitMb = Math.floor(provider.maxAudioBytes / 1024 / 1024);
+  return `Recordings over ${limitMb} MB can't be transcribed with ${provider.name}`;
+}
+
+/**
+ * Audio → timestamped, diarized transcript in the same shape as uploaded JSON
+ */
+export async function transcribeAudio(
+  audio: AudioInput,
+  provider: TranscriptionProvider = getTranscriptionProvider(),
+): Promise<Transcript> {
+  console.log(
+    `\n[Transcription] Transcribing "${audio.fileName}" (${(audio.data.byteLength / 1024 / 1024).toFixed(1)} MB) with ${provider.name}...`,
+  );
+  if (audio.data.byteLength > provider.maxAudioBytes) {
+    throw new Error(audioTooLargeMessage(provider));
+  }
+  const startTime = Date.now();
+
+  let segments = await provider.transcribe(audio);
+  console.log(`[Transcription] ✓ ${segments.length} segment(s) transcribed`);
+
+  if (segments.length === 0) {
+    throw new Error("No speech was detected in the recording");
+  }
+
+  if (!provider.diarizes) {
+    segments = await diarizeSegments(segments);
+  }
+
+  const transcript = segmentsToTranscript(segments);
+  const speakerCount = new Set(transcript.segments.map((s) => s.speaker)).size;
+
+  console.log(
+    `[Transcription] ✓ ${transcript.segments.length} turn(s) across ${speakerCount} speaker(s) in ${((Date.now() - startTime) / 1000).toFixed(1)}s`,
+  );
+
+  return transcript;
+}
@@ -0,0 +1,46 @@
+import { openai } from "@ai-sdk/openai";
+import { experimental_transcribe as transcribe } from "ai";
+import type { TranscriptionProvider } from "../types";
+
+/**
+ * Hosted transcription via the OpenAI audio API. Returns timestamps but no
+ * speakers, so its output goes through the diarization step.
+ */
+export function createOpenAITranscriptionProvider(
+  model: string,
+  maxAudioBytes: number,
+): TranscriptionProvider {
+  return {
+    name: "openai",
+    diarizes: false,
+    maxAudioBytes,
+    async transcribe(audio) {
+      const result = await transcribe({
+        model: openai.transcription(model),
+        audio: audio.data,
+        providerOptions: {
+          openai: { timestampGranularities: ["segment"] },
+        },
+      });
+
+      if (result.segments.length === 0) {
+        // Some models only return the full text
+        return result.text.trim()
+          ? [
+              {
+                start: 0,
+                end: result.durationInSeconds ?? 0,
+                text: result.text.trim(),
+              },
+            ]
+          : [];
+      }
+
+      return result.segments.map((segment) => ({
+        start: segment.startSecond,
+        end: segment.endSecond,
+        text: segment.text.trim(),
+      }));
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { promisify } from "node:util";
+import type { TimedSegment, TranscriptionProvider } from "../types";
+
+const execFileAsync = promisify(execFile);
+
+type WhisperCppOptions = {
+  binary: string;
+  model: string;
+  ffmpeg: string;
+  tinydiarize: boolean;
+  timeoutMs: number;
+  maxAudioBytes: number;
+};
+
+// Shape of the file written by `whisper-cli --output-json`
+type WhisperCppOutput = {
+  transcription: Array<{
+    offsets: { from: number; to: number }; // Milliseconds
+    text: string;
+    speaker_turn_next?: boolean; // Only with --tinydiarize
+  }>;
+};
+
+/**
+ * Offline transcription with a local whisper.cpp build. Nothing leaves the
+ * machine, which makes it the provider to use for development and testing.
+ *
+ * With a tinydiarize model, whisper.cpp marks where the speaker changes; for a
+ * two-party phone call that's enough to alternate between speakers 0 and 1.
+ */
+export function createWhisperCppProvider(
+  options: WhisperCppOptions,
+): TranscriptionProvider {
+  return {
+    name: "whisper-cpp",
+    diarizes: options.tinydiarize,
+    maxAudioBytes: options.maxAudioBytes,
+    async transcribe(audio) {
+      const workDir = await mkdtemp(path.join(tmpdir(), "whisper-"));
+
+      try {
+        const inputPath = path.join(
+          workDir,
+          `input${path.extname(audio.fileName)}`,
+        );
+        const wavPath = path.join(workDir, "audio.wav");
+        const outputBase = path.join(workDir, "transcript");
+
+        await writeFile(inputPath, audio.data);
+
+        // whisper.cpp only reads 16kHz mono PCM
+        await execFileAsync(
+          options.ffmpeg,
+          [
+            "-nostdin",
+            "-y",
+            "-i",
+            inputPath,
+            "-ar",
+            "16000",
+            "-ac",
+            "1",
+            "-c:a",
+            "pcm_s16le",
+            wavPath,
+          ],
+          { timeout: options.timeoutMs },
+        );
+
+        await execFileAsync(
+          options.binary,
+          [
+            "-m",
+            options.model,
+            "-f",
+            wavPath,
+            "--output-json",
+            "--output-file",
+            outputBase,
+            "--no-prints",
+            ...(options.tinydiarize ? ["--tinydiarize"] : []),
+          ],
+          { timeout: options.timeoutMs, maxBuffer: 64 * 1024 * 1024 },
+        );
+
+        const output = JSON.parse(
+          await readFile(`${outputBase}.json`, "utf-8"),
+        ) as WhisperCppOutput;
+
+        let speaker = 0;
+        const segments: TimedSegment[] = [];
+        for (const entry of output.transcription) {
+          const text = entry.text.replace("[SPEAKER_TURN]", "").trim();
+          if (text) {
+            segments.push({
+              start: entry.offsets.from / 1000,
+              end: entry.offsets.to / 1000,
+              text,
+              ...(options.tinydiarize && { speaker }),
+            });
+          }
+          if (entry.speaker_turn_next) {
+            speaker = speaker === 0 ? 1 : 0;
+          }
+        }
+
+        return segments;
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
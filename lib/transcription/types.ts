@@ -0,0 +1,22 @@
+export type AudioInput = {
+  data: Uint8Array;
+  fileName: string;
+  mediaType: string;
+};
+
+/**
+ * A stretch of speech as returned by a transcription provider
+ */
+export type TimedSegment = {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  text: string;
+  speaker?: number; // Only set by providers that diarize
+};
+
+export interface TranscriptionProvider {
+  readonly name: string;
+  readonly diarizes: boolean; // Whether segments come back with speakers assigned
+  readonly maxAudioBytes: number; // Largest recording the provider accepts
+  transcribe(audio: AudioInput): Promise<TimedSegment[]>;
+}
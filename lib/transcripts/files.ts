@@ -0,0 +1,47 @@
+const AUDIO_EXTENSIONS =
+  /\.(mp3|mp4|m4a|mpeg|mpga|wav|ogg|oga|opus|webm|flac|aac)$/i;
+const TEXT_EXTENSIONS = /\.(json|vtt|srt|txt)$/i;
+
+export const TRANSCRIPT_FILE_ACCEPT = [
+  ".json",
+  ".vtt",
+  ".srt",
+  ".txt",
+  ".docx",
+  "audio/*",
+  ".mp3",
+  ".m4a",
+  ".wav",
+  ".ogg",
+  ".opus",
+  ".webm",
+  ".flac",
+  ".aac",
+].join(",");
+
+export function isAudioFile(file: { name: string; type: string }) {
+  return file.type.startsWith("audio/") || AUDIO_EXTENSIONS.test(file.name);
+}
+
+export function isDocxFile(file: { name: string; type: string }) {
+  return (
+    file.type ===
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
+    file.name.toLowerCase().endsWith(".docx")
+  );
+}
+
+export function isTextTranscriptFile(file: { name: string; type: string }) {
+  return (
+    TEXT_EXTENSIONS.test(file.name) ||
+    file.type === "application/json" ||
+    file.type.startsWith("text/")
+  );
+}
+
+/**
+ * Anything the importer can turn into a transcript
+ */
+export function isTranscriptFile(file: { name: string; type: string }) {
+  return isAudioFile(file) || isDocxFile(file) || isTextTranscriptFile(file);
+}
@@ -0,0 +1,46 @@
+import type { ParsedSegment } from "./types";
+import { parseTimestamp, splitBlocks, splitSpeakerPrefix } from "./utils";
+
+const CUE_TIMING = /^(\S+)\s+-->\s+(\S+)/;
+const VOICE_TAG = /<v(?:\.[^\s>]+)*\s+([^>]+)>/;
+
+/**
+ * Parse WebVTT or SRT captions. Speakers come from WebVTT voice tags
+ * (`<v Jane Doe>`, used by Teams) or a "Name: " prefix (used by Zoom).
+ */
+export function parseCaptions(text: string): ParsedSegment[] {
+  const segments: ParsedSegment[] = [];
+
+  for (const lines of splitBlocks(text)) {
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    const timing = lines[timingIndex]?.match(CUE_TIMING);
+    if (!timing) continue; // Header, NOTE, STYLE or REGION block
+
+    const [, startValue, endValue] = timing;
+    const cueText = lines.slice(timingIndex + 1).join(" ");
+
+    const voice = cueText.match(VOICE_TAG);
+    // Drop markup (<v>, <c>, <i>, timestamps) once the voice has been read
+    const plain = cueText.replace(/<[^>]+>/g, "").trim();
+    if (!plain) continue;
+
+    const prefixed = voice ? null : splitSpeakerPrefix(plain);
+
+    segments.push({
+      speakerName: voice?.[1].trim() ?? prefixed?.speakerName ?? null,
+      content: prefixed?.content ?? plain,
+      start: parseTimestamp(startValue),
+      end: parseTimestamp(endValue),
+    });
+  }
+
+  return segments;
+}
+
+export function looksLikeVtt(text: string) {
+  return /^WEBVTT/.test(text);
+}
+
+export function looksLikeSrt(text: string) {
+  return /^\s*\d+\r?\n\d{2}:\d{2}:\d{2},\d{3}\s+-->/.test(text);
+}
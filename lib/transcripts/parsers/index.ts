@@ -0,0 +1,144 @@
+import type { Transcript } from "@/lib/ai/types";
+import { getSpeakerName } from "../speakers";
+import { looksLikeSrt, looksLikeVtt, parseCaptions } from "./captions";
+import { parseJsonTranscript } from "./json";
+import { parseMeetingExport } from "./meeting";
+import { parsePlainText } from "./plain";
+import type { ParsedSegment, TranscriptFormat } from "./types";
+
+export type { ParsedSegment, TranscriptFormat } from "./types";
+
+export const FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  json: "JSON transcript",
+  vtt: "WebVTT captions",
+  srt: "SRT captions",
+  zoom: "Zoom transcript",
+  teams: "Microsoft Teams transcript",
+  plain: "Plain text transcript",
+  audio: "Call recording",
+};
+
+/**
+ * Number speakers and merge consecutive utterances by the same speaker
+ * (caption formats split sentences across cues).
+ */
+export function buildTranscript(segments: ParsedSegment[]): Transcript {
+  const keepNumbers = segments.every((s) => s.speaker !== undefined);
+  const numbersByName = new Map<string, number>();
+  const names = new Map<number, string>();
+
+  const speakerFor = (segment: ParsedSegment) => {
+    if (keepNumbers) return segment.speaker as number;
+    // Speakers are numbered in order of first appearance. Unnamed lines keep
+    // apart by their original number, or share one speaker when they have none.
+    const key =
+      segment.speakerName?.toLowerCase() ??
+      (segment.speaker !== undefined ? `#${segment.speaker}` : "");
+    if (!numbersByName.has(key)) {
+      numbersByName.set(key, numbersByName.size);
+    }
+    return numbersByName.get(key) as number;
+  };
+
+  const merged: Transcript["segments"] = [];
+  for (const segment of segments) {
+    const content = segment.content.replace(/\s+/g, " ").trim();
+    if (!content) continue;
+
+    const speaker = speakerFor(segment);
+    if (segment.speakerName && !names.has(speaker)) {
+      names.set(speaker, segment.speakerName);
+    }
+
+    const last = merged[merged.length - 1];
+    if (last && last.speaker === speaker) {
+      last.content = `${last.content} ${content}`;
+      last.end = segment.end ?? last.end;
+    } else {
+      merged.push({
+        speaker,
+        content,
+        ...(segment.start !== undefined && { start: segment.start }),
+        ...(segment.end !== undefined && { end: segment.end }),
+      });
+    }
+  }
+
+  if (merged.length === 0) {
+    throw new Error("No transcript text was found in the file");
+  }
+
+  return {
+    segments: merged,
+    ...(names.size > 0 && {
+      speakers: Array.from(names, ([speaker, name]) => ({ speaker, name })),
+    }),
+  };
+}
+
+/**
+ * Detect the format of a text transcript and normalize it into a Transcript
+ */
+export function parseTranscriptText(
+  text: string,
+  fileName = "",
+): { transcript: Transcript; format: TranscriptFormat } {
+  const content = text.replace(/^\uFEFF/, "");
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (extension === "json" || content.trimStart().startsWith("{")) {
+    return {
+      transcript: buildTranscript(parseJsonTranscript(content)),
+      format: "json",
+    };
+  }
+  if (extension === "vtt" || looksLikeVtt(content)) {
+    return {
+      transcript: buildTranscript(parseCaptions(content)),
+      format: "vtt",
+    };
+  }
+  if (extension === "srt" || looksLikeSrt(content)) {
+    return {
+      transcript: buildTranscript(parseCaptions(content)),
+      format: "srt",
+    };
+  }
+
+  const meeting = parseMeetingExport(content);
+  if (meeting) {
+    return {
+      transcript: buildTranscript(meeting.segments),
+      format: meeting.format,
+    };
+  }
+
+  return {
+    transcript: buildTranscript(parsePlainText(content)),
+    format: "plain",
+  };
+}
+
+/**
+ * Rename speakers before processing. Speakers given the same name are merged
+ * into one; blank names keep the speaker's current name.
+ */
+export function applySpeakerNames(
+  transcript: Transcript,
+  namesBySpeaker: Record<number, string>,
+): Transcript {
+  if (!Object.values(namesBySpeaker).some((name) => name.trim())) {
+    return transcript;
+  }
+
+  return buildTranscript(
+    transcript.segments.map((segment) => ({
+      speakerName:
+        namesBySpeaker[segment.speaker]?.trim() ||
+        getSpeakerName(transcript, segment.speaker),
+      content: segment.content,
+      start: segment.start,
+      end: segment.end,
+    })),
+  );
+}
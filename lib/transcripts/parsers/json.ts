@@ -0,0 +1,42 @@
+import { z } from "zod";
+import type { ParsedSegment } from "./types";
+
+// Our native shape, also accepting speaker names in place of numbers
+const JsonTranscriptSchema = z.object({
+  segments: z.array(
+    z.object({
+      speaker: z.union([z.number(), z.string()]),
+      content: z.string(),
+      start: z.number().optional(),
+      end: z.number().optional(),
+    }),
+  ),
+  speakers: z
+    .array(z.object({ speaker: z.number(), name: z.string() }))
+    .optional(),
+});
+
+export function parseJsonTranscript(text: string): ParsedSegment[] {
+  const result = JsonTranscriptSchema.safeParse(JSON.parse(text));
+  if (!result.success) {
+    throw new Error(
+      'JSON transcript must look like { "segments": [{ "speaker": 0, "content": "..." }] }',
+    );
+  }
+
+  const names = new Map(
+    result.data.speakers?.map((s) => [s.speaker, s.name]) ?? [],
+  );
+
+  return result.data.segments.map((segment) => ({
+    ...(typeof segment.speaker === "number"
+      ? {
+          speaker: segment.speaker,
+          speakerName: names.get(segment.speaker) ?? null,
+        }
+      : { speakerName: segment.speaker }),
+    content: segment.content,
+    start: segment.start,
+    end: segment.end,
+  }));
+}
@@ -0,0 +1,100 @@
+import type { ParsedSegment } from "./types";
+import { parseTimestamp, splitLines } from "./utils";
+
+const TIME = String.raw`\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?`;
+
+// Zoom: "[Jane Doe] 14:02:31" on its own line, text below
+const ZOOM_HEADER = new RegExp(String.raw`^\[(.+?)\]\s+(${TIME})$`);
+// Zoom (older exports): "00:01:02 Jane Doe: text"
+const ZOOM_INLINE = new RegExp(String.raw`^(${TIME})\s+(.+?):\s+(.+)$`);
+// Teams: "Jane Doe   0:03" on its own line, text below
+const TEAMS_HEADER = new RegExp(
+  String.raw`^([A-Za-z][\w.'’()-]*(?:\s[A-Za-z][\w.'’()-]*){0,5})\s+(${TIME})$`,
+);
+
+type MeetingExport = {
+  format: "zoom" | "teams";
+  segments: ParsedSegment[];
+};
+
+/**
+ * Parse Zoom or Teams meeting transcript exports (.txt, or the text of a .docx).
+ * Returns null if the text doesn't look like either.
+ */
+export function parseMeetingExport(text: string): MeetingExport | null {
+  const lines = splitLines(text)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  if (lines.length === 0) return null;
+
+  const count = (pattern: RegExp) =>
+    lines.filter((line) => pattern.test(line)).length;
+
+  // Headers alternate with text, so a real export has them on a good share of lines
+  const threshold = Math.max(2, Math.floor(lines.length * 0.2));
+
+  if (count(ZOOM_INLINE) >= threshold) {
+    return { format: "zoom", segments: parseInline(lines) };
+  }
+  if (count(ZOOM_HEADER) >= threshold) {
+    return { format: "zoom", segments: parseHeaders(lines, ZOOM_HEADER) };
+  }
+  if (count(TEAMS_HEADER) >= threshold) {
+    return { format: "teams", segments: parseHeaders(lines, TEAMS_HEADER) };
+  }
+  return null;
+}
+
+function parseInline(lines: string[]): ParsedSegment[] {
+  const segments: ParsedSegment[] = [];
+
+  for (const line of lines) {
+    const match = line.match(ZOOM_INLINE);
+    if (match) {
+      segments.push({
+        speakerName: match[2].trim(),
+        content: match[3].trim(),
+        start: parseTimestamp(match[1]),
+      });
+    } else if (segments.length > 0) {
+      segments[segments.length - 1].content += ` ${line}`;
+    }
+  }
+
+  return relativeTimes(segments);
+}
+
+function parseHeaders(lines: string[], header: RegExp): ParsedSegment[] {
+  const segments: ParsedSegment[] = [];
+
+  for (const line of lines) {
+    const match = line.match(header);
+    if (match) {
+      segments.push({
+        speakerName: match[1].trim(),
+        content: "",
+        start: parseTimestamp(match[2]),
+      });
+    } else if (segments.length > 0) {
+      const last = segments[segments.length - 1];
+      last.content = last.content ? `${last.content} ${line}` : line;
+    }
+    // Anything before the first header (title, date, attendees) is skipped
+  }
+
+  return relativeTimes(segments.filter((segment) => segment.content));
+}
+
+/**
+ * Zoom prints wall-clock times; make every timestamp relative to the first one
+ */
+function relativeTimes(segments: ParsedSegment[]): ParsedSegment[] {
+  const origin = segments.find((s) => s.start !== undefined)?.start ?? 0;
+  return segments.map((segment) => ({
+    ...segment,
+    start:
+      segment.start !== undefined
+        ? Math.max(0, segment.start - origin)
+        : undefined,
+  }));
+}
@@ -0,0 +1,28 @@
+import type { ParsedSegment } from "./types";
+import { splitLines, splitSpeakerPrefix } from "./utils";
+
+/**
+ * Parse a "Name: text" transcript. Lines without a speaker prefix continue the
+ * previous speaker's turn.
+ */
+export function parsePlainText(text: string): ParsedSegment[] {
+  const segments: ParsedSegment[] = [];
+
+  for (const rawLine of splitLines(text)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const prefixed = splitSpeakerPrefix(line);
+    const last = segments[segments.length - 1];
+
+    if (prefixed) {
+      segments.push(prefixed);
+    } else if (last) {
+      last.content = `${last.content} ${line}`;
+    } else {
+      segments.push({ speakerName: null, content: line });
+    }
+  }
+
+  return segments;
+}
@@ -0,0 +1,19 @@
+export type TranscriptFormat =
+  | "json"
+  | "vtt"
+  | "srt"
+  | "zoom"
+  | "teams"
+  | "plain"
+  | "audio";
+
+/**
+ * One utterance as read from a source file, before speakers are numbered
+ */
+export type ParsedSegment = {
+  speakerName: string | null; // null when the source doesn't say who spoke
+  speaker?: number; // Only when the source already numbers its speakers
+  content: string;
+  start?: number; // Seconds from the start of the call
+  end?: number;
+};
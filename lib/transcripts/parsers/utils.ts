@@ -0,0 +1,46 @@
+/**
+ * Parse "01:02:03.456", "01:02:03,456", "1:02:03" or "02:03" into seconds
+ */
+export function parseTimestamp(value: string): number | undefined {
+  const match = value
+    .trim()
+    .match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return undefined;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(hours ?? 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    (fraction ? Number(fraction.padEnd(3, "0")) / 1000 : 0)
+  );
+}
+
+// "Jane Doe: text" - names start with a letter and are short, so "Note: 10:30" style text is rare
+const SPEAKER_PREFIX = /^([A-Za-z][\w .'’()-]{0,48}?)\s*:\s+(.+)$/;
+
+/**
+ * Split a "Name: text" line into speaker and content
+ */
+export function splitSpeakerPrefix(
+  line: string,
+): { speakerName: string; content: string } | null {
+  const match = line.match(SPEAKER_PREFIX);
+  if (!match) return null;
+  return { speakerName: match[1].trim(), content: match[2].trim() };
+}
+
+export function splitLines(text: string) {
+  return text.replace(/^\uFEFF/, "").split(/\r?\n/);
+}
+
+/**
+ * Split text into blocks separated by blank lines (cues in VTT/SRT)
+ */
+export function splitBlocks(text: string) {
+  return splitLines(text)
+    .join("\n")
+    .split(/\n\s*\n/)
+    .map((block) => block.split("\n").filter((line) => line.trim()))
+    .filter((lines) => lines.length > 0);
+}
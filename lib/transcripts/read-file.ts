@@ -0,0 +1,52 @@
+import type { Transcript } from "@/lib/ai/types";
+import { isAudioFile, isDocxFile, isTextTranscriptFile } from "./files";
+import { parseTranscriptText, type TranscriptFormat } from "./parsers";
+
+export interface ImportedTranscript {
+  transcript: Transcript;
+  format: TranscriptFormat;
+}
+
+/**
+ * Turn an uploaded file into a transcript in the browser: text formats (JSON,
+ * VTT, SRT, Zoom/Teams exports, plain text) and Word documents are parsed
+ * directly, audio recordings are sent to the server for transcription.
+ */
+export async function readTranscriptFile(
+  file: File,
+  onStatus?: (status: string) => void,
+): Promise<ImportedTranscript> {
+  if (isAudioFile(file)) {
+    onStatus?.("Transcribing audio (this can take a few minutes)...");
+
+    const body = new FormData();
+    body.append("file", file);
+    const response = await fetch("/api/transcriptions", {
+      method: "POST",
+      body,
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.error ?? "Transcription failed");
+    }
+    return { transcript: result.transcript as Transcript, format: "audio" };
+  }
+
+  if (isDocxFile(file)) {
+    onStatus?.("Reading Word document...");
+    // mammoth is only needed for .docx uploads, so keep it out of the main bundle
+    const mammoth = await import("mammoth");
+    const { value } = await mammoth.extractRawText({
+      arrayBuffer: await file.arrayBuffer(),
+    });
+    return parseTranscriptText(value, file.name);
+  }
+
+  if (isTextTranscriptFile(file)) {
+    onStatus?.("Parsing transcript...");
+    return parseTranscriptText(await file.text(), file.name);
+  }
+
+  throw new Error(`Unsupported transcript file: ${file.name}`);
+}
@@ -0,0 +1,67 @@
+import type {
+  SpeakerRole,
+  Transcript,
+  TranscriptSpeaker,
+} from "@/lib/ai/types";
+
+export const SPEAKER_ROLES = [
+  "intake_attorney",
+  "client",
+  "witness",
+  "family_member",
+  "interpreter",
+  "other",
+] as const satisfies readonly SpeakerRole[];
+
+export const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+  intake_attorney: "Intake attorney",
+  client: "Client",
+  witness: "Witness",
+  family_member: "Family member",
+  interpreter: "Interpreter",
+  other: "Other",
+};
+
+/**
+ * Speaker numbers in order of first appearance
+ */
+export function listSpeakers(transcript: Transcript) {
+  return Array.from(new Set(transcript.segments.map((s) => s.speaker)));
+}
+
+export function getSpeaker(
+  transcript: Transcript,
+  speaker: number,
+): TranscriptSpeaker | undefined {
+  return transcript.speakers?.find((s) => s.speaker === speaker);
+}
+
+export function getSpeakerName(transcript: Transcript, speaker: number) {
+  return getSpeaker(transcript, speaker)?.name || `Speaker ${speaker}`;
+}
+
+/**
+ * Label used for a speaker in LLM-facing transcript text, e.g.
+ * "Speaker 1 (Client, Jane Doe)". Always starts with "Speaker N" so chunk
+ * boundaries and turn references stay stable.
+ */
+export function formatSpeakerLabel(transcript: Transcript, speaker: number) {
+  const details = getSpeaker(transcript, speaker);
+  const parts = [
+    details?.role && SPEAKER_ROLE_LABELS[details.role],
+    details?.name,
+  ].filter(Boolean);
+
+  return parts.length > 0
+    ? `Speaker ${speaker} (${parts.join(", ")})`
+    : `Speaker ${speaker}`;
+}
+
+/**
+ * Whether any speaker in the transcript still has no role assigned
+ */
+export function needsSpeakerRoles(transcript: Transcript) {
+  return listSpeakers(transcript).some(
+    (speaker) => !getSpeaker(transcript, speaker)?.role,
+  );
+}
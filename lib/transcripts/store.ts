@@ -0,0 +1,41 @@
+import { db } from "@/db";
+import { transcripts, turns } from "@/db/schema";
+import type { Transcript } from "@/lib/ai/types";
+
+/**
+ * Persist a transcript for a matter along with one turn record per segment,
+ * so extraction citations can reference stable turn IDs.
+ */
+export async function storeTranscript(
+  matterId: number,
+  transcript: Transcript,
+  label?: string | null,
+) {
+  const [newTranscript] = await db
+    .insert(transcripts)
+    .values({
+      matterId,
+      label: label?.trim() || null,
+      content: transcript,
+    })
+    .returning();
+
+  const turnRecords = transcript.segments.map((segment, index) => ({
+    transcriptId: newTranscript.id,
+    turnIndex: index,
+    speaker: segment.speaker,
+    content: segment.content,
+    startTime: segment.start ?? null,
+    endTime: segment.end ?? null,
+  }));
+
+  if (turnRecords.length > 0) {
+    await db.insert(turns).values(turnRecords);
+  }
+
+  console.log(
+    `[Transcripts] ✓ Stored transcript ${newTranscript.id} with ${turnRecords.length} turns`,
+  );
+
+  return newTranscript;
+}
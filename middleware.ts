@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { AUTH_CONFIG } from "@/lib/auth/config";
+
+/**
+ * Send visitors without a session cookie to the login page. This only checks
+ * that a cookie is present (the database isn't reachable from middleware);
+ * server actions and pages validate the session itself.
+ */
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(AUTH_CONFIG.SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const { pathname, search } = request.nextUrl;
+  if (pathname.startsWith("/api/")) {
+    return Response.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const loginUrl = new URL("/login", request.url);
+  if (pathname !== "/") {
+    loginUrl.searchParams.set("next", `${pathname}${search}`);
+  }
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: [
+    "/((?!login(?:/|$)|_next/static(?:/|$)|_next/image(?:/|$)|favicon\\.ico$).*)",
+  ],
+};
@@ -0,0 +1,91 @@
+/**
+ * Create a user who can sign in, or reset an existing user's password.
+ *
+ *   tsx scripts/create-user.ts <email> [<first name> <last name>] [--role <role>]
+ *
+ * Prompts for the password. Use this to set up the first account, which is an
+ * admin unless --role says otherwise; after that, admins add colleagues from
+ * the Users page. Roles are listed in lib/auth/permissions.ts.
+ */
+import { createInterface } from "node:readline/promises";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { users } from "@/db/schema";
+import { checkPasswordStrength, hashPassword } from "@/lib/auth/password";
+import { isUserRole, USER_ROLES } from "@/lib/auth/permissions";
+
+function getFlag(args: string[], name: string) {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const role = getFlag(args, "--role");
+  const [rawEmail, firstName, lastName] = args.filter(
+    (arg, index) => arg !== "--role" && args[index - 1] !== "--role",
+  );
+  const email = rawEmail?.trim().toLowerCase();
+  if (!email) {
+    throw new Error(
+      "Usage: tsx scripts/create-user.ts <email> [<first name> <last name>] [--role <role>]",
+    );
+  }
+  if (role !== undefined && !isUserRole(role)) {
+    throw new Error(`--role must be one of: ${USER_ROLES.join(", ")}`);
+  }
+
+  const existing = await db.query.users.findFirst({
+    where: eq(users.email, email),
+    columns: { id: true },
+  });
+  if (!existing && (!firstName || !lastName)) {
+    throw new Error("First and last name are required for a new user");
+  }
+
+  const prompt = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const password = await prompt.question("Password: ");
+  prompt.close();
+
+  const problem = checkPasswordStrength(password);
+  if (problem) {
+    throw new Error(problem);
+  }
+  const passwordHash = await hashPassword(password);
+
+  if (existing) {
+    await db
+      .update(users)
+      .set({
+        passwordHash,
+        ...(role && { role }),
+        ...(firstName && { firstName }),
+        ...(lastName && { lastName }),
+      })
+      .where(eq(users.id, existing.id));
+    console.log(`Updated ${email} (user ${existing.id})`);
+  } else {
+    const isFirstUser = !(await db.query.users.findFirst({
+      columns: { id: true },
+    }));
+    const [user] = await db
+      .insert(users)
+      .values({
+        email,
+        firstName,
+        lastName,
+        passwordHash,
+        role: role ?? (isFirstUser ? "admin" : "intake_specialist"),
+      })
+      .returning({ id: users.id, role: users.role });
+    console.log(`Created ${email} (user ${user.id}, ${user.role})`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
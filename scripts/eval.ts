@@ -0,0 +1,94 @@
+/**
+ * Score the extraction pipeline against hand-labelled transcripts.
+ *
+ *   tsx scripts/eval.ts [--cases evals/cases] [--results evals/results] [--case <name>] [--verbose]
+ *
+ * Each `<name>.gold.json` in the cases folder names a transcript and the
+ * values a lawyer expects (see GoldCase in lib/evals/score.ts). Prints
+ * per-field precision/recall, date/phone format and citation accuracy, and
+ * what changed since the last run, then saves this run as the new baseline.
+ * Combine with LLM_FIXTURES=replay to evaluate offline.
+ */
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { loadGoldCases, processTranscriptFile } from "@/lib/evals/cases";
+import {
+  type EvalReport,
+  formatDiff,
+  formatReport,
+  summarize,
+} from "@/lib/evals/report";
+import { type CaseResult, scoreCase } from "@/lib/evals/score";
+
+function getFlag(args: string[], name: string) {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function readReport(file: string): Promise<EvalReport | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const casesDir = getFlag(args, "--cases") ?? "evals/cases";
+  const resultsDir = getFlag(args, "--results") ?? "evals/results";
+  const only = getFlag(args, "--case");
+  const verbose = args.includes("--verbose");
+
+  const cases = (await loadGoldCases(casesDir)).filter(
+    (gold) => !only || gold.name === only,
+  );
+  if (cases.length === 0) {
+    console.error(`No gold cases found in ${casesDir}`);
+    process.exit(2);
+  }
+
+  // The pipeline is chatty; keep the report readable unless asked
+  const log = console.log;
+  if (!verbose) console.log = () => {};
+
+  const results: CaseResult[] = [];
+  for (const gold of cases) {
+    console.error(`Running ${gold.name}...`);
+    try {
+      const extraction = await processTranscriptFile(gold.transcript);
+      results.push(scoreCase(gold, extraction));
+    } catch (error) {
+      results.push({
+        name: gold.name,
+        error: error instanceof Error ? error.message : String(error),
+        fields: {},
+        indications: { tp: 0, fp: 0, fn: 0 },
+        citations: {},
+      });
+    }
+  }
+
+  console.log = log;
+
+  const report = summarize(results);
+  const latest = path.join(resultsDir, "latest.json");
+  const previous = await readReport(latest);
+
+  console.log(`\n${formatReport(report)}\n`);
+  if (previous) {
+    console.log(`${formatDiff(previous, report)}\n`);
+  }
+
+  await mkdir(resultsDir, { recursive: true });
+  if (previous) {
+    await rename(latest, path.join(resultsDir, "previous.json"));
+  }
+  await writeFile(latest, `${JSON.stringify(report, null, 2)}\n`);
+  console.log(`Saved results to ${latest}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
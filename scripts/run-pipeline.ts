@@ -0,0 +1,61 @@
+/**
+ * Run the extraction pipeline on a transcript file outside the app and write
+ * the merged extraction as JSON.
+ *
+ *   tsx scripts/run-pipeline.ts <transcript> (--out <file> | --check <file>)
+ *
+ * With LLM_FIXTURES=replay no model is called, so CI can check that the
+ * pipeline still produces the expected result (--check exits 1 on a mismatch).
+ * npm test runs that check on the sample interview.
+ *
+ * The committed fixtures hold hand-written answers of the kind a capable
+ * model gives for the sample interview (a slip and fall with cited quotes
+ * and per-field confidence), so the check covers citation verification,
+ * confidence scoring and the premises section. No model API was reachable
+ * when they were made; re-record them from a real model with
+ * LLM_MODEL=<provider>:<model> npm run pipeline:record, then review the diff.
+ */
+import { readFile, writeFile } from "node:fs/promises";
+import { processTranscriptFile } from "@/lib/evals/cases";
+
+function getFlag(args: string[], name: string) {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const input = args[0];
+  const out = getFlag(args, "--out");
+  const check = getFlag(args, "--check");
+
+  // The pipeline logs to stdout, so results always go to a file
+  if (!input || input.startsWith("--") || (!out && !check)) {
+    console.error(
+      "Usage: tsx scripts/run-pipeline.ts <transcript> (--out <file> | --check <file>)",
+    );
+    process.exit(2);
+  }
+
+  const extraction = await processTranscriptFile(input);
+  const output = `${JSON.stringify(extraction, null, 2)}\n`;
+
+  if (out) {
+    await writeFile(out, output);
+    console.error(`Wrote ${out}`);
+  }
+
+  if (check) {
+    const expected = await readFile(check, "utf8");
+    if (expected !== output) {
+      console.error(`✗ Extraction differs from ${check}`);
+      process.exit(1);
+    }
+    console.error(`✓ Extraction matches ${check}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
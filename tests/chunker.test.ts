@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { chunkTranscript } from "@/lib/ai/chunker";
+import { estimateTokens } from "@/lib/ai/token-estimator";
+import type { Transcript } from "@/lib/ai/types";
+
+function makeTranscript(contents: string[]): Transcript {
+  return {
+    segments: contents.map((content, index) => ({
+      speaker: index % 2,
+      content,
+    })),
+  };
+}
+
+// Tokens a chunk uses the way the chunker counts them: each turn plus its separator
+function chunkTokens(text: string) {
+  return text
+    .split("\n\n")
+    .reduce((sum, line) => sum + estimateTokens(line) + 1, 0);
+}
+
+describe("chunkTranscript", () => {
+  it("returns no chunks for an empty transcript", () => {
+    assert.deepEqual(chunkTranscript(makeTranscript([])), []);
+  });
+
+  it("keeps a short transcript in one chunk with its turn IDs", () => {
+    const chunks = chunkTranscript(
+      makeTranscript(["Hello", "Hi there", "How can I help?"]),
+      1000,
+      100,
+      [11, 12, 13],
+    );
+
+    assert.equal(chunks.length, 1);
+    assert.deepEqual(chunks[0].segmentIndices, [0, 1, 2]);
+    assert.deepEqual(chunks[0].turnIds, [11, 12, 13]);
+    assert.equal(
+      chunks[0].text,
+      "[Speaker 0]: Hello\n\n[Speaker 1]: Hi there\n\n[Speaker 0]: How can I help?",
+    );
+  });
+
+  it("splits long transcripts on whole turns within the budget", () => {
+    const contents = Array.from(
+      { length: 30 },
+      (_, i) => `Turn ${i} ${"word ".repeat(40)}`,
+    );
+    const maxChunkTokens = 200;
+    const overlapTokens = 60;
+    const chunks = chunkTranscript(
+      makeTranscript(contents),
+      maxChunkTokens,
+      overlapTokens,
+    );
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunkTokens(chunk.text) <= maxChunkTokens);
+      assert.equal(
+        chunk.text.split("\n\n").length,
+        chunk.segmentIndices.length,
+      );
+    }
+
+    // Every turn is covered, in order, ending with the last one
+    const covered = new Set(chunks.flatMap((chunk) => chunk.segmentIndices));
+    assert.equal(covered.size, contents.length);
+    assert.equal(chunks[0].segmentIndices[0], 0);
+    assert.equal(chunks.at(-1)?.segmentIndices.at(-1), contents.length - 1);
+  });
+
+  it("overlaps consecutive chunks by whole turns within the overlap budget", () => {
+    const contents = Array.from(
+      { length: 30 },
+      (_, i) => `Turn ${i} ${"word ".repeat(40)}`,
+    );
+    const overlapTokens = 120;
+    const chunks = chunkTranscript(
+      makeTranscript(contents),
+      300,
+      overlapTokens,
+    );
+
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1].segmentIndices;
+      const current = chunks[i].segmentIndices;
+      // Makes progress and brings at least one new turn
+      assert.ok(current[0] > previous[0]);
+      assert.ok((current.at(-1) as number) > (previous.at(-1) as number));
+
+      const shared = current.filter((index) => previous.includes(index));
+      assert.ok(shared.length > 0, `chunk ${i} has no overlap`);
+      const sharedText = chunks[i].text
+        .split("\n\n")
+        .slice(0, shared.length)
+        .join("\n\n");
+      assert.ok(chunkTokens(sharedText) <= overlapTokens);
+    }
+  });
+
+  it("keeps a turn larger than the budget whole, in a chunk of its own", () => {
+    const contents = ["Short opener", "word ".repeat(500), "Short closer"];
+    const chunks = chunkTranscript(makeTranscript(contents), 100, 20);
+
+    const oversized = chunks.find((chunk) => chunk.segmentIndices.includes(1));
+    assert.deepEqual(oversized?.segmentIndices, [1]);
+    assert.ok(oversized?.text.endsWith(contents[1]));
+    assert.deepEqual(
+      Array.from(new Set(chunks.flatMap((chunk) => chunk.segmentIndices))),
+      [0, 1, 2],
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  findQuote,
+  mergeCitations,
+  verifyCitations,
+} from "@/lib/ai/citation-verifier";
+
+const TURNS = [
+  { turnId: 1, content: "Can you tell me what happened?" },
+  {
+    turnId: 2,
+    content:
+      "Sure. The other driver ran a red light and hit my car on the passenger side.",
+  },
+];
+
+describe("findQuote", () => {
+  it("matches regardless of case and punctuation", () => {
+    const content = TURNS[1].content;
+    const match = findQuote("the other driver RAN a red light", content);
+
+    assert.ok(match);
+    assert.equal(match.score, 1);
+    assert.equal(
+      content.slice(match.start, match.end),
+      "The other driver ran a red light",
+    );
+  });
+
+  it("tolerates a changed word in a long quote but not two", () => {
+    const content = TURNS[1].content;
+    // 10 words: one change scores 0.9, two score 0.8
+    assert.ok(
+      findQuote("the other driver ran a red light and hit her", content),
+    );
+    assert.equal(
+      findQuote("the other truck ran a red light and hit her", content),
+      null,
+    );
+  });
+
+  it("gives up on a quote once its budget of comparisons is spent", () => {
+    const content = TURNS[1].content;
+    assert.equal(
+      findQuote("ran a red light", content, { remaining: 10 }),
+      null,
+    );
+    assert.ok(findQuote("ran a red light", content, { remaining: 1000 }));
+  });
+
+  it("finds nothing in empty text", () => {
+    assert.equal(findQuote("anything", ""), null);
+    assert.equal(findQuote("...", TURNS[1].content), null);
+  });
+});
+
+describe("verifyCitations", () => {
+  it("keeps the turns a quote was found in, with its offsets", () => {
+    const [citation] =
+      verifyCitations(
+        [
+          {
+            field: "atFault",
+            turnIds: [2],
+            quotes: [{ turnId: 2, text: "ran a red light" }],
+          },
+        ],
+        TURNS,
+      ) ?? [];
+
+    assert.deepEqual(citation, {
+      field: "atFault",
+      turnIds: [2],
+      spans: [{ turnId: 2, start: 23, end: 38, text: "ran a red light" }],
+      verified: true,
+    });
+  });
+
+  it("moves a quote to the chunk turn it actually came from", () => {
+    const [citation] =
+      verifyCitations(
+        [
+          {
+            field: "atFault",
+            turnIds: [1],
+            quotes: [{ turnId: 1, text: "hit my car" }],
+          },
+        ],
+        TURNS,
+      ) ?? [];
+
+    assert.deepEqual(citation.turnIds, [2]);
+    assert.equal(citation.verified, true);
+  });
+
+  it("flags unmatched quotes and drops citations outside the chunk", () => {
+    const citations = verifyCitations(
+      [
+        {
+          field: "hasPoliceReport",
+          turnIds: [1, 9],
+          quotes: [{ turnId: 1, text: "the police came to the scene" }],
+        },
+        { field: "rationale", turnIds: [9], quotes: [] },
+      ],
+      TURNS,
+    );
+
+    assert.deepEqual(citations, [
+      { field: "hasPoliceReport", turnIds: [1], verified: false },
+    ]);
+  });
+
+  it("rejects unmatched quotes against a long chunk quickly", () => {
+    // 200 turns of 100 words drawn from a small vocabulary, like a long call
+    const vocabulary = Array.from({ length: 400 }, (_, i) => `word${i}`);
+    let seed = 1;
+    const nextWord = () => {
+      seed = (seed * 48271) % 2147483647;
+      return vocabulary[seed % vocabulary.length];
+    };
+    const turns = Array.from({ length: 200 }, (_, i) => ({
+      turnId: i + 1,
+      content: Array.from({ length: 100 }, nextWord).join(" "),
+    }));
+    const quotes = Array.from({ length: 10 }, (_, i) => ({
+      turnId: i + 1,
+      text: Array.from({ length: 25 }, nextWord).join(" "),
+    }));
+
+    const started = performance.now();
+    const citations = verifyCitations(
+      [{ field: "atFault", turnIds: [1], quotes }],
+      turns,
+    );
+
+    assert.deepEqual(citations, [
+      { field: "atFault", turnIds: [1], verified: false },
+    ]);
+    assert.ok(performance.now() - started < 2000);
+  });
+
+  it("passes citations through when there are no turn IDs to check", () => {
+    assert.deepEqual(
+      verifyCitations(
+        [
+          {
+            field: "atFault",
+            turnIds: [4],
+            quotes: [{ turnId: 4, text: "x" }],
+          },
+        ],
+        [],
+      ),
+      [{ field: "atFault", turnIds: [4] }],
+    );
+    assert.equal(verifyCitations(undefined, TURNS), undefined);
+  });
+});
+
+describe("mergeCitations", () => {
+  it("combines a field across chunks, deduplicating repeated spans", () => {
+    const span = { turnId: 2, start: 23, end: 38, text: "ran a red light" };
+    const merged = mergeCitations([
+      { field: "atFault", turnIds: [2], spans: [span], verified: true },
+      { field: "atFault", turnIds: [3, 2], spans: [span], verified: false },
+      { field: "rationale", turnIds: [5] },
+    ]);
+
+    assert.deepEqual(merged, [
+      { field: "atFault", turnIds: [2, 3], spans: [span], verified: true },
+      { field: "rationale", turnIds: [5] },
+    ]);
+  });
+});
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  collectCandidates,
+  getModelScore,
+  scoreFieldConfidence,
+} from "@/lib/ai/confidence";
+import { AI_CONFIG } from "@/lib/ai/config";
+import type { ChunkExtraction } from "@/lib/ai/specialized-extractor";
+
+function liabilityChunk(atFault: unknown, score?: number) {
+  return {
+    atFault,
+    fieldConfidence: score === undefined ? [] : [{ field: "atFault", score }],
+  };
+}
+
+// Just enough of an extraction for liability.atFault to be scored
+function extraction(liability: object): ChunkExtraction {
+  return {
+    clientInfo: { caseType: "mva" },
+    liability,
+    damages: {},
+    coverage: {},
+  } as ChunkExtraction;
+}
+
+describe("getModelScore", () => {
+  it("uses the weakest item score for list fields", () => {
+    const section = {
+      fieldConfidence: [
+        { field: "indications[0]", score: 0.9 },
+        { field: "indications[1]", score: 0.4 },
+        { field: "severity", score: 0.2 },
+      ],
+    };
+    assert.equal(getModelScore(section, "indications"), 0.4);
+  });
+
+  it("falls back to the default when the model didn't score the field", () => {
+    assert.equal(
+      getModelScore({}, "atFault"),
+      AI_CONFIG.DEFAULT_FIELD_CONFIDENCE,
+    );
+  });
+});
+
+describe("collectCandidates", () => {
+  it("ranks values by the confidence of every chunk that agrees", () => {
+    const candidates = collectCandidates(
+      [
+        liabilityChunk("other_party", 0.6),
+        liabilityChunk("client", 0.9),
+        liabilityChunk("other_party", 0.6),
+      ],
+      "atFault",
+    );
+
+    assert.deepEqual(
+      candidates.map((c) => [c.value, c.score]),
+      [
+        ["other_party", 0.6],
+        ["client", 0.9],
+      ],
+    );
+  });
+
+  it("breaks ties in favour of the later chunk", () => {
+    const candidates = collectCandidates(
+      [liabilityChunk("client", 0.8), liabilityChunk("other_party", 0.8)],
+      "atFault",
+    );
+    assert.equal(candidates[0].value, "other_party");
+  });
+
+  it("ignores chunks that didn't provide a value", () => {
+    const candidates = collectCandidates(
+      [liabilityChunk(null), liabilityChunk([]), liabilityChunk("client")],
+      "atFault",
+    );
+    assert.deepEqual(candidates, [
+      { value: "client", score: AI_CONFIG.DEFAULT_FIELD_CONFIDENCE },
+    ]);
+  });
+});
+
+describe("scoreFieldConfidence", () => {
+  it("keeps the model's score when only one chunk states the value", () => {
+    const chunk = liabilityChunk("other_party", 0.9);
+    const result = scoreFieldConfidence(
+      [extraction(chunk)],
+      extraction({ atFault: "other_party" }),
+    );
+    assert.deepEqual(result["liability.atFault"], { score: 0.9 });
+  });
+
+  it("lowers the score and keeps candidates when chunks disagree", () => {
+    const result = scoreFieldConfidence(
+      [
+        extraction(liabilityChunk("client", 0.8)),
+        extraction(liabilityChunk("other_party", 0.9)),
+      ],
+      extraction({ atFault: "other_party" }),
+    );
+    const confidence = result["liability.atFault"];
+
+    // 0.9 scaled by its share of the combined confidence, 0.9 / 1.7
+    assert.equal(confidence.score, 0.48);
+    assert.deepEqual(
+      confidence.candidates?.map((c) => c.value),
+      ["other_party", "client"],
+    );
+  });
+
+  it("keeps unconfident and unscored values, the merged one first", () => {
+    const result = scoreFieldConfidence(
+      [
+        extraction(liabilityChunk("shared")),
+        extraction(liabilityChunk("client", 0.3)),
+        extraction(liabilityChunk("other_party", 0.9)),
+        extraction(liabilityChunk("client", 0.3)),
+      ],
+      extraction({ atFault: "client" }),
+    );
+
+    // Ranked after the merged value by combined confidence: 0.9, then 0.5
+    assert.deepEqual(
+      result["liability.atFault"].candidates?.map((c) => [c.value, c.score]),
+      [
+        ["client", 0.3],
+        ["other_party", 0.9],
+        ["shared", AI_CONFIG.DEFAULT_FIELD_CONFIDENCE],
+      ],
+    );
+  });
+});
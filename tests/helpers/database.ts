@@ -0,0 +1,56 @@
+import { mkdirSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  generateSQLiteDrizzleJson,
+  generateSQLiteMigration,
+} from "drizzle-kit/api";
+import { sql } from "drizzle-orm";
+
+// db/index.ts opens db/onsite.db relative to the working directory, so each
+// test file gets a database of its own by moving to a scratch directory.
+// Import this before anything that imports "@/db".
+const directory = mkdtempSync(path.join(tmpdir(), "onsite-test-"));
+mkdirSync(path.join(directory, "db"));
+process.chdir(directory);
+
+/**
+ * Create every table in the schema on the test database
+ */
+export async function createTestDatabase() {
+  const { db } = await import("@/db");
+  const schema = await import("@/db/schema");
+
+  const statements = await generateSQLiteMigration(
+    await generateSQLiteDrizzleJson({}),
+    await generateSQLiteDrizzleJson(schema),
+  );
+  for (const statement of statements) {
+    db.run(sql.raw(statement));
+  }
+}
+
+export function removeTestDatabase() {
+  rmSync(directory, { recursive: true, force: true });
+}
+
+/**
+ * Insert a matter with an empty mva intake form
+ */
+export async function insertTestMatter(
+  values: Partial<typeof import("@/db/schema").matters.$inferInsert> = {},
+) {
+  const { db } = await import("@/db");
+  const { intakeFormData, matters } = await import("@/db/schema");
+
+  const form = db
+    .insert(intakeFormData)
+    .values({ caseType: "mva", liability: {}, damages: {} })
+    .returning({ id: intakeFormData.id })
+    .get();
+  return db
+    .insert(matters)
+    .values({ name: "Test matter", intakeFormDataId: form.id, ...values })
+    .returning()
+    .get();
+}
@@ -0,0 +1,83 @@
+import "./helpers/database";
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { matterAssignments, matters, users } from "@/db/schema";
+import { canAccessMatter, canManageMatterTeam } from "@/lib/auth/access";
+import { assertPermission } from "@/lib/auth/permissions";
+import {
+  createTestDatabase,
+  insertTestMatter,
+  removeTestDatabase,
+} from "./helpers/database";
+
+before(createTestDatabase);
+after(removeTestDatabase);
+
+function insertUser(email: string) {
+  return db
+    .insert(users)
+    .values({ firstName: "Test", lastName: "User", email })
+    .returning()
+    .get();
+}
+
+describe("assertPermission", () => {
+  it("rejects a role without the permission, naming both", () => {
+    assert.throws(
+      () => assertPermission("paralegal", "matter:decide"),
+      /^Error: Paralegals can't make retention decisions$/,
+    );
+    assert.throws(
+      () => assertPermission("admin", "matter:edit"),
+      /Admins can't edit intake data/,
+    );
+  });
+
+  it("lets a role with the permission through", () => {
+    assert.doesNotThrow(() => assertPermission("attorney", "matter:decide"));
+  });
+});
+
+describe("canAccessMatter", () => {
+  it("lets the owner and assigned staff in and keeps everyone else out", async () => {
+    const owner = insertUser("owner@example.com");
+    const assignee = insertUser("assignee@example.com");
+    const outsider = insertUser("outsider@example.com");
+    const matter = await insertTestMatter({
+      ownerId: owner.id,
+      createdById: owner.id,
+    });
+    db.insert(matterAssignments)
+      .values({ matterId: matter.id, userId: assignee.id })
+      .run();
+
+    assert.equal(await canAccessMatter(owner.id, matter.id), true);
+    assert.equal(await canAccessMatter(assignee.id, matter.id), true);
+    assert.equal(await canAccessMatter(outsider.id, matter.id), false);
+  });
+
+  it("opens legacy matters to everyone and deleted matters to no one", async () => {
+    const user = insertUser("legacy@example.com");
+    const legacy = await insertTestMatter();
+    const deleted = await insertTestMatter({ ownerId: user.id });
+    db.update(matters)
+      .set({ deletedAt: new Date() })
+      .where(eq(matters.id, deleted.id))
+      .run();
+
+    assert.equal(await canAccessMatter(user.id, legacy.id), true);
+    assert.equal(await canAccessMatter(user.id, deleted.id), false);
+  });
+});
+
+describe("canManageMatterTeam", () => {
+  it("leaves the team to the owner, or the creator until there is one", () => {
+    assert.ok(canManageMatterTeam({ ownerId: 1, createdById: 2 }, 1));
+    assert.ok(!canManageMatterTeam({ ownerId: 1, createdById: 2 }, 2));
+    assert.ok(canManageMatterTeam({ ownerId: null, createdById: 2 }, 2));
+    assert.ok(canManageMatterTeam({ ownerId: null, createdById: null }, 3));
+  });
+});
@@ -0,0 +1,96 @@
+import "./helpers/database";
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { FieldSources } from "@/db/types";
+import { getFieldConflicts, pickConflictCandidate } from "@/lib/intake/review";
+import { saveMatterRevision } from "@/lib/matters/revisions";
+import { loadMatterSnapshot } from "@/lib/matters/snapshot";
+import {
+  createTestDatabase,
+  insertTestMatter,
+  removeTestDatabase,
+} from "./helpers/database";
+
+before(createTestDatabase);
+after(removeTestDatabase);
+
+// An extraction that kept "Jane Doe" over "Jane Dow"
+const CONFLICTED: FieldSources = {
+  clientName: {
+    origin: "ai",
+    jobId: 1,
+    updatedAt: "2026-03-01T00:00:00.000Z",
+    confidence: {
+      score: 0.45,
+      candidates: [
+        { value: "Jane Doe", score: 0.9 },
+        { value: "Jane Dow", score: 0.8 },
+      ],
+    },
+  },
+};
+
+async function resolve(candidateIndex: number) {
+  const matter = await insertTestMatter({
+    clientName: "Jane Doe",
+    fieldSources: CONFLICTED,
+  });
+  const current = await loadMatterSnapshot(matter.id);
+  assert.ok(current);
+  assert.equal(
+    getFieldConflicts(current.snapshot, current.fieldSources).length,
+    1,
+  );
+
+  const resolved = pickConflictCandidate(
+    current.snapshot,
+    current.fieldSources,
+    "clientName",
+    candidateIndex,
+  );
+  assert.ok(resolved);
+  await saveMatterRevision(matter.id, current, resolved, { kind: "edit" });
+
+  const saved = await loadMatterSnapshot(matter.id);
+  assert.ok(saved);
+  return saved;
+}
+
+describe("pickConflictCandidate", () => {
+  it("clears the conflict when the kept value is picked", async () => {
+    const saved = await resolve(0);
+
+    assert.equal(saved.snapshot.clientName, "Jane Doe");
+    assert.equal(saved.fieldSources.clientName.origin, "ai");
+    assert.ok(saved.fieldSources.clientName.reviewedAt);
+    assert.deepEqual(getFieldConflicts(saved.snapshot, saved.fieldSources), []);
+  });
+
+  it("makes another value the lawyer's own", async () => {
+    const saved = await resolve(1);
+
+    assert.equal(saved.snapshot.clientName, "Jane Dow");
+    assert.equal(saved.fieldSources.clientName.origin, "user");
+    assert.deepEqual(getFieldConflicts(saved.snapshot, saved.fieldSources), []);
+  });
+
+  it("returns null for a candidate the field doesn't have", async () => {
+    const matter = await insertTestMatter({ fieldSources: CONFLICTED });
+    const current = await loadMatterSnapshot(matter.id);
+    assert.ok(current);
+    assert.equal(
+      pickConflictCandidate(current.snapshot, {}, "clientName", 0),
+      null,
+    );
+    assert.equal(
+      pickConflictCandidate(
+        current.snapshot,
+        current.fieldSources,
+        "clientName",
+        2,
+      ),
+      null,
+    );
+  });
+});
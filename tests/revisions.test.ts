@@ -0,0 +1,158 @@
+import "./helpers/database";
+
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { eq } from "drizzle-orm";
+import { db } from "@/db";
+import { matterAssignments, matters, users } from "@/db/schema";
+import {
+  diffRevision,
+  listMatterRevisions,
+  saveMatterRecordChange,
+  saveMatterRevision,
+} from "@/lib/matters/revisions";
+import { loadMatterSnapshot } from "@/lib/matters/snapshot";
+import {
+  createTestDatabase,
+  insertTestMatter,
+  removeTestDatabase,
+} from "./helpers/database";
+
+before(createTestDatabase);
+after(removeTestDatabase);
+
+async function loadState(matterId: number) {
+  const state = await loadMatterSnapshot(matterId);
+  assert.ok(state);
+  return { snapshot: state.snapshot, fieldSources: state.fieldSources };
+}
+
+describe("saveMatterRevision", () => {
+  it("logs value changes with the fields they touched", async () => {
+    const matter = await insertTestMatter();
+    const current = await loadState(matter.id);
+
+    const revisionId = await saveMatterRevision(
+      matter.id,
+      current,
+      {
+        snapshot: { ...current.snapshot, clientName: "Jane Doe" },
+        fieldSources: current.fieldSources,
+      },
+      { kind: "edit" },
+    );
+
+    const [revision] = await listMatterRevisions(matter.id);
+    assert.equal(revision.id, revisionId);
+    assert.deepEqual(revision.changedFields, ["clientName"]);
+    assert.equal((await loadState(matter.id)).snapshot.clientName, "Jane Doe");
+  });
+
+  it("saves new confidence for unchanged values without logging a revision", async () => {
+    const matter = await insertTestMatter({ clientName: "Jane Doe" });
+    const current = await loadState(matter.id);
+    const fieldSources = {
+      clientName: {
+        origin: "ai" as const,
+        jobId: 7,
+        updatedAt: "2026-03-01T00:00:00.000Z",
+        confidence: { score: 0.4 },
+      },
+    };
+
+    const revisionId = await saveMatterRevision(
+      matter.id,
+      current,
+      { snapshot: current.snapshot, fieldSources },
+      { kind: "extraction" },
+    );
+
+    assert.equal(revisionId, null);
+    assert.deepEqual(await listMatterRevisions(matter.id), []);
+    assert.deepEqual((await loadState(matter.id)).fieldSources, fieldSources);
+  });
+});
+
+describe("saveMatterRecordChange", () => {
+  it("logs a team change with the names before and after", async () => {
+    const matter = await insertTestMatter();
+    const paralegal = db
+      .insert(users)
+      .values({ firstName: "Pat", lastName: "Lee", email: "pat@example.com" })
+      .returning()
+      .get();
+
+    const revisionId = saveMatterRecordChange(
+      matter.id,
+      { kind: "team", userId: paralegal.id },
+      (tx) =>
+        tx
+          .insert(matterAssignments)
+          .values({ matterId: matter.id, userId: paralegal.id })
+          .run(),
+    );
+
+    const [revision] = await listMatterRevisions(matter.id);
+    assert.equal(revision.id, revisionId);
+    assert.deepEqual(
+      diffRevision(revision.before as object, revision.after as object),
+      [
+        {
+          key: "assignees",
+          label: "Assigned Staff",
+          current: [],
+          proposed: ["Pat Lee"],
+        },
+      ],
+    );
+  });
+
+  it("logs nothing when the write changed nothing", async () => {
+    const matter = await insertTestMatter({ name: "Doe v. Smith" });
+
+    const revisionId = saveMatterRecordChange(
+      matter.id,
+      { kind: "rename" },
+      (tx) =>
+        tx
+          .update(matters)
+          .set({ name: "Doe v. Smith" })
+          .where(eq(matters.id, matter.id))
+          .run(),
+    );
+
+    assert.equal(revisionId, null);
+    assert.deepEqual(await listMatterRevisions(matter.id), []);
+  });
+});
+
+describe("diffRevision", () => {
+  it("lists a confirmed AI value without a value change", async () => {
+    const matter = await insertTestMatter({ clientName: "Jane Doe" });
+    const current = await loadState(matter.id);
+    const source = {
+      origin: "ai" as const,
+      updatedAt: "2026-03-01T00:00:00.000Z",
+    };
+
+    assert.deepEqual(
+      diffRevision(
+        { ...current, fieldSources: { clientName: source } },
+        {
+          ...current,
+          fieldSources: {
+            clientName: { ...source, reviewedAt: "2026-03-02T00:00:00.000Z" },
+          },
+        },
+      ),
+      [
+        {
+          key: "clientName.confirmed",
+          label: "Client Name Confirmed",
+          current: false,
+          proposed: true,
+        },
+      ],
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { CaseTypeDefinition } from "@/db/types";
+import { DEFAULT_CASE_TYPES } from "@/lib/case-types/defaults";
+import {
+  DEFAULT_SCORING,
+  getScoringRules,
+  parsePolicyLimit,
+  type ScoringInput,
+  scoreMatter,
+} from "@/lib/intake/scoring";
+
+const TODAY = new Date("2026-03-01T00:00:00Z");
+
+// Sections are partial, as they are on manual matters
+function intake(overrides: Record<string, unknown> = {}): ScoringInput {
+  return {
+    caseType: "mva",
+    incidentDate: "2026-01-15",
+    liability: { atFault: "other_party" },
+    damages: {},
+    coverage: {},
+    ...overrides,
+  } as unknown as ScoringInput;
+}
+
+describe("scoreMatter", () => {
+  it("recommends retaining a strong, timely case", () => {
+    const score = scoreMatter(
+      intake({
+        liability: { atFault: "other_party", hasPoliceReport: true },
+        damages: { severity: "high", indications: [] },
+        coverage: {
+          otherPartyHasInsurance: true,
+          policyLimits: "$100,000/$300,000",
+        },
+      }),
+      DEFAULT_CASE_TYPES,
+      TODAY,
+    );
+
+    assert.equal(score.total, 100);
+    assert.equal(score.recommendation, "accept");
+    assert.equal(score.filingDeadline, "2028-01-15");
+  });
+
+  it("weights each factor by the case type's rules", () => {
+    // Liability 1, damages 0, uninsured 0.1, statute 1 under 35/30/20/15
+    const score = scoreMatter(
+      intake({
+        coverage: { otherPartyHasInsurance: false },
+      }),
+      DEFAULT_CASE_TYPES,
+      TODAY,
+    );
+
+    assert.deepEqual(
+      score.factors.map((f) => [f.factor, f.weight, f.score]),
+      [
+        ["liability", 35, 1],
+        ["damages", 30, 0],
+        ["coverage", 20, 0.1],
+        ["statuteOfLimitations", 15, 1],
+      ],
+    );
+    assert.equal(score.total, 52);
+    assert.equal(score.recommendation, "review");
+  });
+
+  it("always recommends declining once the filing deadline has passed", () => {
+    const score = scoreMatter(
+      intake({
+        incidentDate: "2020-01-01",
+        damages: { severity: "high", indications: [] },
+        coverage: { otherPartyHasInsurance: true, policyLimits: "$1 million" },
+      }),
+      DEFAULT_CASE_TYPES,
+      TODAY,
+    );
+
+    assert.ok(score.total >= DEFAULT_SCORING.declineThreshold);
+    assert.equal(score.recommendation, "decline");
+  });
+
+  it("scores a manual matter with no intake data without failing", () => {
+    const score = scoreMatter(
+      intake({
+        incidentDate: null,
+        liability: undefined,
+        damages: undefined,
+        coverage: undefined,
+      }),
+      DEFAULT_CASE_TYPES,
+      TODAY,
+    );
+
+    assert.equal(score.filingDeadline, null);
+    assert.equal(score.recommendation, "decline");
+  });
+});
+
+describe("getScoringRules", () => {
+  it("falls back to the built-in rules for registry entries without scoring", () => {
+    const saved: CaseTypeDefinition[] = DEFAULT_CASE_TYPES.map((caseType) => ({
+      ...caseType,
+      scoring: null,
+    }));
+    const builtIn = DEFAULT_CASE_TYPES.find(
+      (caseType) => caseType.id === "medical_malpractice",
+    )?.scoring;
+
+    assert.ok(builtIn);
+    assert.deepEqual(getScoringRules(saved, "medical_malpractice"), builtIn);
+    assert.deepEqual(getScoringRules(saved, "unknown"), DEFAULT_SCORING);
+  });
+
+  it("has default weights that add up to 100", () => {
+    const total = Object.values(DEFAULT_SCORING.weights).reduce(
+      (sum, weight) => sum + weight,
+      0,
+    );
+    assert.equal(total, 100);
+  });
+});
+
+describe("parsePolicyLimit", () => {
+  it("reads the per-person limit from common notations", () => {
+    assert.equal(parsePolicyLimit("$100,000/$300,000"), 100_000);
+    assert.equal(parsePolicyLimit("25/50/25"), 25_000);
+    assert.equal(parsePolicyLimit("$1 million"), 1_000_000);
+    assert.equal(parsePolicyLimit("50k per person"), 50_000);
+  });
+
+  it("returns null when no amount is given", () => {
+    assert.equal(parsePolicyLimit("state minimum"), null);
+    assert.equal(parsePolicyLimit(undefined), null);
+  });
+});
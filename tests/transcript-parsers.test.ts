@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  applySpeakerNames,
+  buildTranscript,
+  parseTranscriptText,
+} from "@/lib/transcripts/parsers";
+
+describe("parseTranscriptText", () => {
+  it("reads plain text, continuing unprefixed lines in the previous turn", () => {
+    const { transcript, format } = parseTranscriptText(
+      "Attorney: What happened?\nClient: I was rear-ended\non the highway.\n\nAttorney: When?",
+    );
+
+    assert.equal(format, "plain");
+    assert.deepEqual(transcript.segments, [
+      { speaker: 0, content: "What happened?" },
+      { speaker: 1, content: "I was rear-ended on the highway." },
+      { speaker: 0, content: "When?" },
+    ]);
+    assert.deepEqual(transcript.speakers, [
+      { speaker: 0, name: "Attorney" },
+      { speaker: 1, name: "Client" },
+    ]);
+  });
+
+  it("reads WebVTT voice tags and timings, merging cues by the same speaker", () => {
+    const { transcript, format } = parseTranscriptText(
+      [
+        "WEBVTT",
+        "",
+        "00:00:01.000 --> 00:00:03.500",
+        "<v Jane Doe>I slipped in the</v>",
+        "",
+        "00:00:03.500 --> 00:00:05.000",
+        "<v Jane Doe>grocery store.</v>",
+        "",
+        "00:01:05.000 --> 00:01:07.250",
+        "<v John Smith>Was the floor wet?</v>",
+      ].join("\n"),
+    );
+
+    assert.equal(format, "vtt");
+    assert.deepEqual(transcript.segments, [
+      {
+        speaker: 0,
+        content: "I slipped in the grocery store.",
+        start: 1,
+        end: 5,
+      },
+      { speaker: 1, content: "Was the floor wet?", start: 65, end: 67.25 },
+    ]);
+  });
+
+  it("detects SRT captions by content and strips a byte order mark", () => {
+    const { transcript, format } = parseTranscriptText(
+      "\uFEFF1\n00:00:01,000 --> 00:00:02,000\nClient: Hello\n\n2\n00:00:02,000 --> 00:00:04,000\nAttorney: Hi",
+      "call.txt",
+    );
+
+    assert.equal(format, "srt");
+    assert.equal(transcript.segments.length, 2);
+    assert.equal(transcript.speakers?.[0].name, "Client");
+  });
+
+  it("rejects a file with no transcript text", () => {
+    assert.throws(
+      () => parseTranscriptText("\n  \n"),
+      /No transcript text was found/,
+    );
+  });
+});
+
+describe("buildTranscript", () => {
+  it("keeps the source's speaker numbers when every line has one", () => {
+    const transcript = buildTranscript([
+      { speakerName: null, speaker: 3, content: "a" },
+      { speakerName: null, speaker: 1, content: "b" },
+    ]);
+
+    assert.deepEqual(
+      transcript.segments.map((s) => s.speaker),
+      [3, 1],
+    );
+  });
+
+  it("keeps unnamed speakers apart by number when others are named", () => {
+    const transcript = buildTranscript([
+      { speakerName: "Jane", content: "a" },
+      { speakerName: null, speaker: 1, content: "b" },
+      { speakerName: null, speaker: 2, content: "c" },
+      { speakerName: "jane", content: "d" },
+    ]);
+
+    assert.deepEqual(
+      transcript.segments.map((s) => s.speaker),
+      [0, 1, 2, 0],
+    );
+  });
+
+  it("drops blank lines and collapses whitespace", () => {
+    const transcript = buildTranscript([
+      { speakerName: "A", content: "  one\n two  " },
+      { speakerName: "B", content: "   " },
+      { speakerName: "A", content: "three" },
+    ]);
+
+    assert.deepEqual(
+      transcript.segments.map(({ speaker, content }) => ({ speaker, content })),
+      [{ speaker: 0, content: "one two three" }],
+    );
+  });
+});
+
+describe("applySpeakerNames", () => {
+  it("merges speakers given the same name", () => {
+    const { transcript } = parseTranscriptText(
+      "Speaker A: Hello\nSpeaker B: It's me again\nSpeaker C: Hi",
+    );
+    const renamed = applySpeakerNames(transcript, { 0: "Jane", 1: "Jane" });
+
+    assert.deepEqual(
+      renamed.segments.map(({ speaker, content }) => ({ speaker, content })),
+      [
+        { speaker: 0, content: "Hello It's me again" },
+        { speaker: 1, content: "Hi" },
+      ],
+    );
+    assert.deepEqual(renamed.speakers, [
+      { speaker: 0, name: "Jane" },
+      { speaker: 1, name: "Speaker C" },
+    ]);
+  });
+
+  it("leaves the transcript alone when every name is blank", () => {
+    const { transcript } = parseTranscriptText("A: one\nB: two");
+    assert.equal(applySpeakerNames(transcript, { 0: " " }), transcript);
+  });
+});